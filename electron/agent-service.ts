@@ -2,6 +2,7 @@ import Database from 'better-sqlite3'
 import path from 'path'
 import { app } from 'electron'
 import { v4 as uuidv4 } from 'uuid'
+import type { GenerationOptions } from './llm-config.js'
 
 export interface Agent {
   id: string
@@ -15,14 +16,34 @@ export interface Agent {
     chromaCollectionId?: string
   }
   modelConfig?: {
-    model: string
-    temperature: number
-    maxTokens: number
+    model?: string
+    temperature?: number
+    maxTokens?: number
+    topP?: number
+    topK?: number
+    repeatPenalty?: number
+    seed?: number
+    loraAdapter?: string // filename in the models/adapters directory, applied while the agent is active
+    loraScale?: number // adapter strength, defaults to 1
   }
   createdAt: string
   updatedAt: string
 }
 
+// Sampling parameters saved on the agent, in the shape LLMService.chat accepts
+export function getAgentGenerationOptions(agent: Agent): GenerationOptions {
+  const modelConfig = agent.modelConfig
+  if (!modelConfig) return {}
+  return {
+    temperature: modelConfig.temperature,
+    maxTokens: modelConfig.maxTokens,
+    topP: modelConfig.topP,
+    topK: modelConfig.topK,
+    repeatPenalty: modelConfig.repeatPenalty,
+    seed: modelConfig.seed
+  }
+}
+
 export interface AgentFile {
   id: string
   agentId: string
@@ -0,0 +1,196 @@
+import type { ConversationDatabaseService } from './conversation-service.js'
+import { DEFAULT_CONVERSATION_TITLE } from './conversation-service.js'
+
+// Used when a caller doesn't pass a conversation ID. Like any ID that has no row
+// in the conversations table, it is kept in memory only and never persisted.
+export const DEFAULT_CONVERSATION_ID = 'default'
+
+export interface ConversationState {
+  id: string
+  systemPrompt: string
+  history: any[] // node-llama-cpp ChatHistoryItem[], system prompt first
+  persisted: boolean
+  lastUsed: number
+  summary?: string // earlier turns folded in by the context manager, appended to the system prompt
+  droppedTurns: number
+}
+
+const SUMMARY_HEADER = 'Summary of the earlier conversation:'
+
+export class ChatSessionManager {
+  private conversations: Map<string, ConversationState> = new Map()
+  private maxCachedConversations = 16 // persisted ones; they are rehydrated from SQLite on next use
+  private maxMemoryConversations = 32 // relayed ones, which exist nowhere else
+  private defaultSystemPrompt: string
+  private store?: ConversationDatabaseService
+
+  constructor(defaultSystemPrompt: string, store?: ConversationDatabaseService) {
+    this.defaultSystemPrompt = defaultSystemPrompt
+    this.store = store
+  }
+
+  // Returns the conversation, rehydrating its history from SQLite if it isn't cached
+  get(conversationId: string): ConversationState {
+    let conversation = this.conversations.get(conversationId)
+
+    if (!conversation) {
+      const stored = this.store?.getConversationById(conversationId)
+      conversation = {
+        id: conversationId,
+        systemPrompt: stored?.systemPrompt || this.defaultSystemPrompt,
+        history: [],
+        persisted: !!stored,
+        lastUsed: Date.now(),
+        summary: stored?.summary,
+        droppedTurns: stored?.droppedTurns ?? 0
+      }
+      conversation.history = [{ type: 'system', text: this.getSystemText(conversation) }]
+
+      if (stored) {
+        // Turns the context manager already removed stay out of the model's view
+        let turns = 0
+        for (const message of this.store!.getMessages(conversationId)) {
+          if (message.role === 'user') turns++
+          if (turns <= conversation.droppedTurns) continue
+          conversation.history.push(message.role === 'user'
+            ? { type: 'user', text: message.content }
+            : { type: 'model', response: [message.content] })
+        }
+        console.log(`Rehydrated conversation ${conversationId} (${conversation.history.length - 1} messages)`)
+      }
+
+      this.conversations.set(conversationId, conversation)
+      this.evictIdle()
+    }
+
+    conversation.lastUsed = Date.now()
+    return conversation
+  }
+
+  // Keep the in-memory history in sync with what the chat session actually evaluated
+  updateHistory(conversationId: string, history: any[]): void {
+    const conversation = this.get(conversationId)
+    conversation.history = history
+  }
+
+  // Persist one user/assistant turn for conversations that exist in the database
+  recordExchange(conversationId: string, userMessage: string, response: string): void {
+    const conversation = this.get(conversationId)
+    if (!conversation.persisted || !this.store) return
+
+    try {
+      const stored = this.store.getConversationById(conversationId)
+      if (!stored) {
+        // Deleted while a reply was being generated
+        this.forget(conversationId)
+        return
+      }
+
+      this.store.addMessage(conversationId, 'user', userMessage)
+      if (response) {
+        this.store.addMessage(conversationId, 'assistant', response)
+      }
+
+      // Name untitled conversations after their first message
+      if (stored.title === DEFAULT_CONVERSATION_TITLE) {
+        const title = userMessage.replace(/\s+/g, ' ').trim()
+        this.store.renameConversation(conversationId, title.length > 60 ? `${title.slice(0, 57)}...` : title)
+      }
+    } catch (error) {
+      console.error('Failed to persist conversation messages:', error)
+    }
+  }
+
+  // Adds a turn answered by another backend to the history and persists it
+  appendExchange(conversationId: string, userMessage: string, response: string): void {
+    const conversation = this.get(conversationId)
+    conversation.history = [
+      ...conversation.history,
+      { type: 'user', text: userMessage },
+      { type: 'model', response: [response] }
+    ]
+    this.recordExchange(conversationId, userMessage, response)
+  }
+
+  // Replaces the model's view of a conversation after old turns were dropped or summarized.
+  // The full transcript stays in the database.
+  compact(conversationId: string, history: any[], droppedTurns: number, summary?: string): ConversationState {
+    const conversation = this.get(conversationId)
+    conversation.droppedTurns += droppedTurns
+    if (summary !== undefined) {
+      conversation.summary = summary
+    }
+    const rest = history[0]?.type === 'system' ? history.slice(1) : history
+    conversation.history = [{ type: 'system', text: this.getSystemText(conversation) }, ...rest]
+
+    if (conversation.persisted) {
+      try {
+        this.store?.setContextState(conversationId, conversation.summary, conversation.droppedTurns)
+      } catch (error) {
+        console.error('Failed to persist conversation summary:', error)
+      }
+    }
+    return conversation
+  }
+
+  // Swaps in history kept elsewhere; `systemPrompt` already includes any summary. Stored
+  // conversations only change through their own messages.
+  replace(conversationId: string, turns: any[], systemPrompt?: string): ConversationState {
+    const conversation = this.get(conversationId)
+    if (conversation.persisted) {
+      throw new Error(`Conversation ${conversationId} is stored and can't be replaced`)
+    }
+    conversation.systemPrompt = systemPrompt || this.defaultSystemPrompt
+    conversation.summary = undefined
+    conversation.droppedTurns = 0
+    conversation.history = [{ type: 'system', text: conversation.systemPrompt }, ...turns]
+    return conversation
+  }
+
+  private getSystemText(conversation: ConversationState): string {
+    return conversation.summary
+      ? `${conversation.systemPrompt}\n\n${SUMMARY_HEADER}\n${conversation.summary}`
+      : conversation.systemPrompt
+  }
+
+  setSystemPrompt(conversationId: string, systemPrompt: string): ConversationState {
+    const conversation = this.get(conversationId)
+    conversation.systemPrompt = systemPrompt
+
+    const [first, ...rest] = conversation.history
+    const system = { type: 'system', text: this.getSystemText(conversation) }
+    conversation.history = first?.type === 'system'
+      ? [system, ...rest]
+      : [system, ...conversation.history]
+
+    if (conversation.persisted) {
+      this.store?.setSystemPrompt(conversationId, systemPrompt)
+    }
+    return conversation
+  }
+
+  setDefaultSystemPrompt(systemPrompt: string): void {
+    this.defaultSystemPrompt = systemPrompt
+  }
+
+  forget(conversationId: string): void {
+    this.conversations.delete(conversationId)
+  }
+
+  // Drop the least recently used histories. Persisted ones come back from SQLite on next use;
+  // relayed ones are lost, which is why they get a cap of their own rather than staying forever.
+  // The default conversation is always kept.
+  private evictIdle(): void {
+    const byAge = Array.from(this.conversations.values()).sort((a, b) => a.lastUsed - b.lastUsed)
+    const persisted = byAge.filter(conversation => conversation.persisted)
+    const inMemory = byAge.filter(conversation => !conversation.persisted && conversation.id !== DEFAULT_CONVERSATION_ID)
+
+    for (const conversation of persisted.slice(0, Math.max(0, persisted.length - this.maxCachedConversations))) {
+      this.conversations.delete(conversation.id)
+    }
+    for (const conversation of inMemory.slice(0, Math.max(0, inMemory.length - this.maxMemoryConversations))) {
+      console.log(`Dropping idle in-memory conversation ${conversation.id}`)
+      this.conversations.delete(conversation.id)
+    }
+  }
+}
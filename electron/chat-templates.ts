@@ -0,0 +1,108 @@
+// How chat history is formatted into the prompt text. 'auto' picks a format from the model's GGUF
+// metadata; 'jinja' renders a template given by the user (or the GGUF one) as-is.
+export type ChatTemplateId = 'auto' | 'chatml' | 'llama3' | 'mistral' | 'phi' | 'gemma' | 'jinja'
+
+export interface ChatTemplateSetting {
+  template: ChatTemplateId
+  jinja?: string // only for 'jinja'; falls back to the template embedded in the GGUF file
+}
+
+export interface ChatTemplateInfo {
+  filename: string
+  setting: ChatTemplateSetting // stored override, or 'auto'
+  detected?: ChatTemplateId // family recognised in the GGUF template
+  ggufTemplate?: string
+  activeWrapper?: string // node-llama-cpp wrapper in use, when this model is loaded
+}
+
+export interface PromptPreviewMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface PromptPreview {
+  text: string // special tokens included, exactly as evaluated
+  tokenCount: number
+  wrapperName: string
+}
+
+export const CHAT_TEMPLATES: { id: ChatTemplateId; name: string; description: string }[] = [
+  { id: 'auto', name: 'auto', description: 'detect from the model file' },
+  { id: 'chatml', name: 'chatml', description: '<|im_start|> markers (qwen, hermes, many fine-tunes)' },
+  { id: 'llama3', name: 'llama 3', description: '<|start_header_id|> markers' },
+  { id: 'mistral', name: 'mistral', description: '[INST] markers' },
+  { id: 'phi', name: 'phi', description: '<|user|> / <|end|> markers (phi-3)' },
+  { id: 'gemma', name: 'gemma', description: '<start_of_turn> markers' },
+  { id: 'jinja', name: 'raw jinja', description: 'render a jinja template exactly as written' }
+]
+
+const PHI_TEMPLATE = "{% for message in messages %}{{ '<|' + message['role'] + '|>\\n' + message['content'] + '<|end|>\\n' }}{% endfor %}" +
+  "{% if add_generation_prompt %}{{ '<|assistant|>\\n' }}{% endif %}"
+
+// Recognises the template family from the markers in a GGUF Jinja template
+export function detectChatTemplate(jinja?: string): ChatTemplateId | undefined {
+  if (!jinja) return undefined
+  if (jinja.includes('<|im_start|>')) return 'chatml'
+  if (jinja.includes('<|start_header_id|>')) return 'llama3'
+  if (jinja.includes('<start_of_turn>')) return 'gemma'
+  if (jinja.includes('<|user|>') && jinja.includes('<|end|>')) return 'phi'
+  if (jinja.includes('[INST]')) return 'mistral'
+  return undefined
+}
+
+export function validateChatTemplateSetting(setting: ChatTemplateSetting): ChatTemplateSetting {
+  if (!CHAT_TEMPLATES.some(option => option.id === setting?.template)) {
+    throw new Error(`Unknown chat template: ${setting?.template}`)
+  }
+  if (setting.template !== 'jinja') {
+    return { template: setting.template }
+  }
+  const jinja = typeof setting.jinja === 'string' ? setting.jinja.trim() : ''
+  return jinja ? { template: 'jinja', jinja } : { template: 'jinja' }
+}
+
+// Builds the node-llama-cpp chat wrapper for a setting; the model supplies its GGUF template and tokens
+export async function createChatWrapper(setting: ChatTemplateSetting, model: any, ggufTemplate?: string): Promise<any> {
+  const {
+    resolveChatWrapper,
+    ChatMLChatWrapper,
+    Llama3ChatWrapper,
+    MistralChatWrapper,
+    GemmaChatWrapper,
+    JinjaTemplateChatWrapper
+  } = await import('node-llama-cpp')
+
+  switch (setting.template) {
+    case 'chatml':
+      return new ChatMLChatWrapper()
+    case 'llama3':
+      return new Llama3ChatWrapper()
+    case 'mistral':
+      return new MistralChatWrapper()
+    case 'gemma':
+      return new GemmaChatWrapper()
+    case 'phi':
+      // node-llama-cpp has no Phi wrapper; this is the Phi-3 template
+      return new JinjaTemplateChatWrapper({ template: PHI_TEMPLATE, tokenizer: model?.tokenizer })
+    case 'jinja': {
+      const template = setting.jinja || ggufTemplate
+      if (!template) {
+        throw new Error('No Jinja template given and the model file has none')
+      }
+      return new JinjaTemplateChatWrapper({ template, tokenizer: model?.tokenizer })
+    }
+    default:
+      return resolveChatWrapper(model)
+  }
+}
+
+// Converts preview messages to node-llama-cpp chat history, ending with the empty reply the model completes
+export function toPreviewHistory(messages: PromptPreviewMessage[]): any[] {
+  const history: any[] = messages.map(message => {
+    if (message.role === 'system') return { type: 'system', text: message.content }
+    if (message.role === 'user') return { type: 'user', text: message.content }
+    return { type: 'model', response: [message.content] }
+  })
+  history.push({ type: 'model', response: [] })
+  return history
+}
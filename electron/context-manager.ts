@@ -0,0 +1,103 @@
+// How a conversation is shortened once it no longer fits in the context window
+export type ContextOverflowStrategy = 'sliding-window' | 'drop-oldest' | 'summarize'
+
+export interface ContextSettings {
+  strategy: ContextOverflowStrategy
+  windowTurns: number // turns kept by the sliding window
+  reserveTokens: number // room left for the reply when maxTokens isn't set
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  strategy: 'summarize',
+  windowTurns: 6,
+  reserveTokens: 512
+}
+
+export interface ContextUsage {
+  conversationId: string
+  usedTokens: number
+  contextSize: number
+  strategy: ContextOverflowStrategy
+  messageCount: number
+  summarized: boolean // earlier turns were folded into a summary
+  droppedTurns: number // turns removed from the model's view so far
+}
+
+// Chat templates add role markers around every message; this approximates them
+const MESSAGE_OVERHEAD_TOKENS = 8
+
+export function getItemText(item: any): string {
+  if (item.type === 'model') {
+    return (item.response || []).filter((part: any) => typeof part === 'string').join('')
+  }
+  return typeof item.text === 'string' ? item.text : JSON.stringify(item.text)
+}
+
+export function countHistoryTokens(history: any[], countTokens: (text: string) => number): number {
+  return history.reduce((sum, item) => sum + countTokens(getItemText(item)) + MESSAGE_OVERHEAD_TOKENS, 0)
+}
+
+export function countMessageTokens(text: string, countTokens: (text: string) => number): number {
+  return countTokens(text) + MESSAGE_OVERHEAD_TOKENS
+}
+
+// A turn is a user message plus the model responses that follow it
+function splitTurns(history: any[]): { system: any[]; turns: any[][] } {
+  const system = history[0]?.type === 'system' ? [history[0]] : []
+  const turns: any[][] = []
+  for (const item of history.slice(system.length)) {
+    if (item.type === 'user' || turns.length === 0) {
+      turns.push([item])
+    } else {
+      turns[turns.length - 1].push(item)
+    }
+  }
+  return { system, turns }
+}
+
+export interface TrimResult {
+  history: any[]
+  dropped: any[][] // removed turns, oldest first
+}
+
+// Removes the oldest turns until the history fits `budgetTokens`. The sliding window also caps
+// the number of turns, and summarizing drops down to half the budget so the summary isn't
+// regenerated on every message.
+export function trimHistory(
+  history: any[],
+  budgetTokens: number,
+  settings: ContextSettings,
+  countTokens: (text: string) => number
+): TrimResult {
+  const { system, turns } = splitTurns(history)
+  const dropped: any[][] = []
+
+  if (settings.strategy === 'sliding-window') {
+    while (turns.length > settings.windowTurns) {
+      dropped.push(turns.shift()!)
+    }
+  }
+
+  const count = () => countHistoryTokens([...system, ...turns.flat()], countTokens)
+  if (count() > budgetTokens) {
+    const target = settings.strategy === 'summarize' ? Math.floor(budgetTokens / 2) : budgetTokens
+    while (turns.length > 0 && count() > target) {
+      dropped.push(turns.shift()!)
+    }
+  }
+
+  return { history: [...system, ...turns.flat()], dropped }
+}
+
+// Plain transcript of dropped turns for the summarizer, newest lines kept if it must be cut
+export function formatTranscript(turns: any[][], maxTokens: number, countTokens: (text: string) => number): string {
+  const lines = turns.flat()
+    .filter(item => item.type !== 'system')
+    .map(item => `${item.type === 'user' ? 'User' : 'Assistant'}: ${getItemText(item)}`)
+  while (lines.length > 1 && countTokens(lines.join('\n')) > maxTokens) {
+    lines.shift()
+  }
+  const transcript = lines.join('\n')
+  // A single huge message is cut to roughly the token limit (about 3 characters per token)
+  return countTokens(transcript) > maxTokens ? transcript.slice(-maxTokens * 3) : transcript
+}
@@ -0,0 +1,243 @@
+import Database from 'better-sqlite3'
+import path from 'path'
+import { app } from 'electron'
+import { v4 as uuidv4 } from 'uuid'
+
+export interface Conversation {
+  id: string
+  title: string
+  systemPrompt?: string
+  agentId?: string
+  summary?: string // earlier turns folded in by the context manager
+  droppedTurns: number // turns the model no longer sees; the messages themselves are kept
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ConversationMessage {
+  id: string
+  conversationId: string
+  role: 'user' | 'assistant'
+  content: string
+  createdAt: string
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'new conversation'
+
+export class ConversationDatabaseService {
+  private db: Database.Database
+
+  constructor(dbPath?: string) {
+    const userDataPath = app.getPath('userData')
+    const defaultDbPath = path.join(userDataPath, 'conversations.db')
+    this.db = new Database(dbPath || defaultDbPath)
+    this.initDatabase()
+  }
+
+  private initDatabase() {
+    // Needed for ON DELETE CASCADE to remove a conversation's messages
+    this.db.pragma('foreign_keys = ON')
+
+    // Create conversations table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        system_prompt TEXT,
+        agent_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `)
+
+    // Create conversation_messages table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+      )
+    `)
+
+    // Context state added after the first release; older databases get the columns here
+    const columns = (this.db.prepare(`PRAGMA table_info(conversations)`).all() as any[]).map(column => column.name)
+    if (!columns.includes('summary')) {
+      this.db.exec(`ALTER TABLE conversations ADD COLUMN summary TEXT`)
+    }
+    if (!columns.includes('dropped_turns')) {
+      this.db.exec(`ALTER TABLE conversations ADD COLUMN dropped_turns INTEGER NOT NULL DEFAULT 0`)
+    }
+
+    // Create indexes
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations(updated_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation_id ON conversation_messages(conversation_id, created_at);
+    `)
+  }
+
+  // Create a new conversation
+  createConversation(options: { title?: string; systemPrompt?: string; agentId?: string } = {}): Conversation {
+    const now = new Date().toISOString()
+
+    const conversation: Conversation = {
+      id: uuidv4(),
+      title: options.title?.trim() || DEFAULT_CONVERSATION_TITLE,
+      systemPrompt: options.systemPrompt,
+      agentId: options.agentId,
+      droppedTurns: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO conversations (id, title, system_prompt, agent_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+
+    stmt.run(
+      conversation.id,
+      conversation.title,
+      conversation.systemPrompt ?? null,
+      conversation.agentId ?? null,
+      conversation.createdAt,
+      conversation.updatedAt
+    )
+
+    return conversation
+  }
+
+  // Get all conversations, most recently active first
+  getAllConversations(): Conversation[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM conversations ORDER BY updated_at DESC
+    `)
+
+    const rows = stmt.all() as any[]
+    return rows.map(row => this.rowToConversation(row))
+  }
+
+  // Find conversations whose title or messages contain the query
+  searchConversations(query: string): Conversation[] {
+    const trimmed = query.trim()
+    if (!trimmed) return this.getAllConversations()
+
+    const pattern = `%${trimmed.replace(/[\\%_]/g, match => `\\${match}`)}%`
+    const stmt = this.db.prepare(`
+      SELECT DISTINCT c.* FROM conversations c
+      LEFT JOIN conversation_messages m ON m.conversation_id = c.id
+      WHERE c.title LIKE ? ESCAPE '\\' OR m.content LIKE ? ESCAPE '\\'
+      ORDER BY c.updated_at DESC
+    `)
+
+    const rows = stmt.all(pattern, pattern) as any[]
+    return rows.map(row => this.rowToConversation(row))
+  }
+
+  // Get conversation by ID
+  getConversationById(id: string): Conversation | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM conversations WHERE id = ?
+    `)
+
+    const row = stmt.get(id) as any
+    return row ? this.rowToConversation(row) : null
+  }
+
+  renameConversation(id: string, title: string): Conversation | null {
+    const trimmed = title.trim()
+    if (!trimmed) {
+      throw new Error('Conversation title cannot be empty')
+    }
+
+    const stmt = this.db.prepare(`
+      UPDATE conversations SET title = ?, updated_at = ? WHERE id = ?
+    `)
+    const result = stmt.run(trimmed, new Date().toISOString(), id)
+    return result.changes > 0 ? this.getConversationById(id) : null
+  }
+
+  setSystemPrompt(id: string, systemPrompt: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE conversations SET system_prompt = ?, updated_at = ? WHERE id = ?
+    `)
+    stmt.run(systemPrompt, new Date().toISOString(), id)
+  }
+
+  // Keeps what the context manager summarized or dropped, so a rehydrated conversation
+  // shows the model the same history as before
+  setContextState(id: string, summary: string | undefined, droppedTurns: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE conversations SET summary = ?, dropped_turns = ? WHERE id = ?
+    `)
+    stmt.run(summary ?? null, droppedTurns, id)
+  }
+
+  // Delete conversation (messages are removed by the cascade)
+  deleteConversation(id: string): boolean {
+    const stmt = this.db.prepare(`DELETE FROM conversations WHERE id = ?`)
+    const result = stmt.run(id)
+    return result.changes > 0
+  }
+
+  // Append a message and bump the conversation to the top of the list
+  addMessage(conversationId: string, role: ConversationMessage['role'], content: string): ConversationMessage {
+    const message: ConversationMessage = {
+      id: uuidv4(),
+      conversationId,
+      role,
+      content,
+      createdAt: new Date().toISOString()
+    }
+
+    const insert = this.db.prepare(`
+      INSERT INTO conversation_messages (id, conversation_id, role, content, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+    const touch = this.db.prepare(`
+      UPDATE conversations SET updated_at = ? WHERE id = ?
+    `)
+
+    this.db.transaction(() => {
+      insert.run(message.id, message.conversationId, message.role, message.content, message.createdAt)
+      touch.run(message.createdAt, conversationId)
+    })()
+
+    return message
+  }
+
+  // Get messages for a conversation in chronological order
+  getMessages(conversationId: string): ConversationMessage[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM conversation_messages WHERE conversation_id = ? ORDER BY created_at ASC, rowid ASC
+    `)
+
+    const rows = stmt.all(conversationId) as any[]
+    return rows.map(row => ({
+      id: row.id,
+      conversationId: row.conversation_id,
+      role: row.role,
+      content: row.content,
+      createdAt: row.created_at
+    }))
+  }
+
+  private rowToConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      title: row.title,
+      systemPrompt: row.system_prompt ?? undefined,
+      agentId: row.agent_id ?? undefined,
+      summary: row.summary ?? undefined,
+      droppedTurns: row.dropped_turns ?? 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+
+  close() {
+    this.db.close()
+  }
+}
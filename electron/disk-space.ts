@@ -0,0 +1,23 @@
+import fs from 'fs'
+
+// Space kept free so the disk isn't filled to the last byte
+const FREE_SPACE_MARGIN_BYTES = 512 * 1024 * 1024
+
+export function getFreeSpace(dir: string): { freeBytes: number; totalBytes: number } {
+  fs.mkdirSync(dir, { recursive: true })
+  const stats = fs.statfsSync(dir)
+  return {
+    freeBytes: stats.bavail * stats.bsize,
+    totalBytes: stats.blocks * stats.bsize
+  }
+}
+
+// Throws when writing `bytesNeeded` into `dir` would leave less than the safety margin
+export function ensureFreeSpace(dir: string, bytesNeeded: number): void {
+  const { freeBytes } = getFreeSpace(dir)
+  if (bytesNeeded + FREE_SPACE_MARGIN_BYTES > freeBytes) {
+    const neededGB = (bytesNeeded / 1024 ** 3).toFixed(2)
+    const freeGB = (freeBytes / 1024 ** 3).toFixed(2)
+    throw new Error(`Not enough disk space: need ${neededGB}GB, only ${freeGB}GB free`)
+  }
+}
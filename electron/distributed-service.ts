@@ -1,10 +1,27 @@
-import { LLMService } from './llm-service.js'
+import { LLMService, type ChatOptions } from './llm-service.js'
 import { LocalAIManager } from './localai-manager.js'
+import { LLMConfigManager } from './llm-config.js'
 import { NativeP2PDiscovery } from './native-p2p.js'
+import { RequestRouter, DEFAULT_ROUTING_RULE, type RouteCandidate, type RouteDecision, type RouteKind, type RoutingRule } from './request-router.js'
+import { BackendError, CircuitBreakers, DEFAULT_FAILOVER_POLICY, type CircuitState, type FailoverPolicy } from './failover.js'
+import {
+  DistributedSettingsStore,
+  detectDeviceName,
+  detectDisplayName,
+  generateDeviceId,
+  getDefaultColor,
+  validateDistributedConfig,
+  validateUserProfile
+} from './distributed-settings.js'
 import os from 'os'
 
 export type InferenceMode = 'local' | 'distributed' | 'hybrid'
 
+// Port of the relay server peers send inference requests to
+export function getRelayPort(): number {
+  return Number(process.env.RELAY_PORT || 5123)
+}
+
 export interface PeerDevice {
   id: string
   name: string
@@ -14,10 +31,15 @@ export interface PeerDevice {
   specs: {
     cpu: string
     memory: number
+    vram?: number
     gpuLayers: number
   }
   lastSeen: Date
   contribution: number // % of model layers handled
+  relayPort?: number // peers without one can't take requests from the router
+  load?: { slots: number; running: number; queued: number } // from the last relay status check
+  model?: string // model the peer has loaded
+  pingMs?: number
 }
 
 export interface UserProfile {
@@ -35,6 +57,8 @@ export interface DistributedConfig {
   coordinatorAddress?: string
   userProfile: UserProfile
   enableP2P: boolean
+  routing: RoutingRule // how hybrid mode chooses between this device, LocalAI and peers
+  failover: FailoverPolicy
 }
 
 export interface ComputeMetrics {
@@ -47,34 +71,89 @@ export interface ComputeMetrics {
   layersHandled?: number[]
 }
 
+export interface RequestAttempt {
+  backend: string // 'local', 'localai' or the peer id
+  name: string
+  kind: RouteKind
+  ok: boolean
+  error?: string
+  durationMs: number
+}
+
+// How one chat request was served: every backend tried, in order, and the one that answered
+export interface RequestMetrics {
+  requestId: string
+  route: string // name of the backend that answered; empty if none did
+  attempts: RequestAttempt[]
+  failovers: number // times the request moved to a different backend
+  latency: number // ms, including retries and backoff
+  timestamp: Date
+}
+
+// The backend serving the latest request and why it was picked; follows the request when it fails over
+export interface RouteStatus {
+  id: string
+  kind: RouteKind
+  name: string
+  reasons: string[]
+  active: boolean // the request is still running
+  timestamp: Date
+}
+
+type RouteTarget = Pick<RouteCandidate, 'id' | 'kind' | 'name'>
+
+const LOCAL_ROUTE: RouteTarget = { id: 'local', kind: 'local', name: 'this device' }
+
 export class DistributedInferenceService {
   private llmService: LLMService
   private config: DistributedConfig
   private peers: Map<string, PeerDevice> = new Map()
   private localAIAvailable: boolean = false
   private heartbeatInterval?: NodeJS.Timeout
+  private peerStatusInterval?: NodeJS.Timeout
   private metricsHistory: ComputeMetrics[] = []
+  private requestHistory: RequestMetrics[] = []
   private maxMetricsHistory = 100
   private currentRequest?: {
     id: string
     startTime: Date
     peersInvolved: string[]
+    route?: string // backend currently being tried
   }
   private localAIManager: LocalAIManager
   private manuallyStopped: boolean = false
   private nativeP2P?: NativeP2PDiscovery
+  private activeRequests: Map<string, AbortController> = new Map()
+  private router = new RequestRouter()
+  private breakers: CircuitBreakers
+  private settings: DistributedSettingsStore
+  private inFlight: Map<string, number> = new Map() // route id -> requests this device has running there
+  private localAIModels: string[] = []
+  private localAIPingMs?: number
+  private lastRoute?: Omit<RouteStatus, 'active'> & { requestId?: string }
 
   constructor(llmService: LLMService) {
     this.llmService = llmService
-    
+    this.settings = new DistributedSettingsStore()
+
+    let { deviceId } = this.settings.get()
+    if (!deviceId) {
+      deviceId = generateDeviceId()
+      this.settings.update({ deviceId })
+    }
+
     // Default configuration - P2P enabled by default
     this.config = {
       mode: 'hybrid', // Use hybrid mode for automatic switching
       localAIEndpoint: 'http://localhost:8080',
       p2pPort: 9000,
-      userProfile: this.generateDefaultProfile(),
-      enableP2P: true // Always on
+      userProfile: this.generateDefaultProfile(deviceId),
+      enableP2P: true, // Always on
+      routing: DEFAULT_ROUTING_RULE,
+      failover: DEFAULT_FAILOVER_POLICY
     }
+    this.applyStoredSettings()
+    this.breakers = new CircuitBreakers(this.config.failover)
 
     // Initialize LocalAI manager
     this.localAIManager = new LocalAIManager({
@@ -83,15 +162,27 @@ export class DistributedInferenceService {
     })
   }
 
-  private generateDefaultProfile(): UserProfile {
-    const colors = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#06b6d4']
-    const hostname = os.hostname()
-    
+  private generateDefaultProfile(deviceId: string): UserProfile {
     return {
-      id: `device-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      displayName: hostname.split('.')[0] || 'Anonymous',
-      deviceName: 'Lenovo',
-      color: colors[Math.floor(Math.random() * colors.length)],
+      id: deviceId,
+      displayName: detectDisplayName(),
+      deviceName: detectDeviceName(),
+      color: getDefaultColor(deviceId)
+    }
+  }
+
+  // Layers the saved config and profile over the defaults; a hand-edited file with bad values is ignored
+  private applyStoredSettings(): void {
+    const stored = this.settings.get()
+    try {
+      this.config = { ...this.config, ...validateDistributedConfig(stored.config || {}, this.config) }
+    } catch (error) {
+      console.error('Ignoring invalid saved distributed config:', error instanceof Error ? error.message : error)
+    }
+    try {
+      this.config.userProfile = { ...this.config.userProfile, ...validateUserProfile(stored.userProfile || {}) }
+    } catch (error) {
+      console.error('Ignoring invalid saved user profile:', error instanceof Error ? error.message : error)
     }
   }
 
@@ -125,11 +216,15 @@ export class DistributedInferenceService {
       }
     }
 
+    // Re-initializing (e.g. after a config change) must not leave the previous timers and mDNS socket running
+    this.stopDiscovery()
+
     // Start peer discovery if P2P is enabled
     if (this.config.enableP2P) {
       // Always use native mDNS P2P discovery for device detection
       console.log('Starting native P2P discovery for device detection')
       this.startNativeP2PDiscovery()
+      this.startPeerStatusChecks()
       
       // Also start LocalAI P2P if available (for actual distributed inference)
       if (this.localAIAvailable) {
@@ -150,9 +245,15 @@ export class DistributedInferenceService {
 
   private async checkLocalAI(): Promise<boolean> {
     try {
+      const startTime = Date.now()
       const response = await fetch(`${this.config.localAIEndpoint}/v1/models`, {
         timeout: 2000
       } as any)
+      if (response.ok) {
+        this.localAIPingMs = Date.now() - startTime
+        const data = await response.json() as any
+        this.localAIModels = Array.isArray(data?.data) ? data.data.map((model: any) => model.id) : []
+      }
       return response.ok
     } catch (error) {
       console.log('LocalAI not available:', error instanceof Error ? error.message : 'Unknown error')
@@ -160,47 +261,367 @@ export class DistributedInferenceService {
     }
   }
 
-  async chat(message: string): Promise<string> {
-    const mode = this.getOptimalMode()
-    
-    console.log(`Using inference mode: ${mode}`)
+  async chat(message: string, options: ChatOptions = {}): Promise<string> {
+    if (this.config.mode === 'local') {
+      console.log('Using inference mode: local')
+      this.lastRoute = { ...LOCAL_ROUTE, reasons: ['local mode'], timestamp: new Date(), requestId: options.requestId }
+      return this.localChat(message, options)
+    }
 
-    switch (mode) {
-      case 'local':
-        return this.localChat(message)
-      
-      case 'distributed':
-        return this.distributedChat(message)
-      
-      case 'hybrid':
-        // Use distributed if available and model is large, otherwise local
-        if (this.localAIAvailable && this.peers.size > 0) {
-          return this.distributedChat(message)
+    const decision = this.routeRequest()
+    if (this.config.mode === 'distributed' && decision.candidate.kind === 'local') {
+      throw new Error('No LocalAI server or peer is available. Please start LocalAI or connect a peer.')
+    }
+    const { id, kind, name } = decision.candidate
+
+    // One controller for the whole request, so cancel() also stops pending retries and failovers
+    const requestId = options.requestId || `req-${Date.now()}`
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort()
+    if (options.signal?.aborted) {
+      controller.abort()
+    } else {
+      options.signal?.addEventListener('abort', forwardAbort, { once: true })
+    }
+    this.activeRequests.set(requestId, controller)
+    const requestOptions: ChatOptions = { ...options, requestId, signal: controller.signal }
+    this.lastRoute = { id, kind, name, reasons: decision.reasons, timestamp: new Date(), requestId }
+
+    const startTime = Date.now()
+    const metrics: RequestMetrics = { requestId, route: '', attempts: [], failovers: 0, latency: 0, timestamp: new Date() }
+    this.currentRequest = { id: requestId, startTime: new Date(), peersInvolved: [] }
+    const { retries, backoffMs } = this.config.failover
+
+    try {
+      for (const target of this.getFailoverOrder(decision)) {
+        if (target.kind === 'local') {
+          return await this.runOnBackend(target, message, requestOptions, metrics)
         }
-        return this.localChat(message)
-      
-      default:
-        return this.localChat(message)
+        for (let attempt = 0; attempt <= retries; attempt++) {
+          if (attempt > 0) {
+            await this.sleep(backoffMs * 2 ** (attempt - 1), controller.signal)
+          }
+          if (controller.signal.aborted) {
+            return ''
+          }
+          // Skips backends whose circuit is open, and lets one trial request through a half-open one
+          if (!this.breakers.allowRequest(target.id)) break
+          try {
+            const response = await this.runOnBackend(target, message, requestOptions, metrics)
+            // A cancelled attempt returns whatever arrived so far, which says nothing about the backend
+            if (controller.signal.aborted) {
+              this.breakers.releaseProbe(target.id)
+            } else {
+              this.breakers.recordSuccess(target.id)
+            }
+            return response
+          } catch (error) {
+            if (!(error instanceof BackendError) || controller.signal.aborted) {
+              this.breakers.releaseProbe(target.id)
+              throw error
+            }
+            this.breakers.recordFailure(target.id)
+            if (error.partial) {
+              // The user has already seen the partial reply; have the local model finish it rather than restart
+              if (this.config.mode !== 'hybrid') {
+                throw new Error(`${target.name} failed partway through the reply: ${error.message}`)
+              }
+              console.log(`[Failover] ${target.name} failed after ${error.partial.length} characters, continuing locally`)
+              return await this.runOnBackend(LOCAL_ROUTE, message, { ...requestOptions, responsePrefix: error.partial }, metrics)
+            }
+            console.log(`[Failover] ${target.name} attempt ${attempt + 1} failed: ${error.message}`)
+          }
+        }
+      }
+      // Only reached in distributed mode; in hybrid mode this device answers or throws
+      const failures = metrics.attempts.map(attempt => `${attempt.name}: ${attempt.error}`)
+      throw new Error(`All backends failed${failures.length > 0 ? ` (${failures.join('; ')})` : ''}`)
+    } finally {
+      metrics.latency = Date.now() - startTime
+      this.requestHistory.push(metrics)
+      if (this.requestHistory.length > this.maxMetricsHistory) {
+        this.requestHistory = this.requestHistory.slice(-this.maxMetricsHistory)
+      }
+      console.log(`[Failover] Request ${requestId} answered by ${metrics.route || 'nobody'} after ${metrics.attempts.length} attempt(s), ${metrics.failovers} failover(s)`)
+      if (this.currentRequest?.id === requestId) {
+        this.currentRequest = undefined
+      }
+      options.signal?.removeEventListener('abort', forwardAbort)
+      this.activeRequests.delete(requestId)
     }
   }
 
-  private async localChat(message: string): Promise<string> {
-    return this.llmService.chat(message)
+  // Remote backends ranked above this device, best first. Hybrid mode ends with this device as the
+  // last resort; distributed mode never runs anything here.
+  private getFailoverOrder(decision: RouteDecision): RouteTarget[] {
+    const localIndex = decision.ranked.findIndex(candidate => candidate.kind === 'local')
+    const remote = decision.ranked
+      .slice(0, localIndex === -1 ? undefined : localIndex)
+      .slice(0, this.config.failover.maxBackends)
+    return this.config.mode === 'hybrid' ? [...remote, LOCAL_ROUTE] : remote
   }
 
-  private async distributedChat(message: string): Promise<string> {
+  // One attempt on one backend, recorded in the request's metrics and the router's speed estimate
+  private async runOnBackend(target: RouteTarget, message: string, options: ChatOptions, metrics: RequestMetrics): Promise<string> {
+    const previous = metrics.attempts[metrics.attempts.length - 1]
+    if (previous && previous.backend !== target.id) {
+      metrics.failovers++
+      if (this.lastRoute?.requestId === options.requestId) {
+        this.lastRoute = { ...target, reasons: [`${previous.name} failed: ${previous.error}`], timestamp: new Date(), requestId: options.requestId }
+      }
+    }
+    if (this.currentRequest && this.currentRequest.id === options.requestId) {
+      this.currentRequest.route = target.name
+      this.currentRequest.peersInvolved = target.kind === 'peer' ? [target.id] : target.kind === 'localai' ? Array.from(this.peers.keys()) : []
+    }
+
+    // Time to first token and chunk count feed the router's speed estimate for this backend
+    const startTime = Date.now()
+    let firstTokenMs: number | undefined
+    let chunks = 0
+    const attemptOptions: ChatOptions = {
+      ...options,
+      onToken: (token) => {
+        if (firstTokenMs === undefined) firstTokenMs = Date.now() - startTime
+        chunks++
+        options.onToken?.(token)
+      }
+    }
+
+    this.inFlight.set(target.id, (this.inFlight.get(target.id) || 0) + 1)
+    try {
+      let response: string
+      if (target.kind === 'localai') {
+        response = await this.distributedChat(message, attemptOptions)
+      } else if (target.kind === 'peer') {
+        const peer = this.peers.get(target.id)
+        if (!peer) {
+          throw new BackendError(`Peer ${target.name} is gone`)
+        }
+        response = await this.peerChat(peer, message, attemptOptions)
+      } else {
+        response = await this.localChat(message, attemptOptions)
+      }
+
+      metrics.attempts.push({ backend: target.id, name: target.name, kind: target.kind, ok: true, durationMs: Date.now() - startTime })
+      metrics.route = target.name
+      if (!options.signal?.aborted) {
+        this.router.recordResult(target.id, {
+          firstTokenMs,
+          // Speed is measured after the first chunk; a reply that arrived in one piece says nothing about it
+          tokens: chunks > 1 ? chunks - 1 : undefined,
+          durationMs: Date.now() - startTime - (firstTokenMs || 0)
+        })
+      }
+      return response
+    } catch (error) {
+      metrics.attempts.push({
+        backend: target.id,
+        name: target.name,
+        kind: target.kind,
+        ok: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime
+      })
+      throw error
+    } finally {
+      this.inFlight.set(target.id, (this.inFlight.get(target.id) || 1) - 1)
+    }
+  }
+
+  // Resolves after `ms`, or straight away once the request is cancelled
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer)
+        signal.removeEventListener('abort', done)
+        resolve()
+      }
+      const timer = setTimeout(done, ms)
+      signal.addEventListener('abort', done, { once: true })
+    })
+  }
+
+  // Picks the backend for one request and logs why
+  private routeRequest(): RouteDecision {
+    const model = this.llmService.getLoadedModelFile() || undefined
+    const decision = this.router.route(this.getRouteCandidates(model), this.config.routing, model)
+
+    const others = decision.considered
+      .filter(entry => entry.id !== decision.candidate.id)
+      .map(entry => entry.score !== undefined ? `${entry.name} ${entry.score.toFixed(0)}` : `${entry.name} (${entry.reasons[0]})`)
+    console.log(
+      `[Router] ${this.config.routing}: ${decision.candidate.name} (score ${decision.score.toFixed(0)}) - ${decision.reasons.join(', ') || 'no data'}` +
+      (others.length > 0 ? `; others: ${others.join(', ')}` : '')
+    )
+    return decision
+  }
+
+  private getRouteCandidates(localModel?: string): RouteCandidate[] {
+    const localSpecs = this.nativeP2P?.getSystemSpecs()
+    const schedulerStats = this.llmService.getSchedulerInfo().stats
+    const candidates: RouteCandidate[] = [
+      {
+        id: 'local',
+        kind: 'local',
+        name: 'this device',
+        available: this.config.mode !== 'distributed',
+        unavailableReason: 'distributed mode sends work to the network',
+        specs: { memory: localSpecs?.memory ?? Math.round(os.totalmem() / 1024 ** 3), vram: localSpecs?.vram ?? 0 },
+        load: { slots: schedulerStats.slots, running: schedulerStats.running, queued: schedulerStats.queued },
+        models: localModel ? [localModel] : []
+      },
+      {
+        id: 'localai',
+        kind: 'localai',
+        name: 'LocalAI',
+        available: this.localAIAvailable,
+        unavailableReason: 'LocalAI is not running',
+        load: { slots: 1, running: this.inFlight.get('localai') || 0, queued: 0 },
+        models: this.localAIModels,
+        pingMs: this.localAIPingMs
+      }
+    ]
+
+    for (const peer of this.peers.values()) {
+      candidates.push({
+        id: peer.id,
+        kind: 'peer',
+        name: peer.name,
+        available: !!peer.relayPort && peer.status !== 'disconnected' && !!peer.load,
+        unavailableReason: !peer.relayPort ? 'no relay port advertised' : 'relay not reachable',
+        specs: { memory: peer.specs?.memory || 0, vram: peer.specs?.vram || 0 },
+        load: peer.load,
+        models: peer.model ? [peer.model] : [],
+        pingMs: peer.pingMs
+      })
+    }
+
+    // Backends with an open circuit stay out of routing until their cooldown ends
+    for (const candidate of candidates) {
+      if (candidate.available && this.breakers.isOpen(candidate.id)) {
+        candidate.available = false
+        const retryIn = this.breakers.getRetryIn(candidate.id)
+        candidate.unavailableReason = retryIn > 0
+          ? `circuit open after repeated failures, retry in ${retryIn}s`
+          : 'circuit half-open, trial request running'
+      }
+    }
+    return candidates
+  }
+
+  // Stops a request wherever it is running: the LocalAI fetch or the local model
+  cancel(requestId: string): boolean {
+    const controller = this.activeRequests.get(requestId)
+    if (controller) {
+      console.log(`[Distributed] Cancelling request ${requestId}`)
+      controller.abort()
+    }
+    const cancelledLocally = this.llmService.cancel(requestId)
+    return !!controller || cancelledLocally
+  }
+
+  private async localChat(message: string, options: ChatOptions = {}): Promise<string> {
+    return this.llmService.chat(message, options)
+  }
+
+  // Runs the request on a peer's relay server. The relay answers in one piece, so onToken gets
+  // the whole reply at once.
+  private async peerChat(peer: PeerDevice, message: string, options: ChatOptions = {}): Promise<string> {
+    // Own controller so the timeout fails this attempt without cancelling the request
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort()
+    if (options.signal?.aborted) {
+      controller.abort()
+    } else {
+      options.signal?.addEventListener('abort', forwardAbort, { once: true })
+    }
+    const timeoutMs = this.config.failover.timeoutMs.peer
+    let timedOut = false
+    const timeout = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+
+    try {
+      console.log(`[Distributed] Sending request ${options.requestId} to peer ${peer.name}`)
+      const response = await fetch(`http://${peer.address}:${peer.relayPort}/api/relay/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+        body: JSON.stringify({
+          message,
+          // Scoped to this device so two devices' conversations with one peer don't mix
+          conversationId: `${this.config.userProfile.id}:${options.conversationId || 'default'}`,
+          // The peer answers from this device's view of the conversation, so the context survives
+          // turns served by different backends
+          messages: this.llmService.getConversationMessages(options.conversationId),
+          generation: options.generation
+        })
+      })
+      const data = await response.json() as any
+      if (!response.ok || !data.success) {
+        throw new Error(`Peer ${peer.name} failed: ${data.error || response.statusText}`)
+      }
+
+      const content: string = data.response
+      options.onToken?.(content)
+      this.llmService.recordRemoteExchange(options.conversationId, message, content)
+      return content
+    } catch (error) {
+      if (controller.signal.aborted && !timedOut) {
+        console.log(`[Distributed] Request ${options.requestId} to ${peer.name} cancelled`)
+        return ''
+      }
+      throw new BackendError(
+        timedOut ? `Peer ${peer.name} did not answer within ${timeoutMs / 1000}s` : error instanceof Error ? error.message : 'Unknown error',
+        '',
+        timedOut
+      )
+    } finally {
+      clearTimeout(timeout)
+      options.signal?.removeEventListener('abort', forwardAbort)
+    }
+  }
+
+  private async distributedChat(message: string, options: ChatOptions = {}): Promise<string> {
     if (!this.localAIAvailable) {
-      throw new Error('LocalAI not available. Please start LocalAI server.')
+      throw new BackendError('LocalAI not available. Please start LocalAI server.')
     }
 
-    const requestId = `req-${Date.now()}`
+    const requestId = options.requestId || `req-${Date.now()}`
     const startTime = Date.now()
+    const generation = LLMConfigManager.normalizeGenerationOptions(options.generation)
 
-    this.currentRequest = {
-      id: requestId,
-      startTime: new Date(),
-      peersInvolved: Array.from(this.peers.keys())
+    // Own controller so the timeout fails this attempt without cancelling the request
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort()
+    if (options.signal?.aborted) {
+      controller.abort()
+    } else {
+      options.signal?.addEventListener('abort', forwardAbort, { once: true })
     }
+    // Restarted on every chunk, so it catches a stream that stalls as well as one that never starts
+    const timeoutMs = this.config.failover.timeoutMs.localai
+    let timedOut = false
+    let timeout: NodeJS.Timeout | undefined
+    const armTimeout = () => {
+      clearTimeout(timeout)
+      timeout = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeoutMs)
+    }
+    armTimeout()
+
+    // Same system prompt and history the local session would use, so either backend gives the same answer
+    const messages = [
+      ...this.llmService.getConversationMessages(options.conversationId),
+      { role: 'user', content: message.trim() }
+    ]
+
+    // Text already forwarded to onToken; a local fallback continues from it
+    let partial = ''
 
     try {
       console.log(`[Distributed] Starting request ${requestId} with ${this.peers.size} peers`)
@@ -213,14 +634,18 @@ export class DistributedInferenceService {
           'X-Device-Name': this.config.userProfile.deviceName,
           'X-Request-ID': requestId
         },
+        signal: controller.signal,
         body: JSON.stringify({
           model: 'default', // LocalAI will use the loaded model
-          messages: [
-            { role: 'user', content: message }
-          ],
-          temperature: 0.7,
-          max_tokens: 2048,
-          stream: false
+          messages,
+          temperature: generation.temperature ?? 0.7,
+          max_tokens: generation.maxTokens ?? 2048,
+          top_p: generation.topP,
+          top_k: generation.topK,
+          repeat_penalty: generation.repeatPenalty,
+          seed: generation.seed,
+          stream: true,
+          stream_options: { include_usage: true }
         })
       })
 
@@ -228,22 +653,99 @@ export class DistributedInferenceService {
         throw new Error(`LocalAI request failed: ${response.statusText}`)
       }
 
-      const data = await response.json() as any
+      const { usage } = await this.readCompletionStream(response, (chunk) => {
+        armTimeout()
+        partial += chunk
+        options.onToken?.(chunk)
+      })
+      clearTimeout(timeout)
       const latency = Date.now() - startTime
       
       console.log(`[Distributed] Request ${requestId} completed in ${latency}ms`)
       
       // Collect metrics after request
-      await this.collectMetrics(requestId, latency, data.usage)
-      
-      this.currentRequest = undefined
-      
-      return data.choices[0].message.content
+      await this.collectMetrics(requestId, latency, usage)
+
+      const content = partial.trim()
+      if (!content) {
+        throw new Error('LocalAI returned an empty response')
+      }
+      this.llmService.recordRemoteExchange(options.conversationId, message, content)
+      return content
     } catch (error) {
-      console.error('Distributed chat failed, falling back to local:', error)
-      this.currentRequest = undefined
-      return this.localChat(message)
+      if (controller.signal.aborted && !timedOut) {
+        // Cancelled by the user - keep what was streamed, like a cancelled local generation
+        console.log(`[Distributed] Request ${requestId} cancelled after ${partial.length} characters`)
+        if (partial.trim()) {
+          this.llmService.recordRemoteExchange(options.conversationId, message, partial.trim())
+        }
+        return partial.trim()
+      }
+      throw new BackendError(
+        timedOut ? `LocalAI sent nothing for ${timeoutMs / 1000}s` : error instanceof Error ? error.message : 'Unknown error',
+        partial,
+        timedOut
+      )
+    } finally {
+      clearTimeout(timeout)
+      options.signal?.removeEventListener('abort', forwardAbort)
+    }
+  }
+
+  // Reads an OpenAI-style SSE completion stream, passing each content delta to onText.
+  // Throws if the stream ends before the server says it is finished.
+  private async readCompletionStream(response: Response, onText: (text: string) => void): Promise<{ usage?: any }> {
+    if (!response.body) {
+      throw new Error('LocalAI returned no response body')
+    }
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let usage: any
+    let finished = false
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        // Events are separated by blank lines; keep an incomplete trailing line for the next read
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+        for (const line of lines) {
+          const trimmed = line.trim()
+          if (!trimmed.startsWith('data:')) continue
+          const data = trimmed.slice(5).trim()
+          if (data === '[DONE]') {
+            return { usage }
+          }
+
+          const event = JSON.parse(data)
+          if (event.error) {
+            throw new Error(`LocalAI stream error: ${event.error.message || JSON.stringify(event.error)}`)
+          }
+          if (event.usage) {
+            usage = event.usage
+          }
+          const choice = event.choices?.[0]
+          if (choice?.delta?.content) {
+            onText(choice.delta.content)
+          }
+          if (choice?.finish_reason) {
+            finished = true
+          }
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {})
+    }
+
+    // Some servers close the stream after the finish reason without sending [DONE]
+    if (!finished) {
+      throw new Error('LocalAI stream ended unexpectedly')
     }
+    return { usage }
   }
 
   private async collectMetrics(requestId: string, latency: number, usage?: any): Promise<void> {
@@ -282,18 +784,6 @@ export class DistributedInferenceService {
     }
   }
 
-  private getOptimalMode(): InferenceMode {
-    if (this.config.mode === 'local') return 'local'
-    if (this.config.mode === 'distributed') return 'distributed'
-    
-    // Hybrid logic: use distributed if peers are available
-    if (this.localAIAvailable && this.peers.size > 0) {
-      return 'distributed'
-    }
-    
-    return 'local'
-  }
-
   private startPeerDiscovery(): void {
     // Simple heartbeat to discover and maintain peer connections
     this.heartbeatInterval = setInterval(async () => {
@@ -301,6 +791,38 @@ export class DistributedInferenceService {
     }, 5000)
   }
 
+  // Polls each peer's relay for its load and loaded model so the router has fresh numbers
+  private startPeerStatusChecks(): void {
+    if (this.peerStatusInterval) return
+    this.peerStatusInterval = setInterval(() => {
+      this.refreshPeerStatus().catch(error => {
+        console.log('Peer status check failed:', error instanceof Error ? error.message : 'Unknown error')
+      })
+    }, 5000)
+  }
+
+  private async refreshPeerStatus(): Promise<void> {
+    await Promise.all(Array.from(this.peers.values()).filter(peer => peer.relayPort).map(async peer => {
+      try {
+        const startTime = Date.now()
+        const response = await fetch(`http://${peer.address}:${peer.relayPort}/api/relay/queue`, {
+          signal: AbortSignal.timeout(1500)
+        })
+        const data = await response.json() as any
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || response.statusText)
+        }
+        peer.pingMs = Date.now() - startTime
+        peer.load = { slots: data.stats.slots, running: data.stats.running, queued: data.stats.queued }
+        peer.model = data.model
+        peer.status = data.stats.running >= data.stats.slots ? 'busy' : 'connected'
+      } catch {
+        peer.status = 'disconnected'
+        peer.load = undefined
+      }
+    }))
+  }
+
   private async discoverPeers(): Promise<void> {
     // In a real implementation, this would use mDNS or a discovery service
     // For now, we'll check if LocalAI P2P mode is reporting peers
@@ -315,17 +837,19 @@ export class DistributedInferenceService {
       if (response.ok) {
         const peers = await response.json() as any[]
         
-        // Update peer list
+        // Update peer list; mDNS may already know a peer, with its relay port and load
         peers.forEach((peer: any) => {
+          const known = this.peers.get(peer.id)
           this.peers.set(peer.id, {
+            ...known,
             id: peer.id,
-            name: peer.name || 'Unknown',
-            address: peer.address,
-            port: peer.port || 9000,
-            status: 'connected',
-            specs: peer.specs || {},
+            name: peer.name || known?.name || 'Unknown',
+            address: peer.address || known?.address,
+            port: peer.port || known?.port || 9000,
+            status: known?.status || 'connected',
+            specs: peer.specs || known?.specs || {},
             lastSeen: new Date(),
-            contribution: peer.contribution || 0
+            contribution: peer.contribution ?? known?.contribution ?? 0
           })
         })
 
@@ -345,10 +869,12 @@ export class DistributedInferenceService {
   private startNativeP2PDiscovery(): void {
     console.log('Starting native mDNS P2P discovery...')
     
+    // Peers see the device name, which stays the same whoever is signed in
     this.nativeP2P = new NativeP2PDiscovery(
       this.config.userProfile.id,
-      this.config.userProfile.displayName,
-      8080 // API port
+      this.config.userProfile.deviceName,
+      8080, // API port
+      getRelayPort()
     )
 
     // Listen for peer events
@@ -367,7 +893,8 @@ export class DistributedInferenceService {
           gpuLayers: 0
         },
         lastSeen: new Date(),
-        contribution: 0
+        contribution: 0,
+        relayPort: peer.relayPort
       })
     })
 
@@ -379,14 +906,35 @@ export class DistributedInferenceService {
     this.nativeP2P.start()
   }
 
+  private stopDiscovery(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval)
+      this.heartbeatInterval = undefined
+    }
+    if (this.peerStatusInterval) {
+      clearInterval(this.peerStatusInterval)
+      this.peerStatusInterval = undefined
+    }
+    if (this.nativeP2P) {
+      this.nativeP2P.stop()
+      this.nativeP2P = undefined
+    }
+    this.peers.clear()
+  }
+
   // Public API for UI
   
   getConfig(): DistributedConfig {
     return { ...this.config }
   }
 
-  async updateConfig(config: Partial<DistributedConfig>): Promise<void> {
+  async updateConfig(changes: Partial<DistributedConfig>): Promise<void> {
+    const config = validateDistributedConfig(changes, this.config)
+    if (config.failover) {
+      this.breakers.configure(config.failover)
+    }
     this.config = { ...this.config, ...config }
+    this.settings.update({ config: { ...this.settings.get().config, ...config } })
     
     // Reinitialize if necessary
     if (config.localAIEndpoint || config.enableP2P !== undefined) {
@@ -394,9 +942,13 @@ export class DistributedInferenceService {
     }
   }
 
-  async updateUserProfile(profile: Partial<UserProfile>): Promise<void> {
+  async updateUserProfile(changes: Partial<UserProfile>): Promise<UserProfile> {
+    const profile = validateUserProfile(changes)
     this.config.userProfile = { ...this.config.userProfile, ...profile }
+    this.settings.update({ userProfile: { ...this.settings.get().userProfile, ...profile } })
+    this.nativeP2P?.setDeviceName(this.config.userProfile.deviceName)
     console.log('User profile updated:', this.config.userProfile)
+    return { ...this.config.userProfile }
   }
 
   getPeers(): PeerDevice[] {
@@ -405,12 +957,19 @@ export class DistributedInferenceService {
 
   getStatus(): {
     mode: InferenceMode
+    route?: RouteStatus
     localAIAvailable: boolean
     peersConnected: number
     userProfile: UserProfile
   } {
+    let route: RouteStatus | undefined
+    if (this.lastRoute) {
+      const { requestId, ...rest } = this.lastRoute
+      route = { ...rest, active: !!requestId && this.activeRequests.has(requestId) }
+    }
     return {
-      mode: this.getOptimalMode(),
+      mode: this.config.mode,
+      route,
       localAIAvailable: this.localAIAvailable,
       peersConnected: this.peers.size,
       userProfile: this.config.userProfile
@@ -448,6 +1007,10 @@ export class DistributedInferenceService {
     return [...this.metricsHistory]
   }
 
+  getRequestMetrics(): { requests: RequestMetrics[]; circuits: CircuitState[] } {
+    return { requests: [...this.requestHistory], circuits: this.breakers.getStates() }
+  }
+
   getCurrentRequest(): typeof this.currentRequest {
     return this.currentRequest
   }
@@ -531,18 +1094,9 @@ export class DistributedInferenceService {
   }
 
   dispose(): void {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval)
-    }
-    
-    // Stop native P2P if running
-    if (this.nativeP2P) {
-      this.nativeP2P.stop()
-      this.nativeP2P = undefined
-    }
-    
-    this.peers.clear()
+    this.stopDiscovery()
     this.metricsHistory = []
+    this.requestHistory = []
     this.currentRequest = undefined
     
     // Stop LocalAI if we started it
@@ -0,0 +1,156 @@
+import os from 'os'
+import { execFileSync } from 'child_process'
+import { JsonSettingsStore, requireSettingsObject } from './settings-store.js'
+import type { DistributedConfig, InferenceMode, UserProfile } from './distributed-service.js'
+import { ROUTING_RULES } from './request-router.js'
+import { normalizeFailoverPolicy, type FailoverPolicy } from './failover.js'
+
+// Distributed choices that should survive an app restart. The device ID is created on first
+// launch and never changes, so peers keep recognising this device.
+export interface DistributedSettings {
+  deviceId?: string
+  config?: Partial<Omit<DistributedConfig, 'userProfile'>>
+  userProfile?: Partial<Omit<UserProfile, 'id'>> // only what the user changed; the rest is detected
+}
+
+export const PROFILE_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#06b6d4']
+
+const INFERENCE_MODES: InferenceMode[] = ['local', 'distributed', 'hybrid']
+
+export class DistributedSettingsStore extends JsonSettingsStore<DistributedSettings> {
+  constructor(filePath?: string) {
+    super('distributed-settings.json', validateDistributedSettings, filePath)
+  }
+}
+
+// Checks the file's shape; the values in config and userProfile are checked against the
+// defaults when they are applied
+function validateDistributedSettings(value: unknown): DistributedSettings {
+  const { deviceId, config, userProfile } = requireSettingsObject(value)
+  const isObject = (part: unknown) => !!part && typeof part === 'object' && !Array.isArray(part)
+  return {
+    deviceId: typeof deviceId === 'string' && deviceId ? deviceId : undefined,
+    config: isObject(config) ? config : undefined,
+    userProfile: isObject(userProfile) ? userProfile : undefined
+  }
+}
+
+export function generateDeviceId(): string {
+  return `device-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Same color for a device on every launch without storing it
+export function getDefaultColor(deviceId: string): string {
+  let hash = 0
+  for (const char of deviceId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  }
+  return PROFILE_COLORS[hash % PROFILE_COLORS.length]
+}
+
+// The name the OS shows for this computer, e.g. "Studio MacBook Pro" rather than a hostname
+export function detectDeviceName(): string {
+  if (process.platform === 'darwin') {
+    try {
+      const name = execFileSync('scutil', ['--get', 'ComputerName'], { encoding: 'utf-8', timeout: 2000 }).trim()
+      if (name) return name
+    } catch (error) {
+      console.log('Could not read the computer name:', error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+  if (process.platform === 'win32' && process.env.COMPUTERNAME) {
+    return process.env.COMPUTERNAME
+  }
+  return os.hostname().replace(/\.local$/, '') || 'my device'
+}
+
+export function detectDisplayName(): string {
+  try {
+    return os.userInfo().username || 'Anonymous'
+  } catch {
+    return 'Anonymous'
+  }
+}
+
+function requireText(name: string, value: unknown, maxLength: number): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${name} must not be empty`)
+  }
+  if (value.trim().length > maxLength) {
+    throw new Error(`${name} must be at most ${maxLength} characters`)
+  }
+  return value.trim()
+}
+
+// Checks config changes; the profile has its own update path
+export function validateDistributedConfig(
+  changes: Partial<DistributedConfig>,
+  current: { failover: FailoverPolicy }
+): Partial<Omit<DistributedConfig, 'userProfile'>> {
+  const validated: Partial<Omit<DistributedConfig, 'userProfile'>> = {}
+
+  if (changes.mode !== undefined) {
+    if (!INFERENCE_MODES.includes(changes.mode)) {
+      throw new Error(`Unknown inference mode: ${changes.mode}`)
+    }
+    validated.mode = changes.mode
+  }
+  if (changes.localAIEndpoint !== undefined) {
+    let url: URL
+    try {
+      url = new URL(changes.localAIEndpoint)
+    } catch {
+      throw new Error(`Invalid LocalAI endpoint: ${changes.localAIEndpoint}`)
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('LocalAI endpoint must be an http or https URL')
+    }
+    validated.localAIEndpoint = changes.localAIEndpoint.replace(/\/+$/, '')
+  }
+  if (changes.p2pPort !== undefined) {
+    if (!Number.isInteger(changes.p2pPort) || changes.p2pPort < 1 || changes.p2pPort > 65535) {
+      throw new Error('P2P port must be between 1 and 65535')
+    }
+    validated.p2pPort = changes.p2pPort
+  }
+  if (changes.coordinatorAddress !== undefined) {
+    validated.coordinatorAddress = changes.coordinatorAddress ? requireText('Coordinator address', changes.coordinatorAddress, 255) : undefined
+  }
+  if (changes.enableP2P !== undefined) {
+    if (typeof changes.enableP2P !== 'boolean') {
+      throw new Error('enableP2P must be true or false')
+    }
+    validated.enableP2P = changes.enableP2P
+  }
+  if (changes.routing !== undefined) {
+    if (!ROUTING_RULES.includes(changes.routing)) {
+      throw new Error(`Unknown routing rule: ${changes.routing}`)
+    }
+    validated.routing = changes.routing
+  }
+  if (changes.failover !== undefined) {
+    validated.failover = normalizeFailoverPolicy(changes.failover, current.failover)
+  }
+  return validated
+}
+
+// Checks profile changes; the ID is left out because it identifies the device, not the user
+export function validateUserProfile(changes: Partial<UserProfile>): Partial<Omit<UserProfile, 'id'>> {
+  const validated: Partial<Omit<UserProfile, 'id'>> = {}
+  if (changes.displayName !== undefined) {
+    validated.displayName = requireText('Display name', changes.displayName, 40)
+  }
+  if (changes.deviceName !== undefined) {
+    validated.deviceName = requireText('Device name', changes.deviceName, 64)
+  }
+  if (changes.color !== undefined) {
+    if (typeof changes.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(changes.color)) {
+      throw new Error('Color must be a hex color like #3b82f6')
+    }
+    validated.color = changes.color
+  }
+  if (changes.avatar !== undefined) {
+    validated.avatar = changes.avatar || undefined
+  }
+  return validated
+}
@@ -0,0 +1,503 @@
+import fs from 'fs'
+import path from 'path'
+import http from 'http'
+import https from 'https'
+import { createHash } from 'crypto'
+import { EventEmitter } from 'events'
+import { pipeline } from 'stream/promises'
+import { v4 as uuidv4 } from 'uuid'
+import { ensureFreeSpace } from './disk-space.js'
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'cancelled'
+
+export interface DownloadJob {
+  id: string
+  url: string
+  filename: string
+  sha256?: string // expected hex digest; verification is skipped when unknown
+  status: DownloadStatus
+  downloadedBytes: number
+  totalBytes?: number
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Emitted as 'progress' on every byte-count tick and every status change
+export interface DownloadProgress {
+  id: string
+  filename: string
+  status: DownloadStatus
+  progress: number // 0-100
+  downloadedSize: number
+  totalSize?: number
+  speed: number // bytes per second
+  eta?: number // seconds remaining
+  error?: string
+}
+
+export interface DownloadManagerOptions {
+  modelsDir: string
+  queueFile: string // where unfinished jobs are persisted between runs
+  maxConcurrent?: number
+  stallTimeoutMs?: number
+  progressIntervalMs?: number
+}
+
+interface ActiveTransfer {
+  request?: http.ClientRequest
+  // Why the transfer was interrupted, if it was interrupted on purpose
+  stopReason?: 'pause' | 'cancel' | 'shutdown'
+  speed: number
+  lastSampleTime: number
+  lastSampleBytes: number
+  lastEmitTime: number
+}
+
+const TERMINAL_STATUSES: DownloadStatus[] = ['completed', 'failed', 'cancelled']
+
+export class DownloadManager extends EventEmitter {
+  private jobs: Map<string, DownloadJob> = new Map()
+  private active: Map<string, ActiveTransfer> = new Map()
+  private modelsDir: string
+  private queueFile: string
+  private maxConcurrent: number
+  private stallTimeoutMs: number
+  private progressIntervalMs: number
+
+  constructor(options: DownloadManagerOptions) {
+    super()
+    this.modelsDir = options.modelsDir
+    this.queueFile = options.queueFile
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 2)
+    this.stallTimeoutMs = options.stallTimeoutMs ?? 30000
+    this.progressIntervalMs = options.progressIntervalMs ?? 500
+    this.restoreQueue()
+  }
+
+  // Reloads unfinished jobs; anything that was mid-transfer when the app quit is queued again
+  private restoreQueue(): void {
+    try {
+      if (!fs.existsSync(this.queueFile)) return
+      const saved = JSON.parse(fs.readFileSync(this.queueFile, 'utf-8')) as DownloadJob[]
+      for (const job of saved) {
+        if (job.status === 'downloading' || job.status === 'verifying') {
+          job.status = 'queued'
+        }
+        job.downloadedBytes = this.getPartialSize(job)
+        this.jobs.set(job.id, job)
+      }
+      console.log(`Restored ${saved.length} download(s) from queue`)
+    } catch (error) {
+      console.error('Failed to restore download queue:', error)
+    }
+  }
+
+  private saveQueue(): void {
+    try {
+      // Failed jobs are kept so they can be retried from their partial file
+      const unfinished = Array.from(this.jobs.values()).filter(job => job.status !== 'completed' && job.status !== 'cancelled')
+      fs.mkdirSync(path.dirname(this.queueFile), { recursive: true })
+      const tempPath = `${this.queueFile}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(unfinished, null, 2))
+      fs.renameSync(tempPath, this.queueFile)
+    } catch (error) {
+      console.error('Failed to save download queue:', error)
+    }
+  }
+
+  // Starts queued jobs that were restored from disk
+  start(): void {
+    this.pump()
+  }
+
+  enqueue(request: { url: string; filename: string; sha256?: string }): DownloadJob {
+    const filename = path.basename(request.filename)
+    if (!filename || filename !== request.filename) {
+      throw new Error(`Invalid filename: ${request.filename}`)
+    }
+    if (!/^https?:\/\//i.test(request.url)) {
+      throw new Error(`Unsupported download URL: ${request.url}`)
+    }
+    if (fs.existsSync(path.join(this.modelsDir, filename))) {
+      throw new Error('Model already exists')
+    }
+
+    // One job per file: asking again for an unfinished download returns (and resumes) it
+    const existing = Array.from(this.jobs.values()).find(job => job.filename === filename && job.status !== 'completed' && job.status !== 'cancelled')
+    if (existing) {
+      if (existing.status === 'paused' || existing.status === 'failed') {
+        this.resume(existing.id)
+      }
+      return { ...existing }
+    }
+
+    const now = new Date().toISOString()
+    const job: DownloadJob = {
+      id: uuidv4(),
+      url: request.url,
+      filename,
+      sha256: request.sha256?.toLowerCase(),
+      status: 'queued',
+      downloadedBytes: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.jobs.set(job.id, job)
+    this.removePartial(job)
+    console.log(`Queued download: ${filename}`)
+    this.updateStatus(job, 'queued')
+    this.pump()
+    return { ...job }
+  }
+
+  pause(id: string): boolean {
+    const job = this.jobs.get(id)
+    if (!job || TERMINAL_STATUSES.includes(job.status) || job.status === 'paused') return false
+    // The bytes are all here; stopping the checksum now would only mean hashing the file again
+    if (job.status === 'verifying') {
+      console.log(`Cannot pause ${job.filename} while it is being verified`)
+      return false
+    }
+
+    const transfer = this.active.get(id)
+    if (transfer) {
+      // run() sees the reason when the aborted transfer rejects and marks the job paused
+      transfer.stopReason = 'pause'
+      transfer.request?.destroy()
+    } else {
+      this.updateStatus(job, 'paused')
+    }
+    console.log(`Paused download: ${job.filename}`)
+    return true
+  }
+
+  resume(id: string): boolean {
+    const job = this.jobs.get(id)
+    if (!job || (job.status !== 'paused' && job.status !== 'failed')) return false
+
+    job.error = undefined
+    this.updateStatus(job, 'queued')
+    console.log(`Resuming download: ${job.filename}`)
+    this.pump()
+    return true
+  }
+
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id)
+    if (!job || job.status === 'completed' || job.status === 'cancelled') return false
+
+    const transfer = this.active.get(id)
+    if (transfer) {
+      transfer.stopReason = 'cancel'
+      transfer.request?.destroy()
+    } else {
+      this.removePartial(job)
+      this.updateStatus(job, 'cancelled')
+      this.jobs.delete(id)
+      this.saveQueue()
+    }
+    console.log(`Cancelled download: ${job.filename}`)
+    return true
+  }
+
+  getQueue(): DownloadJob[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(job => ({ ...job }))
+  }
+
+  // Resolves once the job completes, fails or is cancelled (a paused job keeps it pending)
+  waitFor(id: string): Promise<DownloadJob> {
+    const job = this.jobs.get(id)
+    if (!job) {
+      return Promise.reject(new Error(`Unknown download: ${id}`))
+    }
+    if (TERMINAL_STATUSES.includes(job.status)) {
+      return Promise.resolve({ ...job })
+    }
+    return new Promise(resolve => {
+      const onProgress = (update: DownloadProgress) => {
+        if (update.id === id && TERMINAL_STATUSES.includes(update.status)) {
+          this.off('progress', onProgress)
+          resolve({ ...job })
+        }
+      }
+      this.on('progress', onProgress)
+    })
+  }
+
+  private pump(): void {
+    for (const job of this.getQueue()) {
+      if (this.active.size >= this.maxConcurrent) break
+      if (job.status === 'queued' && !this.active.has(job.id)) {
+        this.run(this.jobs.get(job.id)!)
+      }
+    }
+  }
+
+  private async run(job: DownloadJob): Promise<void> {
+    const transfer: ActiveTransfer = {
+      speed: 0,
+      lastSampleTime: Date.now(),
+      lastSampleBytes: job.downloadedBytes,
+      lastEmitTime: 0
+    }
+    this.active.set(job.id, transfer)
+    job.error = undefined
+    this.updateStatus(job, 'downloading')
+
+    try {
+      await this.transfer(job, job.url, transfer, 5)
+
+      this.updateStatus(job, 'verifying')
+      await this.verify(job)
+
+      fs.renameSync(this.getTempPath(job), path.join(this.modelsDir, job.filename))
+      console.log(`Download completed successfully: ${job.filename}`)
+      this.active.delete(job.id)
+      this.updateStatus(job, 'completed')
+      this.jobs.delete(job.id)
+      this.emit('completed', { ...job })
+    } catch (error) {
+      this.active.delete(job.id)
+      switch (transfer.stopReason) {
+        case 'pause':
+          this.updateStatus(job, 'paused')
+          break
+        case 'cancel':
+          this.removePartial(job)
+          this.updateStatus(job, 'cancelled')
+          this.jobs.delete(job.id)
+          break
+        case 'shutdown':
+          // Picked up again from the partial file on next start
+          job.status = 'queued'
+          break
+        default:
+          job.error = error instanceof Error ? error.message : String(error)
+          console.error(`Download failed: ${job.filename}:`, job.error)
+          this.updateStatus(job, 'failed')
+      }
+    } finally {
+      this.saveQueue()
+      if (transfer.stopReason !== 'shutdown') {
+        this.pump()
+      }
+    }
+  }
+
+  // Downloads into the temp file, continuing from its current size when the server supports ranges
+  private transfer(job: DownloadJob, url: string, transfer: ActiveTransfer, redirectsLeft: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (transfer.stopReason) {
+        reject(new Error('Download interrupted'))
+        return
+      }
+
+      fs.mkdirSync(this.modelsDir, { recursive: true })
+      const tempPath = this.getTempPath(job)
+      const existingSize = this.getPartialSize(job)
+      const client = url.toLowerCase().startsWith('https:') ? https : http
+      const headers: Record<string, string> = existingSize > 0 ? { Range: `bytes=${existingSize}-` } : {}
+
+      console.log(`Downloading from: ${url}${existingSize > 0 ? ` (resuming at ${existingSize} bytes)` : ''}`)
+
+      const request = client.get(url, { headers }, (response) => {
+        const statusCode = response.statusCode || 0
+
+        // Hugging Face names an LFS file's SHA-256 on the way to it, so catalog and pasted
+        // links get verified even when nobody supplied a checksum
+        const linkedSha = String(response.headers['x-linked-etag'] || '').replace(/"/g, '').toLowerCase()
+        if (!job.sha256 && /^[a-f0-9]{64}$/.test(linkedSha)) {
+          job.sha256 = linkedSha
+          console.log(`Using SHA-256 from the server for ${job.filename}`)
+        }
+
+        if ([301, 302, 303, 307, 308].includes(statusCode)) {
+          response.resume()
+          const location = response.headers.location
+          if (!location) {
+            reject(new Error('Redirect response without location header'))
+          } else if (redirectsLeft === 0) {
+            reject(new Error('Too many redirects'))
+          } else {
+            console.log(`Following redirect to: ${location}`)
+            resolve(this.transfer(job, new URL(location, url).toString(), transfer, redirectsLeft - 1))
+          }
+          return
+        }
+
+        // The range starts at or past the end of the remote file (Content-Range: bytes */<total>)
+        if (statusCode === 416 && existingSize > 0) {
+          response.resume()
+          const totalMatch = /\/(\d+)\s*$/.exec(response.headers['content-range'] || '')
+          const totalBytes = totalMatch ? Number(totalMatch[1]) : job.totalBytes
+          // Only a known size, or a checksum to verify against, shows the partial file is the whole file
+          if (totalBytes === existingSize || (totalBytes === undefined && job.sha256)) {
+            job.downloadedBytes = existingSize
+            job.totalBytes = existingSize
+            resolve()
+          } else {
+            console.log(`Partial file for ${job.filename} can't be resumed, restarting download`)
+            this.removePartial(job)
+            job.downloadedBytes = 0
+            resolve(this.transfer(job, url, transfer, redirectsLeft))
+          }
+          return
+        }
+
+        if (statusCode !== 200 && statusCode !== 206) {
+          response.resume()
+          reject(new Error(`HTTP ${statusCode}: ${response.statusMessage}`))
+          return
+        }
+
+        const resumed = statusCode === 206
+        const contentLength = parseInt(response.headers['content-length'] || '0', 10)
+        if (resumed) {
+          // Content-Range: bytes <start>-<end>/<total>
+          const totalMatch = /\/(\d+)\s*$/.exec(response.headers['content-range'] || '')
+          job.totalBytes = totalMatch ? Number(totalMatch[1]) : (contentLength ? existingSize + contentLength : undefined)
+          job.downloadedBytes = existingSize
+        } else {
+          if (existingSize > 0) {
+            console.log('Server does not support resuming, restarting download')
+          }
+          job.totalBytes = contentLength || undefined
+          job.downloadedBytes = 0
+        }
+        transfer.lastSampleBytes = job.downloadedBytes
+        this.saveQueue()
+
+        if (job.totalBytes !== undefined) {
+          try {
+            ensureFreeSpace(this.modelsDir, job.totalBytes - job.downloadedBytes)
+          } catch (error) {
+            response.destroy()
+            reject(error)
+            return
+          }
+        }
+
+        response.on('data', (chunk: Buffer) => {
+          job.downloadedBytes += chunk.length
+          this.reportProgress(job, transfer)
+        })
+
+        pipeline(response, fs.createWriteStream(tempPath, { flags: resumed ? 'a' : 'w' }))
+          .then(() => resolve(), reject)
+      })
+
+      transfer.request = request
+      request.on('error', reject)
+      // Abort when the connection goes quiet; the partial file is kept for resuming
+      request.setTimeout(this.stallTimeoutMs, () => {
+        request.destroy(new Error(`Download stalled - no data received for ${this.stallTimeoutMs / 1000}s`))
+      })
+    })
+  }
+
+  private async verify(job: DownloadJob): Promise<void> {
+    const tempPath = this.getTempPath(job)
+    const size = fs.statSync(tempPath).size
+
+    if (job.totalBytes !== undefined && size !== job.totalBytes) {
+      // Too short can be resumed; too long means the partial file doesn't match the remote file
+      if (size > job.totalBytes) {
+        this.removePartial(job)
+      }
+      throw new Error(`File size mismatch. Expected ${job.totalBytes}, got ${size}`)
+    }
+
+    if (!job.sha256) {
+      console.log(`No checksum known for ${job.filename}, skipping SHA-256 verification`)
+      return
+    }
+
+    const hash = createHash('sha256')
+    await pipeline(fs.createReadStream(tempPath), hash)
+    const digest = hash.digest('hex')
+    if (digest !== job.sha256) {
+      this.removePartial(job)
+      throw new Error(`Checksum mismatch for ${job.filename}: expected ${job.sha256}, got ${digest}`)
+    }
+    console.log(`Verified SHA-256 for ${job.filename}`)
+  }
+
+  private reportProgress(job: DownloadJob, transfer: ActiveTransfer): void {
+    const now = Date.now()
+    if (now - transfer.lastEmitTime < this.progressIntervalMs) return
+
+    // Smoothed so the ETA doesn't jump around with every chunk
+    const elapsed = (now - transfer.lastSampleTime) / 1000
+    if (elapsed > 0) {
+      const instantSpeed = (job.downloadedBytes - transfer.lastSampleBytes) / elapsed
+      transfer.speed = transfer.speed ? transfer.speed * 0.7 + instantSpeed * 0.3 : instantSpeed
+    }
+    transfer.lastSampleTime = now
+    transfer.lastSampleBytes = job.downloadedBytes
+    transfer.lastEmitTime = now
+
+    this.emit('progress', this.toProgress(job))
+  }
+
+  private updateStatus(job: DownloadJob, status: DownloadStatus): void {
+    job.status = status
+    job.updatedAt = new Date().toISOString()
+    this.saveQueue()
+    this.emit('progress', this.toProgress(job))
+  }
+
+  private toProgress(job: DownloadJob): DownloadProgress {
+    const speed = this.active.get(job.id)?.speed ?? 0
+    const remaining = job.totalBytes !== undefined ? job.totalBytes - job.downloadedBytes : undefined
+    return {
+      id: job.id,
+      filename: job.filename,
+      status: job.status,
+      progress: job.status === 'completed'
+        ? 100
+        : job.totalBytes ? Math.min(100, Math.round((job.downloadedBytes / job.totalBytes) * 100)) : 0,
+      downloadedSize: job.downloadedBytes,
+      totalSize: job.totalBytes,
+      speed: Math.round(speed),
+      eta: speed > 0 && remaining !== undefined ? Math.round(remaining / speed) : undefined,
+      error: job.error
+    }
+  }
+
+  private getTempPath(job: DownloadJob): string {
+    return path.join(this.modelsDir, `${job.filename}.tmp`)
+  }
+
+  private getPartialSize(job: DownloadJob): number {
+    try {
+      return fs.statSync(this.getTempPath(job)).size
+    } catch {
+      return 0
+    }
+  }
+
+  private removePartial(job: DownloadJob): void {
+    try {
+      fs.rmSync(this.getTempPath(job), { force: true })
+    } catch (error) {
+      console.error('Error cleaning up temp file:', error)
+    }
+  }
+
+  // Stops transfers but keeps partial files so they resume on next launch
+  dispose(): void {
+    for (const transfer of this.active.values()) {
+      transfer.stopReason = 'shutdown'
+      transfer.request?.destroy()
+    }
+    for (const job of this.jobs.values()) {
+      if (job.status === 'downloading' || job.status === 'verifying') {
+        job.status = 'queued'
+      }
+    }
+    this.saveQueue()
+  }
+}
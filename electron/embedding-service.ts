@@ -0,0 +1,187 @@
+import path from 'path'
+import { createHash } from 'crypto'
+import { app } from 'electron'
+import { getModelFingerprint } from './kv-cache-store.js'
+
+export interface EmbeddingResult {
+  model: string
+  embeddings: number[][]
+  dimensions: number
+  promptTokens: number
+}
+
+// Filenames of common embedding-only GGUFs (nomic-embed, bge, e5, gte, all-MiniLM, ...)
+const EMBEDDING_MODEL_PATTERN = /embed|bge-|e5-|gte-|minilm/i
+
+export class EmbeddingService {
+  private llama: any = null
+  private model: any = null
+  private context: any = null
+  private modelPath: string | null = null
+  private modelFingerprint: string | null = null
+  private loadPromise: Promise<void> | null = null
+  // Embedding contexts evaluate one input at a time (node-llama-cpp has no batch call), so requests are serialized
+  private embedLock: Promise<any> = Promise.resolve()
+  // Content-hash -> vector. Keys include the model file's fingerprint so switching or replacing models never returns stale vectors.
+  private cache: Map<string, number[]> = new Map()
+  private maxCacheEntries = 5000
+
+  private getModelsDir(): string {
+    return path.join(app.getPath('userData'), 'models')
+  }
+
+  async findEmbeddingModel(preferred?: string): Promise<string | null> {
+    const { existsSync, readdirSync } = await import('fs')
+    const modelsDir = this.getModelsDir()
+    if (!existsSync(modelsDir)) {
+      return null
+    }
+
+    if (preferred) {
+      const preferredPath = path.join(modelsDir, path.basename(preferred))
+      return existsSync(preferredPath) ? preferredPath : null
+    }
+
+    const candidate = readdirSync(modelsDir)
+      .filter(file => file.endsWith('.gguf') && EMBEDDING_MODEL_PATTERN.test(file))
+      .sort()[0]
+    return candidate ? path.join(modelsDir, candidate) : null
+  }
+
+  private async ensureModel(preferred?: string): Promise<void> {
+    const wantedPath = await this.findEmbeddingModel(preferred)
+    if (!wantedPath) {
+      throw new Error(preferred
+        ? `Embedding model not found: ${preferred}`
+        : 'No embedding model found in models directory. Download an embedding GGUF (e.g. nomic-embed-text) first.')
+    }
+
+    if (this.context && this.modelPath === wantedPath) {
+      return
+    }
+    if (this.loadPromise) {
+      await this.loadPromise
+      return this.ensureModel(preferred)
+    }
+
+    this.loadPromise = (async () => {
+      try {
+        await this.unload()
+        console.log('Loading embedding model from:', wantedPath)
+
+        const { getLlama } = await import('node-llama-cpp')
+        if (!this.llama) {
+          this.llama = await getLlama()
+        }
+        this.model = await this.llama.loadModel({ modelPath: wantedPath })
+        this.context = await this.model.createEmbeddingContext()
+        this.modelPath = wantedPath
+        this.modelFingerprint = getModelFingerprint(wantedPath)
+
+        console.log(`Embedding model loaded: ${path.basename(wantedPath)}`)
+      } catch (error) {
+        console.error('Failed to load embedding model:', error)
+        await this.unload()
+        throw error
+      }
+    })()
+
+    try {
+      await this.loadPromise
+    } finally {
+      this.loadPromise = null
+    }
+  }
+
+  async embed(input: string | string[], options: { model?: string } = {}): Promise<EmbeddingResult> {
+    const texts = Array.isArray(input) ? input : [input]
+    if (texts.length === 0) {
+      throw new Error('Embedding input cannot be empty')
+    }
+    if (texts.some(text => typeof text !== 'string')) {
+      throw new Error('Embedding input must be a string or an array of strings')
+    }
+
+    const run = async (): Promise<EmbeddingResult> => {
+      await this.ensureModel(options.model)
+      const modelName = path.basename(this.modelPath!)
+
+      const embeddings: number[][] = new Array(texts.length)
+      let promptTokens = 0
+
+      for (let index = 0; index < texts.length; index++) {
+        const text = texts[index]
+        const key = this.cacheKey(this.modelFingerprint!, text)
+        promptTokens += this.model.tokenize(text).length
+
+        let vector = this.cache.get(key)
+        if (vector) {
+          // Refresh recency so frequently used inputs stay cached
+          this.cache.delete(key)
+        } else {
+          const embedding = await this.context.getEmbeddingFor(text)
+          vector = Array.from(embedding.vector as ArrayLike<number>)
+        }
+        this.cache.set(key, vector)
+        embeddings[index] = vector
+      }
+      this.trimCache()
+
+      return {
+        model: modelName,
+        embeddings,
+        dimensions: embeddings[0]?.length || 0,
+        promptTokens
+      }
+    }
+
+    const resultPromise = this.embedLock.then(run)
+    this.embedLock = resultPromise.then(() => {}).catch(() => {})
+    return resultPromise
+  }
+
+  private cacheKey(modelFingerprint: string, text: string): string {
+    return createHash('sha256').update(modelFingerprint).update('\0').update(text).digest('hex')
+  }
+
+  private trimCache(): void {
+    // Map iteration order is insertion order, so the first keys are the least recently used
+    while (this.cache.size > this.maxCacheEntries) {
+      const oldest = this.cache.keys().next().value
+      if (oldest === undefined) break
+      this.cache.delete(oldest)
+    }
+  }
+
+  getStatus(): { isLoaded: boolean; modelName?: string; cachedEmbeddings: number } {
+    return {
+      isLoaded: !!this.context,
+      modelName: this.modelPath ? path.basename(this.modelPath) : undefined,
+      cachedEmbeddings: this.cache.size
+    }
+  }
+
+  private async unload(): Promise<void> {
+    try {
+      if (this.context) {
+        await this.context.dispose()
+      }
+      if (this.model) {
+        await this.model.dispose()
+      }
+    } catch (error) {
+      console.error('Error unloading embedding model:', error)
+    } finally {
+      this.context = null
+      this.model = null
+      this.modelPath = null
+      this.modelFingerprint = null
+    }
+  }
+
+  dispose(): void {
+    console.log('Disposing embedding service...')
+    this.unload()
+    this.cache.clear()
+  }
+}
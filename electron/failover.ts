@@ -0,0 +1,130 @@
+import type { RouteKind } from './request-router.js'
+
+export interface FailoverPolicy {
+  // How long a remote backend may go without sending text; a peer relay answers in one piece,
+  // so for peers this bounds the whole reply
+  timeoutMs: Record<Exclude<RouteKind, 'local'>, number>
+  retries: number // extra attempts on the same backend before moving to the next one
+  backoffMs: number // wait before the first retry, doubled after each one
+  maxBackends: number // remote backends tried per request; hybrid mode then falls back to this device
+  breakerThreshold: number // consecutive failures that take a backend out of routing
+  breakerCooldownMs: number // how long it stays out before a single trial request is let through
+}
+
+export const DEFAULT_FAILOVER_POLICY: FailoverPolicy = {
+  timeoutMs: { localai: 30000, peer: 90000 },
+  retries: 1,
+  backoffMs: 500,
+  maxBackends: 3,
+  breakerThreshold: 3,
+  breakerCooldownMs: 30000
+}
+
+// Merges a partial policy over `base`, rejecting values that would disable failover by accident
+export function normalizeFailoverPolicy(policy: Partial<FailoverPolicy> = {}, base: FailoverPolicy = DEFAULT_FAILOVER_POLICY): FailoverPolicy {
+  const merged: FailoverPolicy = { ...base, ...policy, timeoutMs: { ...base.timeoutMs, ...policy.timeoutMs } }
+  const checks: [string, number, number, number][] = [
+    ['timeoutMs.localai', merged.timeoutMs.localai, 1000, 600000],
+    ['timeoutMs.peer', merged.timeoutMs.peer, 1000, 600000],
+    ['retries', merged.retries, 0, 5],
+    ['backoffMs', merged.backoffMs, 0, 60000],
+    ['maxBackends', merged.maxBackends, 1, 10],
+    ['breakerThreshold', merged.breakerThreshold, 1, 20],
+    ['breakerCooldownMs', merged.breakerCooldownMs, 1000, 3600000]
+  ]
+  for (const [name, value, min, max] of checks) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`Failover ${name} must be between ${min} and ${max}`)
+    }
+  }
+  return merged
+}
+
+// A remote backend failed; `partial` is the text already passed to onToken
+export class BackendError extends Error {
+  partial: string
+  timedOut: boolean
+
+  constructor(message: string, partial = '', timedOut = false) {
+    super(message)
+    this.name = 'BackendError'
+    this.partial = partial
+    this.timedOut = timedOut
+  }
+}
+
+export interface CircuitState {
+  id: string
+  failures: number // consecutive
+  openUntil?: number // while set and in the future, the backend is skipped
+  probing?: boolean // half-open: the cooldown is over and the one trial request is running
+}
+
+// Per-backend circuit breakers. An open circuit turns half-open when its cooldown ends and then
+// admits exactly one trial request: success closes it, failure opens it for another cooldown.
+export class CircuitBreakers {
+  private states = new Map<string, CircuitState>()
+  private policy: Pick<FailoverPolicy, 'breakerThreshold' | 'breakerCooldownMs'>
+
+  constructor(policy: Pick<FailoverPolicy, 'breakerThreshold' | 'breakerCooldownMs'>) {
+    this.policy = policy
+  }
+
+  configure(policy: Pick<FailoverPolicy, 'breakerThreshold' | 'breakerCooldownMs'>): void {
+    this.policy = policy
+  }
+
+  // Whether new requests should stay away; true while cooling down and while the trial request runs
+  isOpen(id: string): boolean {
+    const state = this.states.get(id)
+    return !!state && (!!state.probing || (state.openUntil !== undefined && Date.now() < state.openUntil))
+  }
+
+  // Call before each request; when it returns true the caller must report the outcome
+  // with recordSuccess, recordFailure or releaseProbe
+  allowRequest(id: string): boolean {
+    const state = this.states.get(id)
+    if (!state || state.openUntil === undefined) return true
+    if (this.isOpen(id)) return false
+
+    state.probing = true
+    console.log(`[Failover] Circuit for ${id} half-open, sending one trial request`)
+    return true
+  }
+
+  // Seconds until an open circuit lets a trial request through
+  getRetryIn(id: string): number {
+    const openUntil = this.states.get(id)?.openUntil
+    return openUntil ? Math.max(0, Math.ceil((openUntil - Date.now()) / 1000)) : 0
+  }
+
+  recordSuccess(id: string): void {
+    if (this.states.get(id)?.openUntil) {
+      console.log(`[Failover] Circuit for ${id} closed`)
+    }
+    this.states.delete(id)
+  }
+
+  recordFailure(id: string): void {
+    const state = this.states.get(id) || { id, failures: 0 }
+    state.failures++
+    if (state.probing || state.failures >= this.policy.breakerThreshold) {
+      state.openUntil = Date.now() + this.policy.breakerCooldownMs
+      state.probing = false
+      console.log(`[Failover] Circuit for ${id} open for ${this.policy.breakerCooldownMs / 1000}s after ${state.failures} failures`)
+    }
+    this.states.set(id, state)
+  }
+
+  // The trial request ended without saying anything about the backend (e.g. it was cancelled)
+  releaseProbe(id: string): void {
+    const state = this.states.get(id)
+    if (state) {
+      state.probing = false
+    }
+  }
+
+  getStates(): CircuitState[] {
+    return Array.from(this.states.values()).map(state => ({ ...state }))
+  }
+}
@@ -0,0 +1,362 @@
+import fs from 'fs'
+import path from 'path'
+
+// Summary of a GGUF file's header, read without touching the tensor data
+export interface GGUFModelMetadata {
+  filename: string
+  fileSizeBytes: number
+  ggufVersion: number
+  architecture?: string
+  name?: string
+  sizeLabel?: string // e.g. "3B", as declared by the converter
+  parameterCount?: number // summed from the tensor shapes
+  quantization?: string // e.g. "Q4_K_M"
+  contextLength?: number // training context length
+  embeddingLength?: number
+  blockCount?: number
+  headCount?: number
+  headCountKv?: number
+  isEmbeddingModel: boolean
+  chatTemplate?: string
+  tokenizer: {
+    model?: string // e.g. "gpt2", "llama"
+    vocabSize?: number
+    bosTokenId?: number
+    eosTokenId?: number
+  }
+  license?: string
+  tensorCount: number
+  adapter?: GGUFAdapterInfo // set for LoRA adapter files, which can't be loaded on their own
+}
+
+export interface GGUFAdapterInfo {
+  type: string // e.g. "lora"
+  alpha?: number
+  baseModelName?: string // the model it was trained on, when the converter recorded it
+  embeddingLength?: number // input size of the adapted attention weights
+  layerCount?: number // highest adapted layer + 1
+}
+
+const GGUF_MAGIC = 0x46554747 // "GGUF" little-endian
+
+const enum GGUFValueType {
+  UINT8 = 0,
+  INT8 = 1,
+  UINT16 = 2,
+  INT16 = 3,
+  UINT32 = 4,
+  INT32 = 5,
+  FLOAT32 = 6,
+  BOOL = 7,
+  STRING = 8,
+  ARRAY = 9,
+  UINT64 = 10,
+  INT64 = 11,
+  FLOAT64 = 12
+}
+
+// llama.cpp's LLAMA_FTYPE values stored in general.file_type
+const FILE_TYPE_NAMES: Record<number, string> = {
+  0: 'F32', 1: 'F16', 2: 'Q4_0', 3: 'Q4_1', 7: 'Q8_0', 8: 'Q5_0', 9: 'Q5_1',
+  10: 'Q2_K', 11: 'Q3_K_S', 12: 'Q3_K_M', 13: 'Q3_K_L', 14: 'Q4_K_S', 15: 'Q4_K_M',
+  16: 'Q5_K_S', 17: 'Q5_K_M', 18: 'Q6_K', 19: 'IQ2_XXS', 20: 'IQ2_XS', 21: 'Q2_K_S',
+  22: 'IQ3_XS', 23: 'IQ3_XXS', 24: 'IQ1_S', 25: 'IQ4_NL', 26: 'IQ3_S', 27: 'IQ3_M',
+  28: 'IQ2_S', 29: 'IQ2_M', 30: 'IQ4_XS', 31: 'IQ1_M', 32: 'BF16', 36: 'TQ1_0', 37: 'TQ2_0'
+}
+
+// Architectures that only produce embeddings and can't be used for chat
+const EMBEDDING_ARCHITECTURES = new Set(['bert', 'nomic-bert', 'nomic-bert-moe', 'jina-bert-v2', 't5encoder'])
+
+// Large arrays (token lists, merges) are skipped rather than kept in memory
+const MAX_KEPT_ARRAY_LENGTH = 64
+
+// Reads sequentially through a file handle, refilling a buffer as needed
+class GGUFReader {
+  private buffer = Buffer.alloc(0)
+  private bufferStart = 0
+  private position = 0
+  private chunkSize = 1024 * 1024
+
+  constructor(private fd: number, private fileSize: number) {}
+
+  private ensure(length: number): void {
+    const bufferEnd = this.bufferStart + this.buffer.length
+    if (this.position + length <= bufferEnd) return
+
+    if (this.position + length > this.fileSize) {
+      throw new Error('Unexpected end of file while reading GGUF header (file may be incomplete)')
+    }
+
+    const size = Math.max(length, this.chunkSize)
+    const next = Buffer.alloc(Math.min(size, this.fileSize - this.position))
+    fs.readSync(this.fd, next, 0, next.length, this.position)
+    this.buffer = next
+    this.bufferStart = this.position
+  }
+
+  // Returns the buffer offset of the next `length` bytes; call before touching this.buffer
+  private take(length: number): number {
+    this.ensure(length)
+    const offset = this.position - this.bufferStart
+    this.position += length
+    return offset
+  }
+
+  u8(): number { const offset = this.take(1); return this.buffer.readUInt8(offset) }
+  i8(): number { const offset = this.take(1); return this.buffer.readInt8(offset) }
+  u16(): number { const offset = this.take(2); return this.buffer.readUInt16LE(offset) }
+  i16(): number { const offset = this.take(2); return this.buffer.readInt16LE(offset) }
+  u32(): number { const offset = this.take(4); return this.buffer.readUInt32LE(offset) }
+  i32(): number { const offset = this.take(4); return this.buffer.readInt32LE(offset) }
+  f32(): number { const offset = this.take(4); return this.buffer.readFloatLE(offset) }
+  f64(): number { const offset = this.take(8); return this.buffer.readDoubleLE(offset) }
+  u64(): number { const offset = this.take(8); return Number(this.buffer.readBigUInt64LE(offset)) }
+  i64(): number { const offset = this.take(8); return Number(this.buffer.readBigInt64LE(offset)) }
+
+  string(): string {
+    const length = this.u64()
+    if (this.position + length > this.fileSize) {
+      throw new Error('Invalid string length in GGUF header (file may be incomplete)')
+    }
+    // Read large strings (chat templates) straight from disk instead of growing the buffer
+    if (length > this.chunkSize) {
+      const value = Buffer.alloc(length)
+      fs.readSync(this.fd, value, 0, length, this.position)
+      this.position += length
+      return value.toString('utf-8')
+    }
+    const offset = this.take(length)
+    return this.buffer.toString('utf-8', offset, offset + length)
+  }
+
+  skipString(): void {
+    const length = this.u64()
+    if (this.position + length > this.fileSize) {
+      throw new Error('Invalid string length in GGUF header (file may be incomplete)')
+    }
+    this.position += length
+  }
+
+  value(type: number): any {
+    switch (type) {
+      case GGUFValueType.UINT8: return this.u8()
+      case GGUFValueType.INT8: return this.i8()
+      case GGUFValueType.UINT16: return this.u16()
+      case GGUFValueType.INT16: return this.i16()
+      case GGUFValueType.UINT32: return this.u32()
+      case GGUFValueType.INT32: return this.i32()
+      case GGUFValueType.FLOAT32: return this.f32()
+      case GGUFValueType.BOOL: return this.u8() !== 0
+      case GGUFValueType.STRING: return this.string()
+      case GGUFValueType.UINT64: return this.u64()
+      case GGUFValueType.INT64: return this.i64()
+      case GGUFValueType.FLOAT64: return this.f64()
+      case GGUFValueType.ARRAY: return this.array()
+      default:
+        throw new Error(`Unknown GGUF value type ${type}`)
+    }
+  }
+
+  // Returns small arrays as-is and only the length of large ones
+  private array(): any[] | { length: number } {
+    const itemType = this.u32()
+    const length = this.u64()
+    if (length <= MAX_KEPT_ARRAY_LENGTH) {
+      return Array.from({ length }, () => this.value(itemType))
+    }
+
+    for (let i = 0; i < length; i++) {
+      if (itemType === GGUFValueType.STRING) {
+        this.skipString()
+      } else {
+        this.value(itemType)
+      }
+    }
+    return { length }
+  }
+}
+
+const metadataCache: Map<string, { mtimeMs: number; size: number; metadata: GGUFModelMetadata }> = new Map()
+
+// Parses the GGUF header. Throws if the file isn't a GGUF or the header is truncated/corrupt.
+export function readGGUFMetadata(filePath: string): GGUFModelMetadata {
+  const stats = fs.statSync(filePath)
+  const cached = metadataCache.get(filePath)
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.metadata
+  }
+
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    const reader = new GGUFReader(fd, stats.size)
+
+    if (reader.u32() !== GGUF_MAGIC) {
+      throw new Error('Not a GGUF file (bad magic number)')
+    }
+    const version = reader.u32()
+    if (version < 2 || version > 3) {
+      throw new Error(`Unsupported GGUF version ${version}`)
+    }
+
+    const tensorCount = reader.u64()
+    const kvCount = reader.u64()
+    const kv: Record<string, any> = {}
+    for (let i = 0; i < kvCount; i++) {
+      const key = reader.string()
+      kv[key] = reader.value(reader.u32())
+    }
+
+    // Tensor infos follow the metadata; their shapes give the real parameter count.
+    // Adapter tensor names and shapes tell which base models the adapter fits.
+    const isAdapter = kv['general.type'] === 'adapter'
+    let parameterCount = 0
+    let adapterEmbeddingLength: number | undefined
+    let adapterLayerCount: number | undefined
+    for (let i = 0; i < tensorCount; i++) {
+      let name = ''
+      if (isAdapter) {
+        name = reader.string()
+      } else {
+        reader.skipString()
+      }
+      const dimensions = reader.u32()
+      const shape: number[] = []
+      let elements = 1
+      for (let d = 0; d < dimensions; d++) {
+        shape.push(reader.u64())
+        elements *= shape[d]
+      }
+      reader.u32() // ggml type
+      reader.u64() // data offset
+      parameterCount += elements
+
+      const layer = isAdapter ? /^blk\.(\d+)\./.exec(name) : null
+      if (layer) {
+        adapterLayerCount = Math.max(adapterLayerCount ?? 0, Number(layer[1]) + 1)
+        if (adapterEmbeddingLength === undefined && /\.attn_(q|k|v)\.weight\.lora_a$/.test(name)) {
+          adapterEmbeddingLength = shape[0]
+        }
+      }
+    }
+
+    const architecture: string | undefined = kv['general.architecture']
+    const archValue = (key: string): number | undefined => {
+      const value = architecture ? kv[`${architecture}.${key}`] : undefined
+      // head_count_kv can be a per-layer array; use the first layer's value
+      if (Array.isArray(value)) return typeof value[0] === 'number' ? value[0] : undefined
+      return typeof value === 'number' ? value : undefined
+    }
+    const tokens = kv['tokenizer.ggml.tokens']
+    const fileType = kv['general.file_type']
+
+    const metadata: GGUFModelMetadata = {
+      filename: path.basename(filePath),
+      fileSizeBytes: stats.size,
+      ggufVersion: version,
+      architecture,
+      name: kv['general.name'],
+      sizeLabel: kv['general.size_label'],
+      parameterCount: parameterCount || undefined,
+      quantization: typeof fileType === 'number' ? (FILE_TYPE_NAMES[fileType] || `type ${fileType}`) : undefined,
+      contextLength: archValue('context_length'),
+      embeddingLength: archValue('embedding_length'),
+      blockCount: archValue('block_count'),
+      headCount: archValue('attention.head_count'),
+      headCountKv: archValue('attention.head_count_kv'),
+      isEmbeddingModel: !!architecture && (EMBEDDING_ARCHITECTURES.has(architecture) || archValue('pooling_type') !== undefined),
+      chatTemplate: typeof kv['tokenizer.chat_template'] === 'string' ? kv['tokenizer.chat_template'] : undefined,
+      tokenizer: {
+        model: kv['tokenizer.ggml.model'],
+        vocabSize: tokens?.length ?? archValue('vocab_size'),
+        bosTokenId: kv['tokenizer.ggml.bos_token_id'],
+        eosTokenId: kv['tokenizer.ggml.eos_token_id']
+      },
+      license: kv['general.license'],
+      tensorCount,
+      adapter: isAdapter ? {
+        type: kv['adapter.type'] || 'lora',
+        alpha: kv['adapter.lora.alpha'],
+        baseModelName: kv['general.base_model.0.name'],
+        embeddingLength: adapterEmbeddingLength,
+        layerCount: adapterLayerCount
+      } : undefined
+    }
+
+    metadataCache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, metadata })
+    return metadata
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
+// Whether a LoRA adapter can be applied to a base model, with the reason either way
+export function checkAdapterFit(adapter: GGUFModelMetadata, base: GGUFModelMetadata): { fits: boolean; reason: string } {
+  const info = adapter.adapter
+  if (!info) {
+    return { fits: false, reason: `${adapter.filename} is not a LoRA adapter` }
+  }
+  if (base.adapter) {
+    return { fits: false, reason: `${base.filename} is an adapter, not a base model` }
+  }
+  if (adapter.architecture && base.architecture && adapter.architecture !== base.architecture) {
+    return { fits: false, reason: `made for ${adapter.architecture} models, not ${base.architecture}` }
+  }
+  if (info.embeddingLength && base.embeddingLength && info.embeddingLength !== base.embeddingLength) {
+    return { fits: false, reason: `hidden size ${info.embeddingLength} doesn't match the model's ${base.embeddingLength}` }
+  }
+  if (info.layerCount && base.blockCount && info.layerCount > base.blockCount) {
+    return { fits: false, reason: `adapts ${info.layerCount} layers but the model has ${base.blockCount}` }
+  }
+  return { fits: true, reason: info.baseModelName ? `${base.architecture || 'same'} architecture; trained on ${info.baseModelName}` : `${base.architecture || 'same'} architecture and shape` }
+}
+
+// llama.cpp's limit on how far a draft model's vocabulary size may differ from the target's
+const MAX_DRAFT_VOCAB_DIFFERENCE = 128
+
+// Whether a small model can draft tokens for a larger one: speculative decoding compares token
+// ids directly, so both must share a tokenizer
+export function checkDraftFit(draft: GGUFModelMetadata, target: GGUFModelMetadata): { fits: boolean; reason: string } {
+  if (draft.adapter || draft.isEmbeddingModel) {
+    return { fits: false, reason: `${draft.filename} is not a chat model` }
+  }
+  if (draft.filename === target.filename) {
+    return { fits: false, reason: 'the draft model must differ from the main model' }
+  }
+  if (draft.fileSizeBytes >= target.fileSizeBytes) {
+    return { fits: false, reason: `${draft.filename} is not smaller than ${target.filename}, so drafting would not save time` }
+  }
+  const a = draft.tokenizer
+  const b = target.tokenizer
+  if (a.model && b.model && a.model !== b.model) {
+    return { fits: false, reason: `tokenizer ${a.model} doesn't match the model's ${b.model}` }
+  }
+  if (a.vocabSize && b.vocabSize && Math.abs(a.vocabSize - b.vocabSize) > MAX_DRAFT_VOCAB_DIFFERENCE) {
+    return { fits: false, reason: `vocabulary of ${a.vocabSize} tokens doesn't match the model's ${b.vocabSize}` }
+  }
+  if ((a.bosTokenId !== undefined && b.bosTokenId !== undefined && a.bosTokenId !== b.bosTokenId) ||
+      (a.eosTokenId !== undefined && b.eosTokenId !== undefined && a.eosTokenId !== b.eosTokenId)) {
+    return { fits: false, reason: 'special token ids differ from the model\'s' }
+  }
+  return { fits: true, reason: `shares the ${b.model || 'same'} tokenizer (${b.vocabSize ?? '?'} tokens)` }
+}
+
+// Compute buffers and runtime overhead that don't scale with the model
+export const RUNTIME_OVERHEAD_BYTES = 256 * 1024 * 1024
+
+// f16 KV cache for the given context; falls back to a fifth of the weights when the layer shape is unknown
+export function estimateKvCacheBytes(metadata: GGUFModelMetadata, contextSize: number): number {
+  if (!metadata.blockCount || !metadata.embeddingLength) {
+    return Math.round(metadata.fileSizeBytes * 0.2)
+  }
+
+  const headCount = metadata.headCount || 1
+  const kvRatio = (metadata.headCountKv || headCount) / headCount
+  const context = Math.min(contextSize, metadata.contextLength || contextSize)
+  // K and V, 2 bytes per element, one embedding-sized row per token per layer (scaled for GQA)
+  return Math.round(2 * 2 * metadata.blockCount * context * metadata.embeddingLength * kvRatio)
+}
+
+// Rough RAM/VRAM needed to run the model: the weights plus an f16 KV cache for the given context
+export function estimateModelMemoryBytes(metadata: GGUFModelMetadata, contextSize: number): number {
+  return metadata.fileSizeBytes + estimateKvCacheBytes(metadata, contextSize) + RUNTIME_OVERHEAD_BYTES
+}
@@ -0,0 +1,186 @@
+import fs from 'fs'
+import path from 'path'
+import { createHash, randomBytes } from 'crypto'
+
+export interface KVCacheSettings {
+  enabled: boolean
+  maxBytes: number // total size of state files on disk before the least recently used are evicted
+}
+
+export const DEFAULT_KV_CACHE_SETTINGS: KVCacheSettings = {
+  enabled: true,
+  maxBytes: 2 * 1024 ** 3
+}
+
+// 'conversation' entries hold a whole conversation; 'prefix' entries are reused for any
+// conversation that starts with the same system prompt
+export type KVCacheKind = 'conversation' | 'prefix'
+
+export interface KVCacheEntry {
+  key: string
+  kind: KVCacheKind
+  modelFingerprint: string
+  contextSize: number
+  tokenCount: number
+  promptHash: string // system prompt the state starts with
+  fileSize: number
+  createdAt: string
+  lastUsed: number
+}
+
+export interface KVCacheInfo extends KVCacheSettings {
+  usedBytes: number
+  entries: number
+}
+
+// Identifies the exact model file, LoRA adapter and chat template override; loading a state saved by another model can crash the process
+export function getModelFingerprint(modelPath: string, adapter?: { path: string; scale: number }, chatTemplate?: string): string {
+  const stats = fs.statSync(modelPath)
+  const hash = createHash('sha256').update(`${path.basename(modelPath)}\0${stats.size}\0${stats.mtimeMs}`)
+  if (adapter) {
+    const adapterStats = fs.statSync(adapter.path)
+    hash.update(`\0${path.basename(adapter.path)}\0${adapterStats.size}\0${adapterStats.mtimeMs}\0${adapter.scale}`)
+  }
+  if (chatTemplate) {
+    hash.update(`\0${chatTemplate}`)
+  }
+  return hash.digest('hex').slice(0, 16)
+}
+
+export function getConversationKey(conversationId: string): string {
+  return `conversation-${createHash('sha256').update(conversationId).digest('hex').slice(0, 24)}`
+}
+
+export function getPromptHash(systemPrompt: string): string {
+  return createHash('sha256').update(systemPrompt).digest('hex').slice(0, 24)
+}
+
+export function getPrefixKey(systemPrompt: string): string {
+  return `prefix-${getPromptHash(systemPrompt)}`
+}
+
+// Context sequence state files in userData/kv-cache, indexed by model fingerprint and key
+export class KVCacheStore {
+  private dir: string
+  private indexPath: string
+  private entries: KVCacheEntry[]
+
+  constructor(dir: string) {
+    this.dir = dir
+    this.indexPath = path.join(dir, 'index.json')
+    this.entries = this.readIndex()
+  }
+
+  private readIndex(): KVCacheEntry[] {
+    try {
+      if (!fs.existsSync(this.indexPath)) {
+        return []
+      }
+      const parsed = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'))
+      // Drop entries whose state file vanished
+      return Array.isArray(parsed) ? parsed.filter((entry: KVCacheEntry) => fs.existsSync(this.getFilePath(entry))) : []
+    } catch (error) {
+      console.error('Failed to read KV cache index:', error)
+      return []
+    }
+  }
+
+  private writeIndex(): void {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+      const tempPath = `${this.indexPath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(this.entries, null, 2))
+      fs.renameSync(tempPath, this.indexPath)
+    } catch (error) {
+      console.error('Failed to save KV cache index:', error)
+    }
+  }
+
+  private getFilePath(entry: Pick<KVCacheEntry, 'key' | 'modelFingerprint'>): string {
+    return path.join(this.dir, `${entry.modelFingerprint}-${entry.key}.bin`)
+  }
+
+  find(modelFingerprint: string, key: string): KVCacheEntry | undefined {
+    return this.entries.find(entry => entry.modelFingerprint === modelFingerprint && entry.key === key)
+  }
+
+  // Path of a usable state file, marking it as recently used
+  use(entry: KVCacheEntry): string {
+    entry.lastUsed = Date.now()
+    this.writeIndex()
+    return this.getFilePath(entry)
+  }
+
+  // Writes a state via `save` (given a temporary path) and records it, then enforces the size bound
+  async put(
+    modelFingerprint: string,
+    key: string,
+    kind: KVCacheKind,
+    details: { contextSize: number; tokenCount: number; promptHash: string },
+    save: (filePath: string) => Promise<void>,
+    maxBytes: number
+  ): Promise<KVCacheEntry> {
+    fs.mkdirSync(this.dir, { recursive: true })
+    const filePath = this.getFilePath({ key, modelFingerprint })
+    // Unique per write since two sequences may save the same prefix at once
+    const tempPath = `${filePath}.${randomBytes(4).toString('hex')}.tmp`
+    try {
+      await save(tempPath)
+      fs.renameSync(tempPath, filePath)
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true })
+      throw error
+    }
+
+    const entry: KVCacheEntry = {
+      key,
+      kind,
+      modelFingerprint,
+      contextSize: details.contextSize,
+      tokenCount: details.tokenCount,
+      promptHash: details.promptHash,
+      fileSize: fs.statSync(filePath).size,
+      createdAt: new Date().toISOString(),
+      lastUsed: Date.now()
+    }
+    this.entries = [...this.entries.filter(existing => !(existing.modelFingerprint === modelFingerprint && existing.key === key)), entry]
+    this.evict(maxBytes)
+    return entry
+  }
+
+  remove(key: string, modelFingerprint?: string): void {
+    const matches = (entry: KVCacheEntry) => entry.key === key && (!modelFingerprint || entry.modelFingerprint === modelFingerprint)
+    for (const entry of this.entries.filter(matches)) {
+      fs.rmSync(this.getFilePath(entry), { force: true })
+    }
+    this.entries = this.entries.filter(entry => !matches(entry))
+    this.writeIndex()
+  }
+
+  // Removes least recently used states until the total fits
+  evict(maxBytes: number): void {
+    const byAge = [...this.entries].sort((a, b) => a.lastUsed - b.lastUsed)
+    let total = this.getUsedBytes()
+    for (const entry of byAge) {
+      if (total <= maxBytes) break
+      fs.rmSync(this.getFilePath(entry), { force: true })
+      this.entries = this.entries.filter(existing => existing !== entry)
+      total -= entry.fileSize
+      console.log(`Evicted KV cache ${entry.key} (${(entry.fileSize / 1024 / 1024).toFixed(1)}MB)`)
+    }
+    this.writeIndex()
+  }
+
+  getUsedBytes(): number {
+    return this.entries.reduce((sum, entry) => sum + entry.fileSize, 0)
+  }
+
+  count(): number {
+    return this.entries.length
+  }
+
+  clear(): void {
+    fs.rmSync(this.dir, { recursive: true, force: true })
+    this.entries = []
+  }
+}
@@ -1,4 +1,4 @@
-import { Agent } from './agent-service.js'
+import { Agent, getAgentGenerationOptions } from './agent-service.js'
 import { LLMService } from './llm-service.js'
 
 interface ToolCall {
@@ -387,7 +387,9 @@ Instructions:
       const contextPrompt = this.buildLLMPrompt(message)
       
       // Get response from LLM
-      const response = await this.llmService.chat(contextPrompt)
+      const response = await this.llmService.chat(contextPrompt, {
+        generation: getAgentGenerationOptions(this.currentAgent)
+      })
       
       // Add to conversation history
       this.conversationHistory.push({
@@ -449,7 +451,9 @@ Instructions:
 
 Respond naturally and conversationally as ${this.currentAgent.name}, confirming what you accomplished. Be friendly, show some personality, and ask if there's anything else you can help with. Keep it concise but warm and human-like.`
       
-      const response = await this.llmService.chat(contextPrompt)
+      const response = await this.llmService.chat(contextPrompt, {
+        generation: getAgentGenerationOptions(this.currentAgent)
+      })
       
       // Add final response to history
       this.conversationHistory.push({
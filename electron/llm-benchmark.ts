@@ -0,0 +1,182 @@
+import fs from 'fs'
+import path from 'path'
+import { app } from 'electron'
+
+// Fixed prompts so runs are comparable across settings, models and machines
+export const BENCHMARK_PROMPTS = [
+  'Explain in two sentences why the sky is blue.',
+  'Write a short Python function that checks whether a string is a palindrome, then describe how it works.',
+  'Summarize the following notes as a bulleted list:\n' +
+    'The team met on Monday to review the quarterly roadmap. Search latency regressed after the index migration ' +
+    'and needs a fix before the next release. The mobile app crash rate dropped by half thanks to the new error ' +
+    'boundary. Hiring is on track for two backend engineers. The design system refresh slips to next quarter ' +
+    'because the icon set is not finished. Customer support asked for better export options in the reports page.'
+]
+
+// Tokens generated per prompt; enough for a stable rate without making a sweep take forever
+const GENERATION_TOKENS = 48
+const MEMORY_SAMPLE_INTERVAL_MS = 100
+const MAX_STORED_RESULTS = 100
+
+export interface BenchmarkSettings {
+  threads: number
+  batchSize: number
+  contextSize: number
+  gpuLayers: number
+}
+
+export interface BenchmarkResult extends BenchmarkSettings {
+  id: string
+  createdAt: string
+  modelName: string
+  profile: string
+  tuningRunId?: string // shared by every result of one auto-tune sweep
+  promptTokens: number
+  generatedTokens: number
+  promptTokensPerSecond: number
+  generationTokensPerSecond: number
+  timeToFirstTokenMs: number // averaged over the prompt set
+  peakMemoryBytes: number // process RSS, which includes the memory-mapped weights that were touched
+  durationMs: number
+}
+
+export interface BenchmarkProgress {
+  phase: 'benchmark' | 'tuning'
+  step: number
+  totalSteps: number
+  message: string
+  result?: BenchmarkResult
+}
+
+export type BenchmarkMeasurement = Omit<BenchmarkResult, 'id' | 'createdAt' | 'modelName' | 'profile' | 'tuningRunId'>
+
+// Expected seconds for a typical 128-token reply; lower is better and balances prompt and generation speed
+export function estimateReplySeconds(result: Pick<BenchmarkResult, 'timeToFirstTokenMs' | 'generationTokensPerSecond'>): number {
+  return result.timeToFirstTokenMs / 1000 + 128 / Math.max(result.generationTokensPerSecond, 0.01)
+}
+
+// Runs the prompt set on a throwaway context so the chat session's history is left alone
+export async function measureSettings(model: any, settings: BenchmarkSettings, signal?: AbortSignal): Promise<BenchmarkMeasurement> {
+  let peakMemoryBytes = process.memoryUsage().rss
+  const sampler = setInterval(() => {
+    peakMemoryBytes = Math.max(peakMemoryBytes, process.memoryUsage().rss)
+  }, MEMORY_SAMPLE_INTERVAL_MS)
+
+  const context = await model.createContext({
+    sequences: 1,
+    contextSize: settings.contextSize,
+    batchSize: settings.batchSize,
+    threads: settings.threads
+  })
+
+  const startedAt = Date.now()
+  let promptTokens = 0
+  let generatedTokens = 0
+  let promptMs = 0
+  let generationMs = 0
+  let firstTokenMsTotal = 0
+
+  try {
+    const sequence = context.getSequence()
+    for (const prompt of BENCHMARK_PROMPTS) {
+      if (signal?.aborted) {
+        throw new Error('Benchmark cancelled')
+      }
+      await sequence.clearHistory()
+
+      const tokens = model.tokenize(prompt)
+      const promptStart = performance.now()
+      let firstTokenAt: number | null = null
+      let count = 0
+
+      // The first yielded token marks the end of prompt processing
+      for await (const token of sequence.evaluate(tokens, { temperature: 0 })) {
+        if (firstTokenAt === null) {
+          firstTokenAt = performance.now()
+        }
+        count++
+        if (count >= GENERATION_TOKENS || model.isEogToken(token) || signal?.aborted) {
+          break
+        }
+      }
+      const end = performance.now()
+
+      const ttft = (firstTokenAt ?? end) - promptStart
+      promptTokens += tokens.length
+      promptMs += ttft
+      firstTokenMsTotal += ttft
+      // The first token is counted as part of prompt processing
+      generatedTokens += Math.max(count - 1, 0)
+      generationMs += end - (firstTokenAt ?? end)
+    }
+  } finally {
+    clearInterval(sampler)
+    await context.dispose()
+  }
+
+  return {
+    ...settings,
+    promptTokens,
+    generatedTokens,
+    promptTokensPerSecond: promptMs > 0 ? Math.round((promptTokens / promptMs) * 1000 * 10) / 10 : 0,
+    generationTokensPerSecond: generationMs > 0 ? Math.round((generatedTokens / generationMs) * 1000 * 10) / 10 : 0,
+    timeToFirstTokenMs: Math.round(firstTokenMsTotal / BENCHMARK_PROMPTS.length),
+    peakMemoryBytes,
+    durationMs: Date.now() - startedAt
+  }
+}
+
+// Thread counts worth trying on this machine, smallest first
+export function getThreadCandidates(cpuCount: number): number[] {
+  const candidates = [Math.floor(cpuCount / 4), Math.floor(cpuCount / 2), Math.floor(cpuCount * 0.75), cpuCount]
+  return [...new Set(candidates.filter(threads => threads >= 1))].sort((a, b) => a - b)
+}
+
+export function getBatchCandidates(contextSize: number): number[] {
+  return [128, 256, 512, 1024, 2048].filter(batchSize => batchSize <= contextSize)
+}
+
+// Past results in userData/benchmarks.json, newest last
+export class BenchmarkStore {
+  private filePath: string
+  private results: BenchmarkResult[]
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || path.join(app.getPath('userData'), 'benchmarks.json')
+    this.results = this.read()
+  }
+
+  private read(): BenchmarkResult[] {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return []
+      }
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      console.error('Failed to read benchmark results:', error)
+      return []
+    }
+  }
+
+  getAll(): BenchmarkResult[] {
+    return [...this.results]
+  }
+
+  add(result: BenchmarkResult): void {
+    this.results = [...this.results, result].slice(-MAX_STORED_RESULTS)
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tempPath = `${this.filePath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(this.results, null, 2))
+      fs.renameSync(tempPath, this.filePath)
+    } catch (error) {
+      console.error('Failed to save benchmark results:', error)
+    }
+  }
+
+  clear(): void {
+    this.results = []
+    fs.rmSync(this.filePath, { force: true })
+  }
+}
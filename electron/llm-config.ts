@@ -7,7 +7,52 @@ export interface LLMConfig {
   threads: number
   batchSize: number
   contextSize: number
-  profile: PerformanceProfile
+  flashAttention?: boolean
+  useMmap?: boolean
+  useMlock?: boolean
+  sequences?: number // parallel context sequences, each with its own KV cache; defaults to 1
+  draftModel?: string // small model of the same family for speculative decoding, in the models directory
+  draftTokens?: number // most tokens drafted ahead per step
+  profile: string // a built-in PerformanceProfile or the name of a custom profile
+}
+
+// A named set of load settings defined by the user
+export interface CustomProfile {
+  name: string
+  description?: string
+  gpuLayers: number
+  threads: number
+  batchSize: number
+  contextSize: number
+  flashAttention: boolean
+  useMmap: boolean
+  useMlock: boolean
+  draftModel?: string
+  draftTokens?: number
+}
+
+export const DEFAULT_DRAFT_TOKENS = 8
+
+const BUILTIN_PROFILES: PerformanceProfile[] = ['auto', 'extreme', 'maximum', 'performance', 'balanced', 'cpu-only']
+
+// Per-request sampling parameters; anything left undefined uses the backend's default
+export interface GenerationOptions {
+  temperature?: number
+  topP?: number
+  topK?: number
+  repeatPenalty?: number
+  maxTokens?: number
+  seed?: number // same seed + same prompt + same model = same output
+}
+
+export interface HardwareInfo {
+  platform: string
+  arch: string
+  cpuCount: number
+  memoryGB: number
+  isAppleSilicon: boolean
+  isARM: boolean
+  autoProfile: PerformanceProfile // what 'auto' resolves to on this machine
 }
 
 export class LLMConfigManager {
@@ -27,6 +72,29 @@ export class LLMConfigManager {
     return Math.round(os.totalmem() / (1024 ** 3))
   }
 
+  // Best built-in profile for this machine's memory and CPU
+  private static detectAutoProfile(): PerformanceProfile {
+    const memoryGB = this.getTotalMemoryGB()
+    const isAppleSilicon = this.isAppleSilicon()
+    if (isAppleSilicon && memoryGB >= 32) return 'extreme'
+    if (isAppleSilicon && memoryGB >= 16) return 'maximum'
+    if (isAppleSilicon && memoryGB >= 8) return 'performance'
+    if (this.isARM() || memoryGB >= 8) return 'balanced'
+    return 'cpu-only'
+  }
+
+  static getHardwareInfo(): HardwareInfo {
+    return {
+      platform: process.platform,
+      arch: process.arch,
+      cpuCount: this.getCPUCount(),
+      memoryGB: this.getTotalMemoryGB(),
+      isAppleSilicon: this.isAppleSilicon(),
+      isARM: this.isARM(),
+      autoProfile: this.detectAutoProfile()
+    }
+  }
+
   static getOptimalConfig(profile: PerformanceProfile = 'auto'): LLMConfig {
     const cpuCount = this.getCPUCount()
     const memoryGB = this.getTotalMemoryGB()
@@ -44,17 +112,7 @@ export class LLMConfigManager {
 
     // Auto-detect best profile
     if (profile === 'auto') {
-      if (isAppleSilicon && memoryGB >= 32) {
-        profile = 'extreme'
-      } else if (isAppleSilicon && memoryGB >= 16) {
-        profile = 'maximum'
-      } else if (isAppleSilicon && memoryGB >= 8) {
-        profile = 'performance'
-      } else if (isARM || memoryGB >= 8) {
-        profile = 'balanced'
-      } else {
-        profile = 'cpu-only'
-      }
+      profile = this.detectAutoProfile()
       console.log(`Auto-selected profile: ${profile}`)
     }
 
@@ -125,6 +183,70 @@ export class LLMConfigManager {
     return config
   }
 
+  static isBuiltinProfile(name: string): name is PerformanceProfile {
+    return (BUILTIN_PROFILES as string[]).includes(name)
+  }
+
+  // Rejects values no backend accepts and clamps ones this machine can't honour, reporting each change
+  static validateCustomProfile(profile: CustomProfile): { profile: CustomProfile; warnings: string[] } {
+    const warnings: string[] = []
+    const name = typeof profile.name === 'string' ? profile.name.trim() : ''
+    if (!name || name.length > 40) {
+      throw new Error('Profile name must be 1-40 characters')
+    }
+    if (this.isBuiltinProfile(name)) {
+      throw new Error(`"${name}" is a built-in profile name`)
+    }
+
+    const checkInteger = (field: 'gpuLayers' | 'threads' | 'batchSize' | 'contextSize', min: number, max: number) => {
+      const value = profile[field]
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        throw new Error(`Invalid ${field}: expected an integer between ${min} and ${max}, got ${value}`)
+      }
+    }
+    checkInteger('gpuLayers', 0, 999)
+    checkInteger('threads', 1, 256)
+    checkInteger('contextSize', 256, 262144)
+    checkInteger('batchSize', 1, profile.contextSize)
+
+    const draftModel = typeof profile.draftModel === 'string' ? profile.draftModel.trim() : ''
+    if (draftModel && (!draftModel.endsWith('.gguf') || /[\\/]/.test(draftModel))) {
+      throw new Error(`Invalid draftModel: expected a .gguf filename, got ${draftModel}`)
+    }
+    const draftTokens = profile.draftTokens ?? DEFAULT_DRAFT_TOKENS
+    if (draftModel && (!Number.isInteger(draftTokens) || draftTokens < 1 || draftTokens > 32)) {
+      throw new Error(`Invalid draftTokens: expected an integer between 1 and 32, got ${draftTokens}`)
+    }
+
+    const hardware = this.getHardwareInfo()
+    const validated: CustomProfile = {
+      name,
+      description: profile.description?.trim() || undefined,
+      gpuLayers: profile.gpuLayers,
+      threads: profile.threads,
+      batchSize: profile.batchSize,
+      contextSize: profile.contextSize,
+      flashAttention: !!profile.flashAttention,
+      useMmap: profile.useMmap !== false,
+      useMlock: !!profile.useMlock,
+      draftModel: draftModel || undefined,
+      draftTokens: draftModel ? draftTokens : undefined
+    }
+
+    if (validated.threads > hardware.cpuCount) {
+      warnings.push(`threads reduced from ${validated.threads} to ${hardware.cpuCount}, the number of cpu cores`)
+      validated.threads = hardware.cpuCount
+    }
+    if (validated.gpuLayers > 0 && !hardware.isAppleSilicon) {
+      warnings.push('gpu offload is only tuned for apple silicon; it falls back to cpu if no supported gpu is found')
+    }
+    if (validated.useMlock) {
+      warnings.push('mlock keeps the whole model in ram and can fail if the os limits locked memory')
+    }
+
+    return { profile: validated, warnings }
+  }
+
   static getProfileDescription(profile: PerformanceProfile): string {
     switch (profile) {
       case 'auto':
@@ -155,12 +277,34 @@ export class LLMConfigManager {
     ]
   }
 
-  static createCustomConfig(overrides: Partial<LLMConfig>): LLMConfig {
+  // Rejects out-of-range values up front instead of letting the backend fail mid-request
+  static normalizeGenerationOptions(options: GenerationOptions = {}): GenerationOptions {
+    const normalized: GenerationOptions = {}
+    const check = (name: keyof GenerationOptions, valid: (value: number) => boolean, expected: string) => {
+      const value = options[name]
+      if (value === undefined || value === null) return
+      if (typeof value !== 'number' || !Number.isFinite(value) || !valid(value)) {
+        throw new Error(`Invalid generation option "${name}": expected ${expected}, got ${value}`)
+      }
+      normalized[name] = value
+    }
+
+    check('temperature', v => v >= 0 && v <= 2, 'a number between 0 and 2')
+    check('topP', v => v > 0 && v <= 1, 'a number between 0 (exclusive) and 1')
+    check('topK', v => Number.isInteger(v) && v >= 0, 'a non-negative integer')
+    check('repeatPenalty', v => v >= 0 && v <= 2, 'a number between 0 and 2')
+    check('maxTokens', v => Number.isInteger(v) && v > 0, 'a positive integer')
+    check('seed', v => Number.isInteger(v) && v >= 0, 'a non-negative integer')
+
+    return normalized
+  }
+
+  static createCustomConfig(overrides: Partial<LLMConfig>, name: string = 'custom'): LLMConfig {
     const baseConfig = this.getOptimalConfig('auto')
     return {
       ...baseConfig,
       ...overrides,
-      profile: 'auto' // Mark as custom
+      profile: name
     }
   }
 }
@@ -1,30 +1,192 @@
 import path from 'path'
 import os from 'os'
+import { EventEmitter } from 'events'
 import { app } from 'electron'
-import { LLMConfigManager, type PerformanceProfile } from './llm-config.js'
+import { v4 as uuidv4 } from 'uuid'
+import { LLMConfigManager, DEFAULT_DRAFT_TOKENS, type LLMConfig, type CustomProfile, type GenerationOptions } from './llm-config.js'
+import { ChatSessionManager, DEFAULT_CONVERSATION_ID } from './chat-session-manager.js'
+import type { ConversationDatabaseService } from './conversation-service.js'
+import type { Agent } from './agent-service.js'
+import { LLMSettingsStore } from './llm-settings.js'
+import { ModelCatalogService } from './model-catalog.js'
+import { readGGUFMetadata, estimateModelMemoryBytes, checkAdapterFit, type GGUFModelMetadata } from './gguf-metadata.js'
+import { planModelLoad, type LoadPlan, type MemoryBudget } from './load-planner.js'
+import {
+  BenchmarkStore,
+  measureSettings,
+  estimateReplySeconds,
+  getThreadCandidates,
+  getBatchCandidates,
+  type BenchmarkResult,
+  type BenchmarkSettings,
+  type BenchmarkProgress
+} from './llm-benchmark.js'
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  countHistoryTokens,
+  countMessageTokens,
+  formatTranscript,
+  getItemText,
+  trimHistory,
+  type ContextSettings,
+  type ContextUsage
+} from './context-manager.js'
+import {
+  KVCacheStore,
+  DEFAULT_KV_CACHE_SETTINGS,
+  getModelFingerprint,
+  getConversationKey,
+  getPrefixKey,
+  getPromptHash,
+  type KVCacheSettings,
+  type KVCacheInfo
+} from './kv-cache-store.js'
+import {
+  RequestScheduler,
+  DEFAULT_SCHEDULER_SETTINGS,
+  type RequestPriority,
+  type SchedulerSettings,
+  type SchedulerStats
+} from './request-scheduler.js'
+import {
+  createChatWrapper,
+  detectChatTemplate,
+  validateChatTemplateSetting,
+  toPreviewHistory,
+  type ChatTemplateSetting,
+  type ChatTemplateInfo,
+  type PromptPreview,
+  type PromptPreviewMessage
+} from './chat-templates.js'
 
-export class LLMService {
+export interface ChatOptions {
+  // Called with each chunk of generated text as soon as the model produces it
+  onToken?: (token: string) => void
+  // Caller-chosen ID so the generation can be stopped later via cancel()
+  requestId?: string
+  // Aborting stops generation and resolves with whatever text was produced so far
+  signal?: AbortSignal
+  // Which conversation's history to continue; defaults to an in-memory shared conversation
+  conversationId?: string
+  // Sampling parameters for this request only
+  generation?: GenerationOptions
+  // Local UI requests are scheduled before relayed ones; defaults to 'interactive'
+  priority?: RequestPriority
+  // Requests are shared round-robin between sources, e.g. one per peer; defaults to 'local'
+  source?: string
+  // Called while the request waits for a free sequence (1 = next) and with 0 once it starts
+  onQueuePosition?: (position: number) => void
+  // Replaces the conversation's system prompt and history before generating, e.g. with the context
+  // a peer sends along with a relayed request. Only for conversations that aren't stored.
+  history?: RemoteChatMessage[]
+  // Text the reply is forced to start with, e.g. a partial answer from a backend that failed.
+  // It is part of the returned and stored reply but not passed to onToken again.
+  responsePrefix?: string
+}
+
+export type StructuredOutputErrorCode = 'invalid_schema' | 'invalid_output' | 'cancelled'
+
+// Thrown by chatStructured so callers can tell a bad schema from a bad generation
+export class StructuredOutputError extends Error {
+  code: StructuredOutputErrorCode
+  raw?: string
+
+  constructor(code: StructuredOutputErrorCode, message: string, raw?: string) {
+    super(message)
+    this.name = 'StructuredOutputError'
+    this.code = code
+    this.raw = raw
+  }
+}
+
+export interface ActiveAdapter {
+  filename: string // inside the models/adapters directory
+  scale: number
+}
+
+// Emitted as 'model-load' whenever a chat model is (re)loaded
+export interface ModelLoadEvent {
+  status: 'loading' | 'loaded' | 'error'
+  modelName: string
+  progress?: number // 0..1 while loading
+  error?: string
+}
+
+export interface RemoteChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// Speculative decoding counters since the model loaded, plus the speed of the latest reply
+export interface SpeculativeStats {
+  enabled: boolean
+  draftModel?: string
+  draftTokens?: number
+  disabledReason?: string // why a configured draft model isn't being used
+  validated: number // drafted tokens the main model accepted
+  refuted: number // drafted tokens it rejected
+  acceptanceRate?: number // validated / (validated + refuted)
+  lastTokensPerSecond?: number // tokens generated per second after the first one, drafting included
+  lastGeneratedTokens?: number
+}
+
+// One context sequence with its own chat session; conversations are switched in and out on demand
+interface SequenceSlot {
+  index: number
+  session: any
+  activeConversationId: string | null
+  lastUsed: number
+}
+
+export class LLMService extends EventEmitter {
   private llama: any = null
   private model: any = null
   private context: any = null
-  private session: any = null
+  private slots: SequenceSlot[] = []
   private isInitialized = false
   private modelPath: string | null = null
   private config: LLMConfigManager
   private currentSystemPrompt: string = "You are a helpful, friendly AI assistant with personality. Be conversational and natural - like talking to a knowledgeable friend. Show enthusiasm, use casual language when appropriate, and don't be overly formal or robotic. Keep responses concise but engaging. When role-playing as specific agents or characters, fully embody their personality and expertise."
-  private performanceProfile: PerformanceProfile = 'balanced' // Use balanced performance by default
+  private performanceProfile: string = 'balanced' // Use balanced performance by default
+  private activeLoadPlan: LoadPlan | null = null // how the loaded model was actually configured
   // Concurrency controls
   private initPromise: Promise<void> | null = null
   private reinitInProgress = false
-  private chatLock: Promise<any> = Promise.resolve()
+  // Assigns requests to sequence slots; model swaps and benchmarks run when all slots are idle
+  private scheduler: RequestScheduler
+  private activeRequests: Map<string, AbortController> = new Map()
+  // Conversation histories, shared by all slots
+  private sessions: ChatSessionManager
+  private settings: LLMSettingsStore
+  private catalog: ModelCatalogService
+  private benchmarks: BenchmarkStore
+  private benchmarkController: AbortController | null = null
+  // Saved context sequence states, so returning to a conversation skips re-evaluating it
+  private kvCache: KVCacheStore
+  private modelFingerprint: string | null = null
+  // LoRA adapter of the active agent; applies to every sequence since it is attached to the context
+  private activeAdapter: ActiveAdapter | null = null
+  private chatWrapper: any = null // formats history into prompt text for every session of the loaded model
+  // Small model that drafts tokens for the main one to verify in a single batch
+  private draftModel: any = null
+  private draftContext: any = null
+  private speculative: SpeculativeStats = { enabled: false, validated: 0, refuted: 0 }
 
-  constructor() {
+  constructor(conversationStore?: ConversationDatabaseService) {
+    super()
     this.config = new LLMConfigManager()
+    this.settings = new LLMSettingsStore()
+    this.performanceProfile = this.settings.get().performanceProfile || this.performanceProfile
+    this.catalog = new ModelCatalogService(this.settings)
+    this.benchmarks = new BenchmarkStore()
+    this.kvCache = new KVCacheStore(path.join(app.getPath('userData'), 'kv-cache'))
+    this.scheduler = new RequestScheduler(this.getSchedulerSettings())
+    this.sessions = new ChatSessionManager(this.currentSystemPrompt, conversationStore)
   }
 
   async findAvailableModel(): Promise<string | null> {
     try {
-      const { existsSync, readdirSync, statSync } = await import('fs')
+      const { existsSync, readdirSync } = await import('fs')
       const modelsDir = path.join(app.getPath('userData'), 'models')
       console.log('Looking for models in:', modelsDir)
       
@@ -34,108 +196,59 @@ export class LLMService {
         mkdirSync(modelsDir, { recursive: true })
         return null
       }
-      
-      // Enhanced model selection with performance tiers
-      const modelTiers = {
-        // Tier 1: Best conversational models (prioritize these)
-        conversational: [
-          'llama-3.2-3b-instruct-q4.gguf',
-          'llama-3.2-1b-instruct-q4.gguf', 
-          'qwen2.5-3b-instruct-q4_k_m.gguf',
-          'qwen2.5-1.5b-instruct-q4_k_m.gguf',
-          'qwen2.5-0.5b-instruct-q4.gguf',
-          'phi-3.5-mini-instruct-q4.gguf',
-          'phi-3-mini-4k-instruct-q4.gguf'
-        ],
-        
-        // Tier 2: High-quality larger models (if system can handle)
-        premium: [
-          'llama-3.2-8b-instruct-q4_k_m.gguf',
-          'mistral-nemo-12b-instruct-2407-q4_k_m.gguf',
-          'mistral-7b-instruct-v0.3.Q4_K_M.gguf',
-          'mistral-7b-instruct-v0.2.Q4_K_M.gguf',
-          'codellama-7b-instruct.Q4_K_M.gguf'
-        ],
-        
-        // Tier 3: Fast but basic (fallback for testing)
-        fallback: [
-          'tinyllama-1.1b-chat-v1.0.Q4_K_M.gguf'
-        ]
+
+      // A model the user picked explicitly always wins over the heuristics below
+      const { selectedModel } = this.settings.get()
+      if (selectedModel) {
+        const selectedPath = path.join(modelsDir, path.basename(selectedModel))
+        if (existsSync(selectedPath)) {
+          console.log(`Using selected model: ${selectedModel}`)
+          return selectedPath
+        }
+        console.warn(`Selected model ${selectedModel} is missing, falling back to automatic selection`)
       }
       
-      // Get system capabilities  
-      const memoryGB = Math.round(os.totalmem() / (1024 ** 3))
-      const isAppleSilicon = process.platform === 'darwin' && process.arch === 'arm64'
-      
-      // Select tier based on system capabilities
-      let searchOrder: string[] = []
-      if (isAppleSilicon && memoryGB >= 16) {
-        // High-end systems: try premium first, then conversational
-        searchOrder = [...modelTiers.premium, ...modelTiers.conversational, ...modelTiers.fallback]
-      } else if (memoryGB >= 8) {
-        // Mid-range systems: conversational models only
-        searchOrder = [...modelTiers.conversational, ...modelTiers.fallback]
-      } else {
-        // Low-end systems: fallback models only
-        searchOrder = [...modelTiers.fallback, ...modelTiers.conversational]
-      }
+      // Catalog models that fit this machine, best match first
+      const hardware = LLMConfigManager.getHardwareInfo()
+      const searchOrder = this.catalog.getScoredEntries()
+        .filter(entry => entry.compatibility !== 'incompatible')
+        .map(entry => entry.filename)
       
-      console.log(`System: ${isAppleSilicon ? 'Apple Silicon' : 'Other'}, RAM: ${memoryGB}GB`)
+      console.log(`System: ${hardware.isAppleSilicon ? 'Apple Silicon' : 'Other'}, RAM: ${hardware.memoryGB}GB`)
       console.log('Model search order:', searchOrder.slice(0, 3), '...')
       
       // Check for preferred models in order
       for (const modelFile of searchOrder) {
         const modelPath = path.join(modelsDir, modelFile)
         if (existsSync(modelPath)) {
-          try {
-            const stats = statSync(modelPath)
-            const sizeMB = stats.size / 1024 / 1024
-            
-            // Skip corrupted or incomplete models
-            if (sizeMB < 50) {
-              console.log(`Skipping ${modelFile}: too small (${sizeMB.toFixed(1)}MB)`)
-              continue
-            }
-            
-            console.log(`Selected model: ${modelFile} (${sizeMB.toFixed(1)}MB)`)
-            return modelPath
-          } catch (error) {
-            console.log(`Error checking ${modelFile}:`, error)
+          // Skip corrupted, incomplete or embedding-only models
+          const metadata = this.inspectChatModel(modelPath)
+          if (!metadata) {
             continue
           }
+          
+          console.log(`Selected model: ${modelFile} (${(metadata.fileSizeBytes / 1024 / 1024).toFixed(1)}MB)`)
+          return modelPath
         }
       }
       
-      // If no preferred model found, look for any valid .gguf file
+      // If no preferred model found, pick the largest valid .gguf that fits in memory
       try {
-        const files = readdirSync(modelsDir)
-        const ggufFiles = files
+        const { contextSize } = this.resolveProfileConfig(this.performanceProfile)
+        const memoryBudget = os.totalmem() * 0.75
+        const candidates = readdirSync(modelsDir)
           .filter(file => file.endsWith('.gguf'))
-          .map(file => {
-            try {
-              const filePath = path.join(modelsDir, file)
-              const stats = statSync(filePath)
-              return {
-                name: file,
-                path: filePath,
-                size: stats.size / 1024 / 1024
-              }
-            } catch {
-              return null
-            }
-          })
-          .filter(file => file && file.size >= 50) // Filter out corrupted files
-          .sort((a, b) => {
-            // Sort by size - prefer medium-sized models for better balance
-            const aScore = Math.abs(a!.size - 1000) // Prefer ~1GB models
-            const bScore = Math.abs(b!.size - 1000)
-            return aScore - bScore
-          })
+          .map(file => this.inspectChatModel(path.join(modelsDir, file)))
+          .filter((metadata): metadata is GGUFModelMetadata => !!metadata)
+          .map(metadata => ({ metadata, estimatedBytes: estimateModelMemoryBytes(metadata, contextSize) }))
+          .sort((a, b) => a.estimatedBytes - b.estimatedBytes)
         
-        if (ggufFiles.length > 0) {
-          const selected = ggufFiles[0]!
-          console.log(`Found GGUF model: ${selected.name} (${selected.size.toFixed(1)}MB)`)
-          return selected.path
+        const fitting = candidates.filter(candidate => candidate.estimatedBytes <= memoryBudget)
+        const selected = fitting.length > 0 ? fitting[fitting.length - 1] : candidates[0]
+        if (selected) {
+          const estimatedGB = (selected.estimatedBytes / 1024 ** 3).toFixed(1)
+          console.log(`Found GGUF model: ${selected.metadata.filename} (~${estimatedGB}GB estimated memory)`)
+          return path.join(modelsDir, selected.metadata.filename)
         }
       } catch (error) {
         console.log('Error reading models directory:', error)
@@ -148,9 +261,44 @@ export class LLMService {
     }
   }
 
-  async initialize() {
+  getModelCatalog(): ModelCatalogService {
+    return this.catalog
+  }
+
+  // Returns the header metadata if the file is a readable GGUF chat model, otherwise null
+  private inspectChatModel(modelPath: string): GGUFModelMetadata | null {
+    try {
+      const metadata = readGGUFMetadata(modelPath)
+      if (metadata.isEmbeddingModel) {
+        console.log(`Skipping ${metadata.filename}: embedding-only model (${metadata.architecture})`)
+        return null
+      }
+      if (metadata.adapter) {
+        console.log(`Skipping ${metadata.filename}: LoRA adapter, not a base model`)
+        return null
+      }
+      return metadata
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      console.log(`Skipping ${path.basename(modelPath)}: ${reason}`)
+      return null
+    }
+  }
+
+  async getModelMetadata(filename: string): Promise<GGUFModelMetadata & { estimatedMemoryBytes: number; contextSize: number }> {
+    const modelPath = path.join(app.getPath('userData'), 'models', path.basename(filename))
+    const metadata = readGGUFMetadata(modelPath)
+    const { contextSize } = this.resolveProfileConfig(this.getProfileForModel(filename))
+    return {
+      ...metadata,
+      contextSize,
+      estimatedMemoryBytes: estimateModelMemoryBytes(metadata, contextSize)
+    }
+  }
+
+  async initialize(modelPath?: string) {
     // Coalesce concurrent initialize() calls
-    if (this.isInitialized && this.session) {
+    if (this.isInitialized && this.slots.length > 0) {
       return
     }
     if (this.initPromise) {
@@ -160,14 +308,24 @@ export class LLMService {
       try {
         console.log('Initializing LLM service...')
         
-        // Find available model
-        this.modelPath = await this.findAvailableModel()
+        // Use the requested model, otherwise find an available one
+        this.modelPath = modelPath || await this.findAvailableModel()
         
         if (!this.modelPath) {
           throw new Error('No GGUF model found in models directory. Please download a model first.')
         }
         
         console.log('Loading model from:', this.modelPath)
+        const modelName = path.basename(this.modelPath)
+        this.emitModelLoad({ status: 'loading', modelName, progress: 0 })
+        let lastReportedProgress = 0
+        const onLoadProgress = (progress: number) => {
+          // node-llama-cpp reports very often; only forward whole-percent steps
+          if (progress - lastReportedProgress >= 0.01 || progress === 1) {
+            lastReportedProgress = progress
+            this.emitModelLoad({ status: 'loading', modelName, progress })
+          }
+        }
         
         // Dynamic import of node-llama-cpp
         const { getLlama } = await import('node-llama-cpp')
@@ -175,37 +333,56 @@ export class LLMService {
         // Get llama instance
         this.llama = await getLlama()
 
-      // Check if model file actually exists and is readable
-      const { existsSync, statSync } = await import('fs')
+      // Check if model file actually exists and has a valid GGUF header
+      const { existsSync } = await import('fs')
       if (!existsSync(this.modelPath)) {
         throw new Error(`Model file not found: ${this.modelPath}`)
       }
       
-      const stats = statSync(this.modelPath)
-      if (stats.size === 0) {
-        throw new Error(`Model file is empty or corrupted: ${this.modelPath}`)
+      let metadata: GGUFModelMetadata
+      try {
+        metadata = readGGUFMetadata(this.modelPath)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new Error(`Model file is corrupted or incomplete: ${this.modelPath} (${reason})`)
+      }
+      if (metadata.adapter) {
+        throw new Error(`${metadata.filename} is a LoRA adapter; attach it to an agent instead of loading it as a model`)
       }
       
-      const modelSizeMB = stats.size / 1024 / 1024
+      const modelSizeMB = metadata.fileSizeBytes / 1024 / 1024
       console.log(`Model file size: ${modelSizeMB.toFixed(2)} MB`)
+      console.log('Model metadata:', {
+        architecture: metadata.architecture,
+        parameters: metadata.parameterCount,
+        quantization: metadata.quantization,
+        contextLength: metadata.contextLength
+      })
       
-      // Warn about large models
-      if (modelSizeMB > 3000) {
-        console.warn(`Warning: Large model (${modelSizeMB.toFixed(0)}MB) may be slow on CPU. Consider using a smaller model for better performance.`)
-      }
+        // Check the weights plus KV cache fit before loading, downgrading the profile's config if needed
+        const profileName = this.getProfileForModel(modelName)
+        const requested = this.resolveLoadConfig(profileName)
+        const plan = planModelLoad(metadata, requested, await this.getMemoryBudget(), profileName, this.readDraftMetadata(requested))
+        console.log(`Load plan (${plan.fit}):`, plan.reasons)
+        if (!plan.canLoad) {
+          throw new Error(`Model ${modelName} won't fit in memory: ${plan.reasons.join('; ')}`)
+        }
 
         // Load model with error handling and timeout
         console.log('Loading model into memory...')
         const loadStartTime = Date.now()
         
-        // Get optimal configuration based on hardware
-        const config = LLMConfigManager.getOptimalConfig(this.performanceProfile)
-        console.log('Using performance profile:', this.performanceProfile)
+        const config = plan.config
+        console.log('Using performance profile:', profileName)
         console.log('LLM Configuration:', {
           gpuLayers: config.gpuLayers,
           threads: config.threads,
           batchSize: config.batchSize,
-          contextSize: config.contextSize
+          contextSize: config.contextSize,
+          sequences: config.sequences ?? 1,
+          flashAttention: !!config.flashAttention,
+          useMmap: config.useMmap !== false,
+          useMlock: !!config.useMlock
         })
         
         try {
@@ -215,6 +392,10 @@ export class LLMService {
               gpuLayers: config.gpuLayers, // GPU acceleration for Apple Silicon
               threads: config.threads, // Optimal thread count
               batchSize: config.batchSize, // Optimized batch size
+              useMmap: config.useMmap,
+              useMlock: config.useMlock,
+              defaultContextFlashAttention: config.flashAttention,
+              onLoadProgress
             }),
             new Promise((_, reject) => 
               setTimeout(() => reject(new Error('Model loading timeout (120s)')), 120000)
@@ -231,6 +412,8 @@ export class LLMService {
                 gpuLayers: 0, // Force CPU-only
                 threads: cpuConfig.threads,
                 batchSize: cpuConfig.batchSize,
+                useMmap: config.useMmap,
+                onLoadProgress
               }),
               new Promise((_, reject) => 
                 setTimeout(() => reject(new Error('Model loading timeout (120s)')), 120000)
@@ -249,33 +432,23 @@ export class LLMService {
         throw new Error('Failed to load model - model instance is null')
       }
 
-      console.log('Creating model context...')
-      this.context = await this.model.createContext({
-        sequences: 1,
-        contextSize: config.contextSize, // Dynamic context size based on profile
-      })
-
-      if (!this.context) {
-        throw new Error('Failed to create model context')
-      }
-
-      console.log('Initializing chat session...')
-      const { LlamaChatSession } = await import('node-llama-cpp')
-      this.session = new LlamaChatSession({
-        contextSequence: this.context.getSequence(),
-        systemPrompt: this.currentSystemPrompt
-      })
-
-      if (!this.session) {
-        throw new Error('Failed to create chat session')
-      }
+      await this.loadDraftModel(plan)
+      await this.createContext(config)
 
+        this.activeLoadPlan = plan
         this.isInitialized = true
+        this.scheduler.setSlotCount(this.slots.length)
         console.log('LLM service initialized successfully')
-        console.log(`Model loaded: ${path.basename(this.modelPath)}`)
+        console.log(`Model loaded: ${modelName}`)
+        this.emitModelLoad({ status: 'loaded', modelName, progress: 1 })
         
       } catch (error) {
         console.error('Failed to initialize LLM service:', error)
+        this.emitModelLoad({
+          status: 'error',
+          modelName: this.modelPath ? path.basename(this.modelPath) : '',
+          error: error instanceof Error ? error.message : String(error)
+        })
         this.cleanup()
         throw error
       }
@@ -288,6 +461,181 @@ export class LLMService {
     }
   }
 
+  // Creates the context and one chat session per sequence, with the active LoRA adapter if it fits the model
+  private async createContext(config: LLMConfig): Promise<void> {
+    let adapterPath: string | undefined
+    if (this.activeAdapter) {
+      adapterPath = this.getAdapterPath(this.activeAdapter.filename)
+      const fit = checkAdapterFit(readGGUFMetadata(adapterPath), readGGUFMetadata(this.modelPath!))
+      if (!fit.fits) {
+        console.warn(`Not applying adapter ${this.activeAdapter.filename}: ${fit.reason}`)
+        this.activeAdapter = null
+        adapterPath = undefined
+      }
+    }
+
+    console.log('Creating model context...', this.activeAdapter ? { adapter: this.activeAdapter.filename, scale: this.activeAdapter.scale } : {})
+    this.context = await this.model.createContext({
+      sequences: config.sequences ?? 1,
+      contextSize: config.contextSize, // Dynamic context size based on profile
+      batchSize: config.batchSize,
+      threads: config.threads,
+      flashAttention: config.flashAttention,
+      lora: this.activeAdapter ? { adapters: [{ filePath: adapterPath!, scale: this.activeAdapter.scale }] } : undefined
+    })
+
+    if (!this.context) {
+      throw new Error('Failed to create model context')
+    }
+
+    const tokenPredictor = await this.createDraftPredictorFactory(config)
+    const sequences = Array.from({ length: config.sequences ?? 1 }, () =>
+      this.context.getSequence(tokenPredictor ? { tokenPredictor: tokenPredictor() } : undefined)
+    )
+    await this.createSessions(sequences)
+  }
+
+  private readDraftMetadata(config: LLMConfig): GGUFModelMetadata | undefined {
+    if (!config.draftModel) return undefined
+    try {
+      return readGGUFMetadata(path.join(app.getPath('userData'), 'models', path.basename(config.draftModel)))
+    } catch (error) {
+      console.warn(`Draft model ${config.draftModel} is unreadable:`, error)
+      return undefined
+    }
+  }
+
+  // Loads the profile's draft model if the load plan kept it. Any failure only turns speculative
+  // decoding off; the main model still loads.
+  private async loadDraftModel(plan: LoadPlan): Promise<void> {
+    const { requested, config } = plan
+    this.speculative = { enabled: false, validated: 0, refuted: 0, draftModel: requested.draftModel }
+    if (!config.draftModel) {
+      if (requested.draftModel) {
+        this.speculative.disabledReason = plan.reasons
+          .find(reason => reason.startsWith('speculative decoding off'))
+          ?.replace('speculative decoding off, ', '')
+      }
+      return
+    }
+
+    const draftPath = path.join(app.getPath('userData'), 'models', path.basename(config.draftModel))
+    try {
+      console.log(`Loading draft model ${config.draftModel} for speculative decoding...`)
+      this.draftModel = await this.llama.loadModel({
+        modelPath: draftPath,
+        gpuLayers: config.gpuLayers,
+        useMmap: config.useMmap
+      })
+      // Metadata matched; make sure both actually split text into the same token ids
+      const sample = 'Hello, world! Speculative decoding compares token ids: 12345 ünïcödé 🙂'
+      const same = (a: number[], b: number[]) => a.length === b.length && a.every((token, index) => token === b[index])
+      if (!same(Array.from(this.model.tokenize(sample)), Array.from(this.draftModel.tokenize(sample)))) {
+        throw new Error('its vocabulary tokenizes text differently from the main model')
+      }
+      this.speculative = {
+        ...this.speculative,
+        enabled: true,
+        draftTokens: config.draftTokens ?? DEFAULT_DRAFT_TOKENS
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      console.warn(`Not using draft model ${config.draftModel}: ${reason}`)
+      this.speculative.disabledReason = reason
+      this.disposeDraftModel()
+    }
+  }
+
+  // A new draft context mirrors the main context's sequences; returns a predictor per sequence
+  private async createDraftPredictorFactory(config: LLMConfig): Promise<(() => any) | null> {
+    if (this.draftContext) {
+      await this.draftContext.dispose()
+      this.draftContext = null
+    }
+    if (!this.draftModel) return null
+
+    try {
+      this.draftContext = await this.draftModel.createContext({
+        sequences: config.sequences ?? 1,
+        contextSize: config.contextSize,
+        batchSize: config.batchSize,
+        threads: config.threads
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      console.warn('Could not create the draft context, speculative decoding off:', reason)
+      this.speculative = { ...this.speculative, enabled: false, disabledReason: reason }
+      this.disposeDraftModel()
+      return null
+    }
+
+    const { DraftSequenceTokenPredictor } = await import('node-llama-cpp')
+    const maxTokens = config.draftTokens ?? DEFAULT_DRAFT_TOKENS
+    return () => new DraftSequenceTokenPredictor(this.draftContext.getSequence(), { maxTokens })
+  }
+
+  private disposeDraftModel(): void {
+    try {
+      this.draftContext?.dispose()
+      this.draftModel?.dispose()
+    } catch (error) {
+      console.warn('Error disposing draft model:', error)
+    }
+    this.draftContext = null
+    this.draftModel = null
+  }
+
+  getSpeculativeStats(): SpeculativeStats {
+    const total = this.speculative.validated + this.speculative.refuted
+    return { ...this.speculative, acceptanceRate: total > 0 ? this.speculative.validated / total : undefined }
+  }
+
+  // Adds the slot's prediction counters for one reply and its speed, then notifies listeners
+  private recordGenerationStats(
+    slot: SequenceSlot,
+    before: { validated: number; refuted: number } | undefined,
+    response: string,
+    firstTokenAt: number | null
+  ): void {
+    const after = slot.session.sequence.tokenPredictions
+    if (before && after) {
+      this.speculative.validated += after.validated - before.validated
+      this.speculative.refuted += after.refuted - before.refuted
+    }
+    const tokens = response ? this.countTokens(response) : 0
+    const seconds = firstTokenAt ? (Date.now() - firstTokenAt) / 1000 : 0
+    if (tokens > 1 && seconds > 0) {
+      this.speculative.lastGeneratedTokens = tokens
+      this.speculative.lastTokensPerSecond = Math.round(((tokens - 1) / seconds) * 10) / 10
+    }
+    this.emit('speculative-stats', this.getSpeculativeStats())
+  }
+
+  // One chat session per sequence using the model's chat template; conversations are re-activated on next use
+  private async createSessions(sequences: any[]): Promise<void> {
+    const setting = this.getChatTemplateSetting(path.basename(this.modelPath!))
+    this.chatWrapper = await createChatWrapper(setting, this.model, readGGUFMetadata(this.modelPath!).chatTemplate)
+    console.log(`Initializing ${sequences.length} chat session(s) with the ${this.chatWrapper.wrapperName} chat template...`)
+
+    const { LlamaChatSession } = await import('node-llama-cpp')
+    this.slots = sequences.map((contextSequence, index) => ({
+      index,
+      session: new LlamaChatSession({
+        contextSequence,
+        systemPrompt: this.currentSystemPrompt,
+        chatWrapper: this.chatWrapper
+      }),
+      activeConversationId: null,
+      lastUsed: 0
+    }))
+    // States evaluated with another template don't match this one's tokens
+    this.modelFingerprint = getModelFingerprint(
+      this.modelPath!,
+      this.activeAdapter ? { path: this.getAdapterPath(this.activeAdapter.filename), scale: this.activeAdapter.scale } : undefined,
+      setting.template === 'auto' ? undefined : JSON.stringify(setting)
+    )
+  }
+
   private cleanup() {
     try {
       if (this.context) {
@@ -298,8 +646,15 @@ export class LLMService {
         this.model.dispose()
         this.model = null
       }
-      this.session = null
+      this.disposeDraftModel()
+      this.speculative = { enabled: false, validated: 0, refuted: 0 }
+      this.slots = []
+      this.chatWrapper = null
+      this.activeLoadPlan = null
+      this.modelFingerprint = null
       this.isInitialized = false
+      // Requests wait one at a time for the next on-demand load
+      this.scheduler.setSlotCount(1)
     } catch (error) {
       console.error('Error during cleanup:', error)
     }
@@ -323,10 +678,184 @@ export class LLMService {
     }
   }
 
-  async chat(message: string): Promise<string> {
-    // Ensure single-file chat execution order to avoid overlapping prompts
+  // Unloads the current model and loads the chosen file, once any running generation has finished.
+  // The choice is remembered and used on the next start; on failure the previous model is restored.
+  async loadModel(filename: string): Promise<string> {
+    const { existsSync } = await import('fs')
+    const modelName = path.basename(filename)
+    if (!modelName.endsWith('.gguf')) {
+      throw new Error(`Not a GGUF model: ${modelName}`)
+    }
+    const modelPath = path.join(app.getPath('userData'), 'models', modelName)
+    if (!existsSync(modelPath)) {
+      throw new Error(`Model file not found: ${modelName}`)
+    }
+
+    const run = async () => {
+      if (this.initPromise) {
+        await this.initPromise.catch(() => {})
+      }
+
+      const previousPath = this.isInitialized ? this.modelPath : null
+      if (previousPath !== modelPath) {
+        console.log(`Switching model: ${previousPath ? path.basename(previousPath) : 'none'} -> ${modelName}`)
+        await this.saveAllConversationStates()
+        this.cleanup()
+        try {
+          await this.initialize(modelPath)
+        } catch (error) {
+          if (previousPath) {
+            console.log(`Restoring previous model ${path.basename(previousPath)}...`)
+            await this.initialize(previousPath).catch(restoreError => {
+              console.error('Failed to restore previous model:', restoreError)
+            })
+          }
+          throw error
+        }
+      }
+
+      this.settings.update({ selectedModel: modelName })
+      return modelName
+    }
+
+    // Waits for in-flight chats so a generation is never cut off by the swap
+    return this.scheduler.runExclusive(run)
+  }
+
+  // Filename of the model currently in memory, if any
+  getLoadedModelFile(): string | null {
+    return this.isInitialized && this.modelPath ? path.basename(this.modelPath) : null
+  }
+
+  // Frees the loaded model once any running generation has finished
+  async unloadModel(): Promise<void> {
+    const run = async () => {
+      if (this.initPromise) {
+        await this.initPromise.catch(() => {})
+      }
+      await this.unloadCurrentModel()
+    }
+
+    return this.scheduler.runExclusive(run)
+  }
+
+  // Runs a change to a model file (delete, rename) with that file out of memory. Done in the exclusive
+  // section so a load that is still in progress finishes first and no chat loads it meanwhile.
+  // Returns whether the file was loaded.
+  async releaseModelFile(filename: string, change: () => Promise<void>): Promise<boolean> {
     const run = async () => {
-      if (!this.isInitialized || !this.session) {
+      if (this.initPromise) {
+        await this.initPromise.catch(() => {})
+      }
+      const wasLoaded = !!this.modelPath && path.basename(this.modelPath) === filename
+      if (wasLoaded) {
+        await this.unloadCurrentModel()
+      }
+      await change()
+      return wasLoaded
+    }
+
+    return this.scheduler.runExclusive(run)
+  }
+
+  private async unloadCurrentModel(): Promise<void> {
+    if (this.model) {
+      console.log(`Unloading model: ${this.modelPath ? path.basename(this.modelPath) : 'unknown'}`)
+    }
+    await this.saveAllConversationStates()
+    this.cleanup()
+    this.modelPath = null
+  }
+
+  // Keeps the remembered model choice and profile assignment valid after a file is renamed (newName) or deleted (null)
+  updateSelectedModelFile(oldName: string, newName: string | null): void {
+    const { selectedModel, modelProfiles, chatTemplates } = this.settings.get()
+    if (selectedModel === oldName) {
+      this.settings.update({ selectedModel: newName || undefined })
+    }
+    if (modelProfiles?.[oldName]) {
+      const { [oldName]: profile, ...rest } = modelProfiles
+      this.settings.update({ modelProfiles: newName ? { ...rest, [newName]: profile } : rest })
+    }
+    if (chatTemplates?.[oldName]) {
+      const { [oldName]: template, ...rest } = chatTemplates
+      this.settings.update({ chatTemplates: newName ? { ...rest, [newName]: template } : rest })
+    }
+  }
+
+  private emitModelLoad(event: ModelLoadEvent): void {
+    this.emit('model-load', event)
+  }
+
+  async chat(message: string, options: ChatOptions = {}): Promise<string> {
+    const { response } = await this.generate(message, options)
+    return response
+  }
+
+  // Generates JSON constrained by a grammar built from the schema, then parses and validates it
+  async chatStructured<T = any>(message: string, jsonSchema: object, options: ChatOptions = {}): Promise<{ data: T; raw: string }> {
+    if (!this.isInitialized || !this.llama) {
+      await this.initialize()
+    }
+
+    let grammar: any
+    try {
+      grammar = await this.llama.createGrammarForJsonSchema(jsonSchema)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new StructuredOutputError('invalid_schema', `Unsupported JSON schema: ${reason}`)
+    }
+
+    // Extraction requests get a throwaway conversation unless the caller asks otherwise
+    const conversationId = options.conversationId || `structured:${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    let result: { response: string; aborted: boolean }
+    try {
+      result = await this.generate(message, { ...options, conversationId }, grammar)
+    } finally {
+      if (!options.conversationId) {
+        this.forgetConversation(conversationId)
+      }
+    }
+
+    const raw = result.response
+    if (result.aborted) {
+      throw new StructuredOutputError('cancelled', 'Structured generation was cancelled before the JSON was complete', raw)
+    }
+
+    try {
+      return { data: grammar.parse(raw) as T, raw }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new StructuredOutputError('invalid_output', `Model output does not match the schema: ${reason}`, raw)
+    }
+  }
+
+  private async generate(message: string, options: ChatOptions, grammar?: any): Promise<{ response: string; aborted: boolean }> {
+    const generation = LLMConfigManager.normalizeGenerationOptions(options.generation)
+
+    // One controller per request: fed by the caller's signal, cancel(requestId) and the timeout
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort()
+    if (options.signal?.aborted) {
+      controller.abort()
+    } else {
+      options.signal?.addEventListener('abort', forwardAbort, { once: true })
+    }
+    if (options.requestId) {
+      this.activeRequests.set(options.requestId, controller)
+    }
+    let started = false
+    const conversationId = options.conversationId || DEFAULT_CONVERSATION_ID
+
+    // Runs on a free sequence; the scheduler never runs two requests of one conversation at once
+    const run = async (slotIndex: number) => {
+      started = true
+      if (controller.signal.aborted) {
+        console.log('Chat request cancelled before it started')
+        return { response: '', aborted: true }
+      }
+
+      if (!this.isInitialized || this.slots.length === 0) {
         // Attempt to initialize on-demand
         await this.initialize()
       }
@@ -335,53 +864,153 @@ export class LLMService {
         throw new Error('Message cannot be empty')
       }
 
+      const slot = this.slots[slotIndex]
+      slot.lastUsed = Date.now()
+      if (options.history) {
+        this.replaceConversation(conversationId, options.history)
+      }
+
+      // Add timeout for chat responses (longer for larger models), including any summarizing of old turns.
+      // Aborting instead of racing lets node-llama-cpp stop and release the sequence.
+      const timeoutMs = 120000 // 2 minutes for larger models
+      const timeoutMessage = `Chat response timeout (${timeoutMs/1000}s) - model may be too large for your system`
+      let timedOut = false
+      const timeout = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeoutMs)
+
       try {
+        await this.activateConversation(slot, conversationId)
+        await this.fitConversationToContext(slot, conversationId, message.trim(), generation.maxTokens, controller.signal)
+
         console.log('Processing chat message...')
         const chatStartTime = Date.now()
+        const predictionsBefore = slot.session.sequence.tokenPredictions
+        let firstTokenAt: number | null = null
+        // node-llama-cpp echoes the response prefix as the first chunk
+        let skipPrefixChunk = !!options.responsePrefix
         
-        // Add timeout for chat responses (longer for larger models)
-        const timeoutMs = 120000 // 2 minutes for larger models
-        const response = await Promise.race([
-          this.session!.prompt(message.trim()),
-          new Promise<string>((_, reject) => 
-            setTimeout(() => reject(new Error(`Chat response timeout (${timeoutMs/1000}s) - model may be too large for your system`)), timeoutMs)
-          )
-        ])
+        const response: string = await slot.session.prompt(message.trim(), {
+          onTextChunk: (chunk: string) => {
+            if (skipPrefixChunk) {
+              skipPrefixChunk = false
+              return
+            }
+            if (firstTokenAt === null) firstTokenAt = Date.now()
+            options.onToken?.(chunk)
+          },
+          signal: controller.signal,
+          stopOnAbortSignal: true,
+          responsePrefix: options.responsePrefix,
+          grammar,
+          ...this.toPromptSamplingOptions(generation)
+        })
+
+        if (timedOut) {
+          throw new Error(timeoutMessage)
+        }
+
+        this.sessions.updateHistory(conversationId, slot.session.getChatHistory())
+        this.emitContextUsage(conversationId)
+        this.recordGenerationStats(slot, predictionsBefore && { ...predictionsBefore }, (response || '').slice(options.responsePrefix?.length || 0), firstTokenAt)
+
+        if (controller.signal.aborted) {
+          console.log(`Chat generation cancelled after ${response?.length || 0} characters`)
+          this.sessions.recordExchange(conversationId, message.trim(), (response || '').trim())
+          return { response: (response || '').trim(), aborted: true }
+        }
         
         if (!response || response.trim().length === 0) {
           throw new Error('Model returned empty response')
         }
+
+        this.sessions.recordExchange(conversationId, message.trim(), response.trim())
         
         const chatTime = ((Date.now() - chatStartTime) / 1000).toFixed(2)
         console.log(`Chat response generated successfully in ${chatTime} seconds`)
         console.log(`Response length: ${response.length} characters`)
         
-        return response.trim()
+        return { response: response.trim(), aborted: false }
         
       } catch (error) {
+        // Stop, cancel or the timeout can also land while old turns are being summarized
+        if (controller.signal.aborted) {
+          if (timedOut) throw new Error(timeoutMessage)
+          console.log('Chat request cancelled while preparing the conversation')
+          return { response: '', aborted: true }
+        }
         console.error('Chat error:', error)
         
-        // If there's a context/session error, try to reinitialize
+        // If there's a context/session error, reinitialize once the other sequences are idle
         const errorMessage = error instanceof Error ? error.message : String(error)
         if (errorMessage?.includes('context') || errorMessage?.includes('session')) {
-          console.log('Attempting to reinitialize LLM service...')
-          try {
-            await this.reinitialize()
-            throw new Error('Model was reinitialized. Please try your message again.')
-          } catch (reinitError) {
-            const reinitErrorMessage = reinitError instanceof Error ? reinitError.message : String(reinitError)
-            throw new Error(`Chat failed and reinitialize failed: ${reinitErrorMessage}`)
-          }
+          console.log('Reinitializing LLM service after running requests finish...')
+          this.scheduler.runExclusive(() => this.reinitialize()).catch(reinitError => {
+            console.error('Reinitialize failed:', reinitError)
+          })
+          throw new Error('Model is being reinitialized. Please try your message again.')
         }
         
         throw error
+      } finally {
+        clearTimeout(timeout)
       }
     }
 
-    // Serialize chats: chain onto previous lock
-    const resultPromise = this.chatLock.then(run)
-    this.chatLock = resultPromise.then(() => {}).catch(() => {})
-    return resultPromise
+    try {
+      return await this.scheduler.schedule(run, {
+        priority: options.priority,
+        source: options.source,
+        key: conversationId,
+        preferSlot: (free) => this.pickSlot(free, conversationId),
+        signal: controller.signal,
+        onQueuePosition: options.onQueuePosition
+      })
+    } catch (error) {
+      // A request cancelled while still queued resolves right away instead of waiting its turn
+      if (!started && controller.signal.aborted) {
+        return { response: '', aborted: true }
+      }
+      throw error
+    } finally {
+      options.signal?.removeEventListener('abort', forwardAbort)
+      if (options.requestId && this.activeRequests.get(options.requestId) === controller) {
+        this.activeRequests.delete(options.requestId)
+      }
+    }
+  }
+
+  // The slot that already holds the conversation, otherwise the least recently used one
+  private pickSlot(free: number[], conversationId: string): number | undefined {
+    const holding = free.find(index => this.slots[index]?.activeConversationId === conversationId)
+    if (holding !== undefined) {
+      return holding
+    }
+    return [...free].sort((a, b) => (this.slots[a]?.lastUsed ?? 0) - (this.slots[b]?.lastUsed ?? 0))[0]
+  }
+
+  private toPromptSamplingOptions(generation: GenerationOptions): Record<string, unknown> {
+    return {
+      temperature: generation.temperature,
+      topP: generation.topP,
+      topK: generation.topK,
+      seed: generation.seed,
+      maxTokens: generation.maxTokens,
+      repeatPenalty: generation.repeatPenalty !== undefined
+        ? { penalty: generation.repeatPenalty }
+        : undefined
+    }
+  }
+
+  cancel(requestId: string): boolean {
+    const controller = this.activeRequests.get(requestId)
+    if (!controller) {
+      return false
+    }
+    console.log(`Cancelling chat request ${requestId}`)
+    controller.abort()
+    return true
   }
 
   async getModelInfo(): Promise<{ 
@@ -464,32 +1093,757 @@ export class LLMService {
     }
   }
 
-  setPerformanceProfile(profile: PerformanceProfile): void {
+  setPerformanceProfile(profile: string): void {
+    if (!this.profileExists(profile)) {
+      throw new Error(`Unknown performance profile: ${profile}`)
+    }
     this.performanceProfile = profile
+    this.settings.update({ performanceProfile: profile })
     console.log(`Performance profile set to: ${profile}`)
   }
 
-  getPerformanceProfile(): PerformanceProfile {
+  getPerformanceProfile(): string {
     return this.performanceProfile
   }
 
-  getAvailableProfiles(): { name: PerformanceProfile; description: string }[] {
-    return LLMConfigManager.getAvailableProfiles()
+  getAvailableProfiles(): { name: string; description: string; custom?: boolean }[] {
+    const custom = this.getCustomProfiles().map(profile => ({
+      name: profile.name,
+      description: profile.description ||
+        `${profile.threads} threads, ${profile.contextSize} ctx, batch ${profile.batchSize}, ${profile.gpuLayers} gpu layers`,
+      custom: true
+    }))
+    return [...LLMConfigManager.getAvailableProfiles(), ...custom]
+  }
+
+  getCustomProfiles(): CustomProfile[] {
+    return this.settings.get().customProfiles || []
+  }
+
+  // Creates or replaces a custom profile; returns what was stored plus any hardware adjustments
+  saveCustomProfile(profile: CustomProfile): { profile: CustomProfile; warnings: string[] } {
+    const result = LLMConfigManager.validateCustomProfile(profile)
+    const others = this.getCustomProfiles().filter(existing => existing.name !== result.profile.name)
+    this.settings.update({ customProfiles: [...others, result.profile] })
+    console.log(`Saved custom profile: ${result.profile.name}`, result.warnings)
+    return result
+  }
+
+  // Removing a profile also drops its model assignments and resets the default if it was selected
+  deleteCustomProfile(name: string): void {
+    const { customProfiles = [], modelProfiles = {} } = this.settings.get()
+    this.settings.update({
+      customProfiles: customProfiles.filter(profile => profile.name !== name),
+      modelProfiles: Object.fromEntries(Object.entries(modelProfiles).filter(([, profile]) => profile !== name))
+    })
+    if (this.performanceProfile === name) {
+      this.setPerformanceProfile('balanced')
+    }
+  }
+
+  getModelProfiles(): { [filename: string]: string } {
+    return this.settings.get().modelProfiles || {}
+  }
+
+  // Pins a profile to a model file; null goes back to the default profile
+  setModelProfile(filename: string, profile: string | null): void {
+    const name = path.basename(filename)
+    if (profile && !this.profileExists(profile)) {
+      throw new Error(`Unknown performance profile: ${profile}`)
+    }
+    const { [name]: _previous, ...rest } = this.getModelProfiles()
+    this.settings.update({ modelProfiles: profile ? { ...rest, [name]: profile } : rest })
+    console.log(`Model ${name} profile: ${profile || 'default'}`)
+  }
+
+  private profileExists(name: string): boolean {
+    return LLMConfigManager.isBuiltinProfile(name) || this.getCustomProfiles().some(profile => profile.name === name)
+  }
+
+  private getProfileForModel(filename?: string): string {
+    const assigned = filename ? this.getModelProfiles()[path.basename(filename)] : undefined
+    return assigned && this.profileExists(assigned) ? assigned : this.performanceProfile
+  }
+
+  // Custom profiles are re-validated on every load since the settings file may come from another machine
+  private resolveProfileConfig(name: string): LLMConfig {
+    if (LLMConfigManager.isBuiltinProfile(name)) {
+      return LLMConfigManager.getOptimalConfig(name)
+    }
+    const custom = this.getCustomProfiles().find(profile => profile.name === name)
+    if (!custom) {
+      console.warn(`Performance profile ${name} no longer exists, using balanced`)
+      return LLMConfigManager.getOptimalConfig('balanced')
+    }
+    try {
+      const { profile, warnings } = LLMConfigManager.validateCustomProfile(custom)
+      warnings.forEach(warning => console.warn(`Profile ${name}: ${warning}`))
+      const { name: _name, description: _description, ...overrides } = profile
+      return LLMConfigManager.createCustomConfig(overrides, profile.name)
+    } catch (error) {
+      console.warn(`Custom profile ${name} is invalid, using balanced:`, error)
+      return LLMConfigManager.getOptimalConfig('balanced')
+    }
+  }
+
+  // A profile's config plus the sequence pool size, which is set separately from profiles
+  private resolveLoadConfig(name: string): LLMConfig {
+    return { ...this.resolveProfileConfig(name), sequences: this.getSchedulerSettings().sequences }
+  }
+
+  // The config the loaded model is running with, or what the current profile would use
+  getCurrentConfig(): LLMConfig {
+    return this.activeLoadPlan?.config ?? this.resolveLoadConfig(this.getProfileForModel(this.modelPath || undefined))
+  }
+
+  getBenchmarkResults(): BenchmarkResult[] {
+    return this.benchmarks.getAll()
+  }
+
+  clearBenchmarkResults(): void {
+    this.benchmarks.clear()
+  }
+
+  cancelBenchmark(): boolean {
+    if (!this.benchmarkController) {
+      return false
+    }
+    this.benchmarkController.abort()
+    return true
+  }
+
+  private emitBenchmarkProgress(progress: BenchmarkProgress): void {
+    this.emit('benchmark-progress', progress)
+  }
+
+  // Runs benchmark work between chat requests with the loaded model; only one benchmark at a time
+  private async runBenchmarkJob<T>(job: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    if (this.benchmarkController) {
+      throw new Error('A benchmark is already running')
+    }
+    const controller = new AbortController()
+    this.benchmarkController = controller
+
+    const run = async () => {
+      if (!this.isInitialized || !this.model) {
+        await this.initialize()
+      }
+      return job(controller.signal)
+    }
+
+    return this.scheduler.runExclusive(run).finally(() => {
+      this.benchmarkController = null
+    })
+  }
+
+  // Settings the loaded model is benchmarked with; prompts are short so the context is capped to save memory
+  private getBenchmarkBaseSettings(): BenchmarkSettings {
+    const config = this.getCurrentConfig()
+    return {
+      threads: config.threads,
+      batchSize: Math.min(config.batchSize, 2048),
+      contextSize: Math.min(config.contextSize, 2048),
+      gpuLayers: config.gpuLayers
+    }
+  }
+
+  private async measureAndStore(settings: BenchmarkSettings, signal: AbortSignal, tuningRunId?: string): Promise<BenchmarkResult> {
+    const measurement = await measureSettings(this.model, settings, signal)
+    const result: BenchmarkResult = {
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      modelName: this.modelPath ? path.basename(this.modelPath) : 'unknown',
+      profile: this.activeLoadPlan?.profile || this.performanceProfile,
+      tuningRunId,
+      ...measurement
+    }
+    this.benchmarks.add(result)
+    console.log(`Benchmark ${settings.threads} threads / batch ${settings.batchSize}:`, {
+      promptTokensPerSecond: result.promptTokensPerSecond,
+      generationTokensPerSecond: result.generationTokensPerSecond,
+      timeToFirstTokenMs: result.timeToFirstTokenMs
+    })
+    return result
+  }
+
+  // Measures prompt processing, generation speed, time-to-first-token and peak memory for the loaded model
+  async runBenchmark(overrides: Partial<Pick<BenchmarkSettings, 'threads' | 'batchSize'>> = {}): Promise<BenchmarkResult> {
+    return this.runBenchmarkJob(async (signal) => {
+      const settings = { ...this.getBenchmarkBaseSettings(), ...overrides }
+      this.emitBenchmarkProgress({ phase: 'benchmark', step: 0, totalSteps: 1, message: `running ${settings.threads} threads, batch ${settings.batchSize}` })
+      const result = await this.measureAndStore(settings, signal)
+      this.emitBenchmarkProgress({ phase: 'benchmark', step: 1, totalSteps: 1, message: 'done', result })
+      return result
+    })
+  }
+
+  // Sweeps thread counts, then batch sizes at the best thread count, and saves the fastest as a custom profile
+  async autoTune(): Promise<{ best: BenchmarkResult; results: BenchmarkResult[]; profile: CustomProfile; warnings: string[] }> {
+    const { best, results } = await this.runBenchmarkJob(async (signal) => {
+      const base = this.getBenchmarkBaseSettings()
+      const threadCandidates = getThreadCandidates(LLMConfigManager.getHardwareInfo().cpuCount)
+      const batchCandidates = getBatchCandidates(base.contextSize)
+      const totalSteps = threadCandidates.length + batchCandidates.filter(batchSize => batchSize !== base.batchSize).length
+      const tuningRunId = uuidv4()
+      const results: BenchmarkResult[] = []
+      const isFaster = (a: BenchmarkResult, b: BenchmarkResult) => estimateReplySeconds(a) < estimateReplySeconds(b)
+
+      const measure = async (settings: BenchmarkSettings) => {
+        const existing = results.find(r => r.threads === settings.threads && r.batchSize === settings.batchSize)
+        if (existing) {
+          return existing
+        }
+        this.emitBenchmarkProgress({
+          phase: 'tuning',
+          step: results.length,
+          totalSteps,
+          message: `trying ${settings.threads} threads, batch ${settings.batchSize}`
+        })
+        const result = await this.measureAndStore(settings, signal, tuningRunId)
+        results.push(result)
+        this.emitBenchmarkProgress({ phase: 'tuning', step: results.length, totalSteps, message: 'measured', result })
+        return result
+      }
+
+      let best: BenchmarkResult | null = null
+      for (const threads of threadCandidates) {
+        const result = await measure({ ...base, threads })
+        if (!best || isFaster(result, best)) best = result
+      }
+      for (const batchSize of batchCandidates) {
+        const result = await measure({ ...base, threads: best!.threads, batchSize })
+        if (isFaster(result, best!)) best = result
+      }
+      return { best: best!, results }
+    })
+
+    const config = this.getCurrentConfig()
+    const modelBase = best.modelName.replace(/\.gguf$/, '')
+    const { profile, warnings } = this.saveCustomProfile({
+      name: `tuned ${modelBase}`.slice(0, 40).trim(),
+      description: `auto-tuned for ${best.modelName}: ${best.generationTokensPerSecond} tok/s generation, ${best.promptTokensPerSecond} tok/s prompt`,
+      gpuLayers: config.gpuLayers,
+      threads: best.threads,
+      batchSize: Math.min(best.batchSize, config.contextSize),
+      contextSize: config.contextSize,
+      flashAttention: !!config.flashAttention,
+      useMmap: config.useMmap !== false,
+      useMlock: !!config.useMlock
+    })
+    console.log(`Auto-tune finished: ${profile.name}`, { threads: profile.threads, batchSize: profile.batchSize })
+    return { best, results, profile, warnings }
+  }
+
+  getActiveLoadPlan(): LoadPlan | null {
+    return this.activeLoadPlan
+  }
+
+  // Memory the planner may use; dedicated VRAM is only known once the backend has been loaded
+  private async getMemoryBudget(): Promise<MemoryBudget> {
+    const budget: MemoryBudget = { ramBytes: os.totalmem() }
+    if (this.llama && this.llama.gpu && this.llama.gpu !== 'metal') {
+      try {
+        const vram = await this.llama.getVramState()
+        if (vram.total > 0 && vram.unifiedSize < vram.total) {
+          budget.vramBytes = vram.total
+        }
+      } catch (error) {
+        console.warn('Could not read VRAM state:', error)
+      }
+    }
+    return budget
+  }
+
+  // Predicts whether a model fits under each profile without loading it
+  async getLoadPlans(filename?: string): Promise<{ modelName: string; plans: LoadPlan[] }> {
+    const modelPath = filename
+      ? path.join(app.getPath('userData'), 'models', path.basename(filename))
+      : this.modelPath || await this.findAvailableModel()
+    if (!modelPath) {
+      throw new Error('No GGUF model found in models directory. Please download a model first.')
+    }
+
+    const metadata = readGGUFMetadata(modelPath)
+    const budget = await this.getMemoryBudget()
+    const plans = this.getAvailableProfiles().map(({ name }) => {
+      const config = this.resolveLoadConfig(name)
+      return planModelLoad(metadata, config, budget, name, this.readDraftMetadata(config))
+    })
+    return { modelName: path.basename(modelPath), plans }
+  }
+
+  async updateSystemPrompt(systemPrompt: string, conversationId?: string): Promise<void> {
+    if (!conversationId) {
+      this.currentSystemPrompt = systemPrompt
+      this.sessions.setDefaultSystemPrompt(systemPrompt)
+    }
+
+    const targetId = conversationId || DEFAULT_CONVERSATION_ID
+
+    const run = async (slotIndex: number) => {
+      // Save the outgoing prompt's state first so switching back to it (e.g. another agent) is instant.
+      // The next chat re-activates the conversation and restores the best cached state for the new prompt.
+      const slot = this.slots[slotIndex]
+      if (this.isInitialized && slot?.activeConversationId === targetId) {
+        console.log('Updating system prompt for the active conversation...')
+        await this.saveConversationState(slot, targetId)
+        slot.activeConversationId = null
+      }
+      this.sessions.setSystemPrompt(targetId, systemPrompt)
+    }
+
+    // Queued behind the conversation's running generation so the prompt never changes under it
+    return this.scheduler.schedule(run, { key: targetId, preferSlot: (free) => this.pickSlot(free, targetId) })
+  }
+
+  // The conversation as the local session sees it (system prompt with any summary, then the
+  // kept turns) in OpenAI chat format, so a remote backend answers from the same context
+  getConversationMessages(conversationId: string = DEFAULT_CONVERSATION_ID): RemoteChatMessage[] {
+    return this.sessions.get(conversationId).history
+      .map((item): RemoteChatMessage => ({
+        role: item.type === 'system' ? 'system' : item.type === 'user' ? 'user' : 'assistant',
+        content: getItemText(item)
+      }))
+      .filter(message => message.content.length > 0)
+  }
+
+  // Takes over history kept by another device. Unchanged history is left alone so the sequence
+  // keeps its evaluated state.
+  private replaceConversation(conversationId: string, messages: RemoteChatMessage[]): void {
+    const valid = messages.filter(message =>
+      message && ['system', 'user', 'assistant'].includes(message.role) && typeof message.content === 'string')
+    if (JSON.stringify(valid) === JSON.stringify(this.getConversationMessages(conversationId))) {
+      return
+    }
+
+    const system = valid.find(message => message.role === 'system')?.content
+    const turns = valid
+      .filter(message => message.role !== 'system')
+      .map(message => message.role === 'user'
+        ? { type: 'user', text: message.content }
+        : { type: 'model', response: [message.content] })
+    this.sessions.replace(conversationId, turns, system)
+    for (const slot of this.slots) {
+      if (slot.activeConversationId === conversationId) {
+        slot.activeConversationId = null
+      }
+    }
+  }
+
+  // Records a turn another backend answered. Sequences holding the conversation reload its
+  // history on next use, so switching back to local generation continues from it.
+  recordRemoteExchange(conversationId: string | undefined, message: string, response: string): void {
+    const targetId = conversationId || DEFAULT_CONVERSATION_ID
+    this.sessions.appendExchange(targetId, message.trim(), response.trim())
+    for (const slot of this.slots) {
+      if (slot.activeConversationId === targetId) {
+        slot.activeConversationId = null
+      }
+    }
+  }
+
+  // Drops a conversation from memory, e.g. after it was deleted from the database
+  forgetConversation(conversationId: string): void {
+    this.sessions.forget(conversationId)
+    this.kvCache.remove(getConversationKey(conversationId))
+    for (const slot of this.slots) {
+      if (slot.activeConversationId === conversationId) {
+        slot.activeConversationId = null
+      }
+    }
+  }
+
+  getContextSettings(): ContextSettings {
+    return { ...DEFAULT_CONTEXT_SETTINGS, ...this.settings.get().context }
+  }
+
+  setContextSettings(changes: Partial<ContextSettings>): ContextSettings {
+    const next = { ...this.getContextSettings(), ...changes }
+    if (!['sliding-window', 'drop-oldest', 'summarize'].includes(next.strategy)) {
+      throw new Error(`Unknown context strategy: ${next.strategy}`)
+    }
+    if (!Number.isInteger(next.windowTurns) || next.windowTurns < 1) {
+      throw new Error('windowTurns must be a positive integer')
+    }
+    if (!Number.isInteger(next.reserveTokens) || next.reserveTokens < 16) {
+      throw new Error('reserveTokens must be an integer of at least 16')
+    }
+    this.settings.update({ context: next })
+    return next
+  }
+
+  private countTokens(text: string): number {
+    return this.model.tokenize(text).length
+  }
+
+  private getContextSize(): number {
+    return this.context?.contextSize ?? this.getCurrentConfig().contextSize
+  }
+
+  // How much of the context window a conversation currently takes; null until a model is loaded
+  getContextUsage(conversationId: string = DEFAULT_CONVERSATION_ID): ContextUsage | null {
+    if (!this.isInitialized || !this.model) {
+      return null
+    }
+    const conversation = this.sessions.get(conversationId)
+    return {
+      conversationId,
+      usedTokens: countHistoryTokens(conversation.history, text => this.countTokens(text)),
+      contextSize: this.getContextSize(),
+      strategy: this.getContextSettings().strategy,
+      messageCount: conversation.history.filter(item => item.type !== 'system').length,
+      summarized: !!conversation.summary,
+      droppedTurns: conversation.droppedTurns
+    }
+  }
+
+  private emitContextUsage(conversationId: string): void {
+    try {
+      const usage = this.getContextUsage(conversationId)
+      if (usage) {
+        this.emit('context-usage', usage)
+      }
+    } catch (error) {
+      console.warn('Could not measure context usage:', error)
+    }
+  }
+
+  // Makes room for the next message and its reply using the configured overflow strategy,
+  // so the history never silently overflows the context window
+  private async fitConversationToContext(slot: SequenceSlot, conversationId: string, message: string, maxTokens?: number, signal?: AbortSignal): Promise<void> {
+    const settings = this.getContextSettings()
+    const contextSize = this.getContextSize()
+    const countTokens = (text: string) => this.countTokens(text)
+    const reserve = Math.min(maxTokens ?? settings.reserveTokens, Math.floor(contextSize / 2))
+    const messageTokens = countMessageTokens(message, countTokens)
+    const budget = contextSize - reserve - messageTokens
+
+    const conversation = this.sessions.get(conversationId)
+    const systemTokens = countHistoryTokens(conversation.history.slice(0, 1), countTokens)
+    if (budget < systemTokens) {
+      throw new Error(`Message is too long for the ${contextSize}-token context window (${messageTokens} tokens plus ${reserve} reserved for the reply)`)
+    }
+
+    const { history, dropped } = trimHistory(conversation.history, budget, settings, countTokens)
+    if (dropped.length === 0) {
+      return
+    }
+
+    let summary: string | undefined
+    if (settings.strategy === 'summarize') {
+      try {
+        summary = await this.summarizeTurns(slot, conversation.summary, dropped, contextSize, signal)
+      } catch (error) {
+        if (signal?.aborted) {
+          // Leave the conversation as it was; the next request summarizes again
+          slot.session.setChatHistory(conversation.history)
+          throw error
+        }
+        console.warn('Summarizing old turns failed, dropping them instead:', error)
+      }
+    }
+
+    const compacted = this.sessions.compact(conversationId, history, dropped.length, summary)
+    // The summary may have grown the system prompt past the budget; fall back to plain dropping
+    const { history: fitted, dropped: extra } = trimHistory(compacted.history, budget, { ...settings, strategy: 'drop-oldest' }, countTokens)
+    const final = extra.length > 0 ? this.sessions.compact(conversationId, fitted, extra.length).history : compacted.history
+
+    slot.session.setChatHistory(final)
+    console.log(`Context for ${conversationId}: ${settings.strategy} removed ${dropped.length + extra.length} turn(s)${summary ? ' and updated the summary' : ''}`)
+  }
+
+  private async summarizeTurns(slot: SequenceSlot, previousSummary: string | undefined, turns: any[][], contextSize: number, signal?: AbortSignal): Promise<string> {
+    const transcript = formatTranscript(turns, Math.floor(contextSize / 2), text => this.countTokens(text))
+    slot.session.setChatHistory([{
+      type: 'system',
+      text: 'You summarize conversations. Write a concise summary of the facts, decisions and open questions, in at most five sentences.'
+    }])
+    const prompt = previousSummary
+      ? `Earlier summary:\n${previousSummary}\n\nContinue it with this part of the conversation:\n${transcript}`
+      : `Summarize this conversation:\n${transcript}`
+    const summary: string = await slot.session.prompt(prompt, { maxTokens: Math.min(256, Math.floor(contextSize / 8)), temperature: 0, signal })
+    return summary.trim()
+  }
+
+  private async activateConversation(slot: SequenceSlot, conversationId: string): Promise<void> {
+    if (slot.activeConversationId === conversationId) return
+
+    if (slot.activeConversationId) {
+      await this.saveConversationState(slot, slot.activeConversationId)
+    }
+    await this.restoreConversationState(slot, conversationId)
+
+    const conversation = this.sessions.get(conversationId)
+    slot.session.setChatHistory(conversation.history)
+    slot.activeConversationId = conversationId
+    console.log(`Switched sequence ${slot.index} to conversation ${conversationId}`)
+  }
+
+  getKVCacheSettings(): KVCacheSettings {
+    return { ...DEFAULT_KV_CACHE_SETTINGS, ...this.settings.get().kvCache }
+  }
+
+  setKVCacheSettings(changes: Partial<KVCacheSettings>): KVCacheSettings {
+    const next = { ...this.getKVCacheSettings(), ...changes }
+    if (typeof next.maxBytes !== 'number' || next.maxBytes < 0) {
+      throw new Error('maxBytes must be a non-negative number')
+    }
+    this.settings.update({ kvCache: next })
+    this.kvCache.evict(next.enabled ? next.maxBytes : 0)
+    return next
+  }
+
+  getKVCacheInfo(): KVCacheInfo {
+    return { ...this.getKVCacheSettings(), usedBytes: this.kvCache.getUsedBytes(), entries: this.kvCache.count() }
+  }
+
+  clearKVCache(): void {
+    this.kvCache.clear()
+  }
+
+  // Saves the state of whatever conversations are in the sequences; for app quit and model swaps
+  async saveSessionState(): Promise<void> {
+    return this.scheduler.runExclusive(() => this.saveAllConversationStates())
+  }
+
+  private async saveAllConversationStates(): Promise<void> {
+    for (const slot of this.slots) {
+      if (slot.activeConversationId) {
+        await this.saveConversationState(slot, slot.activeConversationId)
+      }
+    }
+  }
+
+  private getSystemText(conversationId: string): string {
+    const system = this.sessions.get(conversationId).history[0]
+    return system?.type === 'system' && typeof system.text === 'string' ? system.text : ''
+  }
+
+  // Stores the evaluated tokens for persisted conversations, plus a shared prefix state per system prompt.
+  // Only called between generations, while the slot's sequence is idle.
+  private async saveConversationState(slot: SequenceSlot, conversationId: string): Promise<void> {
+    const settings = this.getKVCacheSettings()
+    if (!settings.enabled || !this.context || !this.modelFingerprint) return
+
+    const sequence = slot.session.sequence
+    const tokenCount: number = sequence.contextTokens.length
+    if (tokenCount === 0) return
+
+    const conversation = this.sessions.get(conversationId)
+    const systemText = this.getSystemText(conversationId)
+    const details = { contextSize: this.context.contextSize, tokenCount, promptHash: getPromptHash(systemText) }
+    const save = async (filePath: string) => {
+      await sequence.saveStateToFile(filePath)
+    }
+
+    try {
+      if (conversation.persisted) {
+        await this.kvCache.put(this.modelFingerprint, getConversationKey(conversationId), 'conversation', details, save, settings.maxBytes)
+      }
+      // Any state that starts with this system prompt works as its prefix; the rest is discarded on reuse
+      const prefixKey = getPrefixKey(systemText)
+      if (systemText && !this.kvCache.find(this.modelFingerprint, prefixKey)) {
+        await this.kvCache.put(this.modelFingerprint, prefixKey, 'prefix', details, save, settings.maxBytes)
+      }
+      console.log(`Saved KV cache for ${conversationId} (${tokenCount} tokens)`)
+    } catch (error) {
+      console.warn(`Failed to save KV cache for ${conversationId}:`, error)
+    }
+  }
+
+  // Loads the conversation's own state, or a state sharing its system prompt, into the sequence.
+  // node-llama-cpp then only evaluates the tokens that differ from what was loaded.
+  private async restoreConversationState(slot: SequenceSlot, conversationId: string): Promise<boolean> {
+    const settings = this.getKVCacheSettings()
+    if (!settings.enabled || !this.context || !this.modelFingerprint) return false
+
+    const conversation = this.sessions.get(conversationId)
+    const systemText = this.getSystemText(conversationId)
+    const promptHash = getPromptHash(systemText)
+    const ownState = conversation.persisted ? this.kvCache.find(this.modelFingerprint, getConversationKey(conversationId)) : undefined
+    const entry = ownState?.promptHash === promptHash ? ownState : this.kvCache.find(this.modelFingerprint, getPrefixKey(systemText))
+    if (!entry || entry.contextSize > this.context.contextSize) return false
+
+    const sequence = slot.session.sequence
+    try {
+      await sequence.clearHistory()
+      await sequence.loadStateFromFile(this.kvCache.use(entry), { acceptRisk: true })
+      console.log(`Restored ${entry.kind} KV cache for ${conversationId} (${entry.tokenCount} tokens)`)
+      return true
+    } catch (error) {
+      console.warn(`Failed to restore KV cache for ${conversationId}, evaluating from scratch:`, error)
+      this.kvCache.remove(entry.key, entry.modelFingerprint)
+      await sequence.clearHistory().catch(() => {})
+      return false
+    }
+  }
+
+  private getAdapterPath(filename: string): string {
+    const name = path.basename(filename)
+    if (name !== filename || !name.endsWith('.gguf')) {
+      throw new Error(`Invalid adapter filename: ${filename}`)
+    }
+    return path.join(app.getPath('userData'), 'models', 'adapters', name)
+  }
+
+  getActiveAdapter(): ActiveAdapter | null {
+    return this.activeAdapter
+  }
+
+  // Applies the agent's LoRA adapter when it becomes active, or removes the current one if it has none
+  async setActiveAgent(agent: Agent | null): Promise<ActiveAdapter | null> {
+    const filename = agent?.modelConfig?.loraAdapter
+    await this.setAdapter(filename ? { filename, scale: agent!.modelConfig!.loraScale ?? 1 } : null)
+    return this.activeAdapter
+  }
+
+  // Adapters can only be attached when a context is created, so a change rebuilds the context
+  // once running requests finish. Without a loaded model it is applied on the next load.
+  async setAdapter(adapter: ActiveAdapter | null): Promise<void> {
+    const { existsSync } = await import('fs')
+    if (adapter) {
+      if (!existsSync(this.getAdapterPath(adapter.filename))) {
+        throw new Error(`Adapter not found: ${adapter.filename}`)
+      }
+      if (!Number.isFinite(adapter.scale) || adapter.scale <= 0 || adapter.scale > 2) {
+        throw new Error('Adapter scale must be greater than 0 and at most 2')
+      }
+    }
+
+    const run = async () => {
+      if (this.initPromise) {
+        await this.initPromise.catch(() => {})
+      }
+      const current = this.activeAdapter
+      if (current?.filename === adapter?.filename && current?.scale === adapter?.scale) {
+        return
+      }
+      if (adapter && this.isInitialized && this.modelPath) {
+        const fit = checkAdapterFit(readGGUFMetadata(this.getAdapterPath(adapter.filename)), readGGUFMetadata(this.modelPath))
+        if (!fit.fits) {
+          throw new Error(`Adapter ${adapter.filename} doesn't fit ${path.basename(this.modelPath)}: ${fit.reason}`)
+        }
+      }
+
+      this.activeAdapter = adapter
+      if (!this.isInitialized || !this.model || !this.activeLoadPlan) {
+        console.log(`Adapter ${adapter?.filename || 'none'} will apply on the next model load`)
+        return
+      }
+
+      console.log(`Switching adapter: ${current?.filename || 'none'} -> ${adapter?.filename || 'none'}`)
+      await this.saveAllConversationStates()
+      const config = this.activeLoadPlan.config
+      try {
+        await this.context.dispose()
+        await this.createContext(config)
+      } catch (error) {
+        console.error('Failed to apply adapter, restoring the previous context:', error)
+        this.activeAdapter = current
+        try {
+          await this.createContext(config)
+        } catch (restoreError) {
+          console.error('Failed to restore the previous context:', restoreError)
+          this.cleanup()
+        }
+        throw error
+      }
+      this.scheduler.setSlotCount(this.slots.length)
+    }
+
+    return this.scheduler.runExclusive(run)
+  }
+
+  private getChatTemplateSetting(filename: string): ChatTemplateSetting {
+    return this.settings.get().chatTemplates?.[filename] || { template: 'auto' }
+  }
+
+  async getChatTemplateInfo(filename: string): Promise<ChatTemplateInfo> {
+    const name = path.basename(filename)
+    const metadata = readGGUFMetadata(path.join(app.getPath('userData'), 'models', name))
+    const loaded = this.isInitialized && this.modelPath && path.basename(this.modelPath) === name
+    return {
+      filename: name,
+      setting: this.getChatTemplateSetting(name),
+      detected: detectChatTemplate(metadata.chatTemplate),
+      ggufTemplate: metadata.chatTemplate,
+      activeWrapper: loaded ? this.chatWrapper?.wrapperName : undefined
+    }
   }
 
-  async updateSystemPrompt(systemPrompt: string): Promise<void> {
-    this.currentSystemPrompt = systemPrompt
-    
-    // If we have an active session, recreate it with the new system prompt
-    if (this.isInitialized && this.context) {
-      console.log('Updating system prompt and recreating chat session...')
-      const { LlamaChatSession } = await import('node-llama-cpp')
-      this.session = new LlamaChatSession({
-        contextSequence: this.context.getSequence(),
-        systemPrompt: this.currentSystemPrompt
+  // Stores a model's chat template override (null goes back to auto). If that model is loaded,
+  // its sessions are rebuilt with the new template once running requests finish.
+  async setChatTemplate(filename: string, setting: ChatTemplateSetting | null): Promise<ChatTemplateInfo> {
+    const name = path.basename(filename)
+    const next = setting ? validateChatTemplateSetting(setting) : null
+    if (next?.template === 'jinja' && next.jinja) {
+      // Fails on template syntax errors before anything is saved
+      await createChatWrapper(next, null)
+    }
+
+    const { [name]: _previous, ...rest } = this.settings.get().chatTemplates || {}
+    this.settings.update({ chatTemplates: next && next.template !== 'auto' ? { ...rest, [name]: next } : rest })
+    console.log(`Model ${name} chat template: ${next?.template || 'auto'}`)
+
+    const run = async () => {
+      if (!this.isInitialized || !this.modelPath || path.basename(this.modelPath) !== name) return
+      await this.saveAllConversationStates()
+      const sequences = this.slots.map(slot => {
+        const sequence = slot.session.sequence
+        slot.session.dispose({ disposeSequence: false })
+        return sequence
       })
-      console.log('Chat session updated with new system prompt')
+      await this.createSessions(sequences)
+    }
+    await this.scheduler.runExclusive(run)
+    return this.getChatTemplateInfo(name)
+  }
+
+  // Renders the history with the loaded model's template (or `setting` to try one) and returns the
+  // exact text that would be evaluated, special tokens included
+  async previewPrompt(messages: PromptPreviewMessage[], setting?: ChatTemplateSetting): Promise<PromptPreview> {
+    if (!this.isInitialized || !this.model || !this.chatWrapper) {
+      throw new Error('Load a model to preview its prompt')
+    }
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new Error('Preview needs at least one message')
+    }
+
+    const wrapper = setting
+      ? await createChatWrapper(validateChatTemplateSetting(setting), this.model, readGGUFMetadata(this.modelPath!).chatTemplate)
+      : this.chatWrapper
+    const { contextText } = wrapper.generateContextState({ chatHistory: toPreviewHistory(messages) })
+    const tokens = contextText.tokenize(this.model.tokenizer)
+    return {
+      text: this.model.detokenize(tokens, true),
+      tokenCount: tokens.length,
+      wrapperName: wrapper.wrapperName
+    }
+  }
+
+  getSchedulerSettings(): SchedulerSettings {
+    return { ...DEFAULT_SCHEDULER_SETTINGS, ...this.settings.get().scheduler }
+  }
+
+  // Queue limits apply immediately; the sequence count on the next model load
+  setSchedulerSettings(changes: Partial<SchedulerSettings>): SchedulerSettings {
+    const next = { ...this.getSchedulerSettings(), ...changes }
+    if (!Number.isInteger(next.sequences) || next.sequences < 1 || next.sequences > 16) {
+      throw new Error('sequences must be an integer between 1 and 16')
+    }
+    if (!Number.isInteger(next.maxQueueDepth) || next.maxQueueDepth < 1) {
+      throw new Error('maxQueueDepth must be a positive integer')
     }
+    if (!Number.isInteger(next.maxQueuedPerSource) || next.maxQueuedPerSource < 1) {
+      throw new Error('maxQueuedPerSource must be a positive integer')
+    }
+    this.settings.update({ scheduler: next })
+    this.scheduler.configure(next)
+    return next
+  }
+
+  getSchedulerInfo(): SchedulerSettings & { stats: SchedulerStats } {
+    return { ...this.getSchedulerSettings(), stats: this.scheduler.getStats() }
   }
 
   dispose(): void {
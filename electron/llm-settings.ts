@@ -0,0 +1,26 @@
+import { JsonSettingsStore, requireSettingsObject } from './settings-store.js'
+import type { CustomProfile } from './llm-config.js'
+import type { ContextSettings } from './context-manager.js'
+import type { KVCacheSettings } from './kv-cache-store.js'
+import type { SchedulerSettings } from './request-scheduler.js'
+import type { ChatTemplateSetting } from './chat-templates.js'
+
+// Choices that should survive an app restart
+export interface LLMSettings {
+  selectedModel?: string // filename inside the models directory
+  catalogUrl?: string // remote or local model catalog overriding the bundled one
+  performanceProfile?: string // built-in or custom profile used when a model has no assignment
+  customProfiles?: CustomProfile[]
+  modelProfiles?: { [filename: string]: string } // profile applied whenever that model file loads
+  context?: Partial<ContextSettings>
+  kvCache?: Partial<KVCacheSettings>
+  scheduler?: Partial<SchedulerSettings>
+  chatTemplates?: { [filename: string]: ChatTemplateSetting } // overrides of the template read from the GGUF file
+}
+
+export class LLMSettingsStore extends JsonSettingsStore<LLMSettings> {
+  constructor(filePath?: string) {
+    // Individual values are checked where they are used, against the current defaults
+    super('llm-settings.json', value => requireSettingsObject(value) as LLMSettings, filePath)
+  }
+}
@@ -0,0 +1,148 @@
+import type { LLMConfig } from './llm-config.js'
+import { estimateKvCacheBytes, checkDraftFit, RUNTIME_OVERHEAD_BYTES, type GGUFModelMetadata } from './gguf-metadata.js'
+
+export type MemoryFit = 'fits' | 'tight' | 'wont-fit'
+
+export interface MemoryBudget {
+  ramBytes: number
+  vramBytes?: number // dedicated GPU memory; undefined for unified memory or no GPU
+}
+
+export interface MemoryEstimate {
+  weightsBytes: number
+  kvCacheBytes: number
+  ramBytes: number // what stays in system memory
+  vramBytes: number // what is offloaded to a dedicated GPU
+}
+
+export interface LoadPlan {
+  profile: string
+  requested: LLMConfig
+  config: LLMConfig // what will actually be used, possibly downgraded
+  estimate: MemoryEstimate
+  budget: MemoryBudget
+  fit: MemoryFit
+  canLoad: boolean
+  reasons: string[] // human readable explanation of every decision
+}
+
+// Share of a memory pool a model may use before it is "tight" or won't fit
+const FIT_RATIO = 0.75
+const TIGHT_RATIO = 0.9
+const MIN_CONTEXT_SIZE = 512
+
+const formatGB = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)}GB`
+
+export function estimateLoadMemory(metadata: GGUFModelMetadata, config: LLMConfig, budget: MemoryBudget, draft?: GGUFModelMetadata): MemoryEstimate {
+  // A draft model for speculative decoding is loaded alongside and mirrors every sequence
+  const useDraft = !!draft && !!config.draftModel
+  const weightsBytes = metadata.fileSizeBytes + (useDraft ? draft!.fileSizeBytes : 0)
+  // Every sequence keeps its own KV cache of contextSize tokens
+  const kvCacheBytes = (estimateKvCacheBytes(metadata, config.contextSize) + (useDraft ? estimateKvCacheBytes(draft!, config.contextSize) : 0)) *
+    (config.sequences ?? 1)
+
+  // With unified memory (or no GPU) offloading doesn't move anything out of RAM
+  if (budget.vramBytes === undefined || config.gpuLayers <= 0) {
+    return { weightsBytes, kvCacheBytes, ramBytes: weightsBytes + kvCacheBytes + RUNTIME_OVERHEAD_BYTES, vramBytes: 0 }
+  }
+
+  // Offloaded layers take their share of the weights and KV cache to the GPU
+  const offloaded = metadata.blockCount ? Math.min(1, config.gpuLayers / metadata.blockCount) : 1
+  const gpuBytes = Math.round((weightsBytes + kvCacheBytes) * offloaded)
+  return {
+    weightsBytes,
+    kvCacheBytes,
+    ramBytes: weightsBytes + kvCacheBytes - gpuBytes + RUNTIME_OVERHEAD_BYTES,
+    vramBytes: gpuBytes + RUNTIME_OVERHEAD_BYTES
+  }
+}
+
+function classify(usedBytes: number, availableBytes: number): MemoryFit {
+  const ratio = usedBytes / Math.max(availableBytes, 1)
+  if (ratio <= FIT_RATIO) return 'fits'
+  if (ratio <= TIGHT_RATIO) return 'tight'
+  return 'wont-fit'
+}
+
+function classifyEstimate(estimate: MemoryEstimate, budget: MemoryBudget): { fit: MemoryFit; ramFit: MemoryFit; vramFit: MemoryFit } {
+  const ramFit = classify(estimate.ramBytes, budget.ramBytes)
+  const vramFit = budget.vramBytes === undefined || estimate.vramBytes === 0 ? 'fits' : classify(estimate.vramBytes, budget.vramBytes)
+  const order: MemoryFit[] = ['fits', 'tight', 'wont-fit']
+  return { fit: order[Math.max(order.indexOf(ramFit), order.indexOf(vramFit))], ramFit, vramFit }
+}
+
+// Decides how (and whether) to load a model before touching the backend, so an oversized
+// model fails fast with an explanation instead of timing out or swapping the machine to death
+export function planModelLoad(
+  metadata: GGUFModelMetadata,
+  requested: LLMConfig,
+  budget: MemoryBudget,
+  profile: string = requested.profile,
+  draft?: GGUFModelMetadata
+): LoadPlan {
+  const reasons: string[] = []
+  const config: LLMConfig = { ...requested }
+
+  if (config.draftModel) {
+    const fit = draft ? checkDraftFit(draft, metadata) : { fits: false, reason: 'file not found' }
+    if (fit.fits) {
+      reasons.push(`speculative decoding with ${config.draftModel}: ${fit.reason}`)
+    } else {
+      reasons.push(`speculative decoding off, ${config.draftModel} can't draft for this model: ${fit.reason}`)
+      config.draftModel = undefined
+    }
+  }
+
+  if (metadata.contextLength && config.contextSize > metadata.contextLength) {
+    config.contextSize = metadata.contextLength
+    reasons.push(`context capped at ${metadata.contextLength} tokens, the model's maximum`)
+  }
+
+  let estimate = estimateLoadMemory(metadata, config, budget, draft)
+  let { fit, vramFit } = classifyEstimate(estimate, budget)
+
+  while (fit === 'wont-fit') {
+    if (config.draftModel) {
+      // The draft model only speeds things up, so it goes first
+      const index = reasons.findIndex(reason => reason.startsWith('speculative decoding with'))
+      reasons.splice(index, 1, `speculative decoding off, ${config.draftModel} is dropped to leave memory for the main model`)
+      config.draftModel = undefined
+    } else if (vramFit === 'wont-fit' && config.gpuLayers > 0) {
+      config.gpuLayers = config.gpuLayers > 4 ? Math.floor(config.gpuLayers / 2) : 0
+    } else if ((config.sequences ?? 1) > 1) {
+      // Parallel requests are given up before the context window shrinks
+      config.sequences = config.sequences! - 1
+    } else if (config.contextSize > MIN_CONTEXT_SIZE) {
+      config.contextSize = Math.max(MIN_CONTEXT_SIZE, Math.floor(config.contextSize / 2))
+    } else {
+      break
+    }
+    estimate = estimateLoadMemory(metadata, config, budget, draft)
+    ;({ fit, vramFit } = classifyEstimate(estimate, budget))
+  }
+
+  if (config.gpuLayers < requested.gpuLayers) {
+    reasons.push(`gpu layers reduced from ${requested.gpuLayers} to ${config.gpuLayers} to fit in ${formatGB(budget.vramBytes!)} VRAM`)
+  }
+  if ((config.sequences ?? 1) < (requested.sequences ?? 1)) {
+    reasons.push(`parallel sequences reduced from ${requested.sequences} to ${config.sequences} to shrink the KV cache`)
+  }
+  const cappedContext = Math.min(requested.contextSize, metadata.contextLength || requested.contextSize)
+  if (config.contextSize < cappedContext) {
+    reasons.push(`context reduced from ${cappedContext} to ${config.contextSize} tokens to shrink the KV cache`)
+  }
+
+  const usage = `needs ~${formatGB(estimate.ramBytes)} of ${formatGB(budget.ramBytes)} RAM` +
+    (estimate.vramBytes > 0 ? ` and ~${formatGB(estimate.vramBytes)} of ${formatGB(budget.vramBytes!)} VRAM` : '')
+
+  const canLoad = fit !== 'wont-fit'
+  if (fit === 'fits') {
+    reasons.unshift(usage)
+  } else if (fit === 'tight') {
+    reasons.unshift(`${usage}; expect slowdowns if other apps need memory`)
+  } else {
+    reasons.unshift(`${usage}, even at ${config.contextSize} context; choose a smaller model or quantization`)
+  }
+
+  return { profile, requested, config, estimate, budget, fit, canLoad, reasons }
+}
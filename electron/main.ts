@@ -2,9 +2,19 @@ import { app, BrowserWindow, Menu, ipcMain, dialog } from 'electron'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import { config as dotenvConfig } from 'dotenv'
-import { LLMService } from './llm-service.js'
-import { DistributedInferenceService } from './distributed-service.js'
+import { LLMService, StructuredOutputError, type ModelLoadEvent, type SpeculativeStats } from './llm-service.js'
+import { DistributedInferenceService, getRelayPort } from './distributed-service.js'
 import { AgentDatabaseService } from './agent-service.js'
+import { ConversationDatabaseService } from './conversation-service.js'
+import { EmbeddingService } from './embedding-service.js'
+import { DownloadManager, type DownloadProgress } from './download-manager.js'
+import { ModelLibraryService } from './model-library.js'
+import type { BenchmarkProgress } from './llm-benchmark.js'
+import type { ContextSettings, ContextUsage } from './context-manager.js'
+import type { KVCacheSettings } from './kv-cache-store.js'
+import { QueueFullError, type SchedulerSettings } from './request-scheduler.js'
+import { CHAT_TEMPLATES, type ChatTemplateSetting, type PromptPreviewMessage } from './chat-templates.js'
+import { LLMConfigManager, type GenerationOptions, type CustomProfile } from './llm-config.js'
 import fs from 'fs/promises'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
@@ -12,7 +22,54 @@ const isDev = process.env.NODE_ENV === 'development'
 
 // Load environment variables from .env file
 dotenvConfig({ path: path.join(__dirname, '../.env') })
-const llmService = new LLMService()
+const conversationService = new ConversationDatabaseService()
+const llmService = new LLMService(conversationService)
+const embeddingService = new EmbeddingService()
+const modelCatalog = llmService.getModelCatalog()
+const modelLibrary = new ModelLibraryService(llmService)
+
+const downloadManager = new DownloadManager({
+  modelsDir: path.join(app.getPath('userData'), 'models'),
+  queueFile: path.join(app.getPath('userData'), 'downloads.json'),
+  maxConcurrent: 2
+})
+
+// Send to every open window; used for events that aren't tied to the request that caused them
+function broadcast(channel: string, data: unknown) {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.webContents.isDestroyed()) {
+      window.webContents.send(channel, data)
+    }
+  }
+}
+
+// Model loads can start from any window (or implicitly on first chat), so broadcast progress to all
+llmService.on('model-load', (loadEvent: ModelLoadEvent) => {
+  broadcast('llm:model-load-progress', loadEvent)
+})
+
+llmService.on('context-usage', (usage: ContextUsage) => {
+  broadcast('llm:context-usage', usage)
+})
+
+llmService.on('benchmark-progress', (progress: BenchmarkProgress) => {
+  broadcast('llm:benchmark-progress', progress)
+})
+
+llmService.on('speculative-stats', (stats: SpeculativeStats) => {
+  broadcast('llm:speculative-stats', stats)
+})
+
+downloadManager.on('progress', (progress: DownloadProgress) => {
+  broadcast('model:download-progress', progress)
+})
+
+downloadManager.on('completed', () => {
+  // Load the new model if nothing is loaded yet
+  llmService.initialize().catch(err => {
+    console.log('Failed to auto-load new model:', err.message)
+  })
+})
 const distributedService = new DistributedInferenceService(llmService)
 const agentService = new AgentDatabaseService()
 
@@ -63,6 +120,14 @@ app.whenReady().then(async () => {
     if (BrowserWindow.getAllWindows().length === 0) createWindow()
   })
 
+  // Resume downloads that were still queued when the app last quit
+  downloadManager.start()
+
+  // Pick up a configured remote/local catalog; the bundled one is used until then
+  modelCatalog.refresh().catch(error => {
+    console.error('Failed to refresh model catalog:', error)
+  })
+
   // Start lightweight relay server for peer UI -> master inference
   startRelayServer()
 })
@@ -78,11 +143,17 @@ if (isDev) {
 // Simple relay HTTP server to allow other devices to call this device for inference
 // Exposes:
 //  - GET /health -> { ok: true }
-//  - POST /api/relay/chat { message } -> { success, response }
+//  - GET /api/relay/queue -> { success, stats, model } with running and waiting requests and the loaded model
+//  - POST /api/relay/chat { message, conversationId?, messages?, generation? } -> { success, response, queuePosition }
+//    (conversationId is namespaced per peer address and never refers to a local conversation;
+//    messages, the sender's system prompt and history, replace what this device remembers of it)
+//  - POST /api/relay/chat-structured { message, schema, generation? } -> { success, data, raw }
+// Relayed requests queue behind the local user and get 429 when the queue is full.
+//  - POST /v1/embeddings { input, model? } -> OpenAI-compatible embeddings list
 async function startRelayServer() {
   try {
     const http = await import('http')
-    const relayPort = Number(process.env.RELAY_PORT || 5123)
+    const relayPort = getRelayPort()
 
     const server = http.createServer(async (req, res) => {
       // Basic CORS for convenience
@@ -101,6 +172,17 @@ async function startRelayServer() {
         return
       }
 
+      if (req.method === 'GET' && req.url === '/api/relay/queue') {
+        // Peers' routers use this to judge how busy we are and whether we hold the model they want
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          success: true,
+          stats: llmService.getSchedulerInfo().stats,
+          model: llmService.getLoadedModelFile() || undefined
+        }))
+        return
+      }
+
       if (req.method === 'POST' && req.url === '/api/relay/chat') {
         try {
           let body = ''
@@ -114,11 +196,34 @@ async function startRelayServer() {
                 res.end(JSON.stringify({ success: false, error: 'Missing message' }))
                 return
               }
-              const result = await llmService.chat(message)
+              // Stop generating if the peer disconnects before the answer is ready
+              const controller = new AbortController()
+              res.on('close', () => {
+                if (!res.writableEnded) controller.abort()
+              })
+              // Conversation IDs are always scoped to the peer's address, so a peer can neither read nor
+              // append to this device's conversations or another peer's
+              const peer = req.socket.remoteAddress || 'unknown'
+              const peerConversation = typeof parsed.conversationId === 'string' && parsed.conversationId ? parsed.conversationId : 'default'
+              const conversationId = `relay:${peer}:${peerConversation}`
+              // Where the request first landed in the queue; 0 if it started right away
+              let queuePosition: number | undefined
+              const result = await llmService.chat(message, {
+                signal: controller.signal,
+                conversationId,
+                history: Array.isArray(parsed.messages) ? parsed.messages : undefined,
+                generation: parsed.generation,
+                priority: 'relay',
+                source: peer,
+                onQueuePosition: (position) => {
+                  if (queuePosition === undefined) queuePosition = position
+                }
+              })
               res.writeHead(200, { 'Content-Type': 'application/json' })
-              res.end(JSON.stringify({ success: true, response: result }))
+              res.end(JSON.stringify({ success: true, response: result, queuePosition: queuePosition ?? 0 }))
             } catch (err: any) {
-              res.writeHead(500, { 'Content-Type': 'application/json' })
+              const status = err instanceof QueueFullError ? 429 : 500
+              res.writeHead(status, { 'Content-Type': 'application/json' })
               res.end(JSON.stringify({ success: false, error: err?.message || 'Unknown error' }))
             }
           })
@@ -129,6 +234,77 @@ async function startRelayServer() {
         return
       }
 
+      if (req.method === 'POST' && req.url === '/api/relay/chat-structured') {
+        let body = ''
+        req.on('data', chunk => { body += chunk })
+        req.on('end', async () => {
+          try {
+            const parsed = JSON.parse(body || '{}')
+            const message: string = parsed.message || ''
+            if (!message || !parsed.schema || typeof parsed.schema !== 'object') {
+              res.writeHead(400, { 'Content-Type': 'application/json' })
+              res.end(JSON.stringify({ success: false, error: 'Missing message or schema' }))
+              return
+            }
+            const controller = new AbortController()
+            res.on('close', () => {
+              if (!res.writableEnded) controller.abort()
+            })
+            const result = await llmService.chatStructured(message, parsed.schema, {
+              signal: controller.signal,
+              generation: parsed.generation,
+              priority: 'relay',
+              source: req.socket.remoteAddress || 'unknown'
+            })
+            res.writeHead(200, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({ success: true, data: result.data, raw: result.raw }))
+          } catch (err: any) {
+            // 400 for a schema we can't turn into a grammar, 422 when the output didn't validate
+            const status = err instanceof StructuredOutputError
+              ? (err.code === 'invalid_schema' ? 400 : 422)
+              : err instanceof QueueFullError ? 429 : 500
+            res.writeHead(status, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({
+              success: false,
+              error: err?.message || 'Unknown error',
+              errorCode: err instanceof StructuredOutputError ? err.code : undefined,
+              raw: err instanceof StructuredOutputError ? err.raw : undefined
+            }))
+          }
+        })
+        return
+      }
+
+      if (req.method === 'POST' && req.url === '/v1/embeddings') {
+        let body = ''
+        req.on('data', chunk => { body += chunk })
+        req.on('end', async () => {
+          try {
+            const parsed = JSON.parse(body || '{}')
+            const input = parsed.input
+            const isValidInput = typeof input === 'string' ||
+              (Array.isArray(input) && input.length > 0 && input.every((item: unknown) => typeof item === 'string'))
+            if (!isValidInput) {
+              res.writeHead(400, { 'Content-Type': 'application/json' })
+              res.end(JSON.stringify({ error: { message: 'input must be a string or a non-empty array of strings', type: 'invalid_request_error' } }))
+              return
+            }
+            const result = await embeddingService.embed(input, { model: parsed.model })
+            res.writeHead(200, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({
+              object: 'list',
+              data: result.embeddings.map((embedding, index) => ({ object: 'embedding', index, embedding })),
+              model: result.model,
+              usage: { prompt_tokens: result.promptTokens, total_tokens: result.promptTokens }
+            }))
+          } catch (err: any) {
+            res.writeHead(500, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({ error: { message: err?.message || 'Unknown error', type: 'server_error' } }))
+          }
+        })
+        return
+      }
+
       res.writeHead(404, { 'Content-Type': 'application/json' })
       res.end(JSON.stringify({ success: false, error: 'Not Found' }))
     })
@@ -502,183 +678,17 @@ ipcMain.handle('composio:verifyConnection', async (event, connectionId: string)
 })
 
 // IPC handlers for model downloading
-ipcMain.handle('model:download', async (event, modelUrl: string, filename: string) => {
-  const https = await import('https')
-  const fs = await import('fs')
-  const modelDir = path.join(app.getPath('userData'), 'models')
-  
-  // Create models directory if it doesn't exist
-  if (!fs.existsSync(modelDir)) {
-    fs.mkdirSync(modelDir, { recursive: true })
-    console.log(`Created models directory: ${modelDir}`)
-  }
-  
-  const modelPath = path.join(modelDir, filename)
-  
-  // Check if file already exists
-  if (fs.existsSync(modelPath)) {
-    console.log(`Model ${filename} already exists`)
-    return { success: false, error: 'Model already exists' }
-  }
-  
-  const downloadFile = (url: string, maxRedirects = 5): Promise<any> => {
-    return new Promise((resolve, reject) => {
-      if (maxRedirects === 0) {
-        reject(new Error('Too many redirects'))
-        return
-      }
-      
-      console.log(`Downloading from: ${url}`)
-      
-      const tempFilePath = path.join(modelDir, `${filename}.tmp`)
-      
-      // Clean up any existing temp file
-      if (fs.existsSync(tempFilePath)) {
-        fs.unlinkSync(tempFilePath)
-      }
-      
-      const file = fs.createWriteStream(tempFilePath)
-      let downloadTimeout: NodeJS.Timeout
-      let isComplete = false
-      let lastProgressTime = Date.now()
-      
-      const cleanup = () => {
-        if (downloadTimeout) clearTimeout(downloadTimeout)
-        if (fs.existsSync(tempFilePath)) {
-          try {
-            fs.unlinkSync(tempFilePath)
-          } catch (error) {
-            console.error('Error cleaning up temp file:', error)
-          }
-        }
-      }
-      
-      // Set overall download timeout (15 minutes)
-      downloadTimeout = setTimeout(() => {
-        if (!isComplete) {
-          file.close()
-          cleanup()
-          reject(new Error('Download timeout - the download took too long'))
-        }
-      }, 900000)
-      
-      const request = https.get(url, (response) => {
-        // Handle redirects
-        if (response.statusCode === 301 || response.statusCode === 302 || response.statusCode === 307 || response.statusCode === 308) {
-          file.close()
-          cleanup()
-          const redirectUrl = response.headers.location
-          if (redirectUrl) {
-            console.log(`Following redirect to: ${redirectUrl}`)
-            clearTimeout(downloadTimeout)
-            resolve(downloadFile(redirectUrl, maxRedirects - 1))
-            return
-          } else {
-            reject(new Error('Redirect response without location header'))
-            return
-          }
-        }
-        
-        if (response.statusCode !== 200) {
-          cleanup()
-          reject(new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`))
-          return
-        }
-        
-        const totalSize = parseInt(response.headers['content-length'] || '0', 10)
-        let downloadedSize = 0
-        
-        if (totalSize === 0) {
-          cleanup()
-          reject(new Error('Invalid file size - content-length header missing or zero'))
-          return
-        }
-        
-        console.log(`Download started - Total size: ${(totalSize / 1024 / 1024).toFixed(2)} MB`)
-        
-        response.pipe(file)
-        
-        response.on('data', (chunk) => {
-          downloadedSize += chunk.length
-          const progress = Math.round((downloadedSize / totalSize) * 100)
-          const now = Date.now()
-          
-          // Send progress update every 500ms
-          if (now - lastProgressTime > 500) {
-            event.sender.send('model:download-progress', { filename, progress, downloadedSize, totalSize })
-            lastProgressTime = now
-          }
-        })
-        
-        file.on('finish', () => {
-          file.close((closeErr) => {
-            if (closeErr) {
-              cleanup()
-              reject(closeErr)
-              return
-            }
-            
-            // Verify file size
-            try {
-              const stats = fs.statSync(tempFilePath!)
-              if (stats.size !== totalSize) {
-                cleanup()
-                reject(new Error(`File size mismatch. Expected ${totalSize}, got ${stats.size}`))
-                return
-              }
-              
-              // Move temp file to final location
-              fs.renameSync(tempFilePath!, modelPath)
-              isComplete = true
-              clearTimeout(downloadTimeout)
-              
-              console.log(`Download completed successfully: ${filename}`)
-              console.log(`Final file size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`)
-              
-              // Try to reinitialize LLM service with new model
-              llmService.reinitialize().catch(err => {
-                console.log('Failed to auto-load new model:', err.message)
-              })
-              
-              resolve({ success: true, path: modelPath, size: stats.size })
-              
-            } catch (error) {
-              cleanup()
-              reject(error)
-            }
-          })
-        })
-        
-        file.on('error', (err) => {
-          console.error('File write error:', err)
-          cleanup()
-          reject(err)
-        })
-        
-        response.on('error', (err) => {
-          console.error('Response error:', err)
-          cleanup()
-          reject(err)
-        })
-      })
-      
-      request.on('error', (err) => {
-        console.error('Request error:', err)
-        cleanup()
-        reject(err)
-      })
-      
-      // Set request timeout
-      request.setTimeout(30000, () => {
-        cleanup()
-        reject(new Error('Request timeout - no response from server'))
-      })
-    })
-  }
-  
+// Queues the download and resolves when it finishes; progress arrives via model:download-progress
+ipcMain.handle('model:download', async (event, modelUrl: string, filename: string, options: { sha256?: string } = {}) => {
   try {
     console.log(`Starting download: ${filename}`)
-    return await downloadFile(modelUrl)
+    const job = downloadManager.enqueue({ url: modelUrl, filename, sha256: options.sha256 ?? modelCatalog.findByFilename(filename)?.sha256 })
+    const result = await downloadManager.waitFor(job.id)
+    if (result.status !== 'completed') {
+      return { success: false, error: result.error || `Download ${result.status}` }
+    }
+    const modelPath = path.join(app.getPath('userData'), 'models', result.filename)
+    return { success: true, path: modelPath, size: result.totalBytes ?? result.downloadedBytes }
   } catch (error) {
     console.error('Download error:', error)
     return { 
@@ -688,6 +698,151 @@ ipcMain.handle('model:download', async (event, modelUrl: string, filename: strin
   }
 })
 
+// Queues the download and returns immediately
+ipcMain.handle('model:enqueueDownload', async (event, modelUrl: string, filename: string, options: { sha256?: string } = {}) => {
+  try {
+    const job = downloadManager.enqueue({ url: modelUrl, filename, sha256: options.sha256 ?? modelCatalog.findByFilename(filename)?.sha256 })
+    return { success: true, job }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown download error' }
+  }
+})
+
+ipcMain.handle('model:getCatalog', async (event, refresh = false) => {
+  try {
+    if (refresh) {
+      await modelCatalog.refresh()
+    }
+    return {
+      success: true,
+      ...modelCatalog.getInfo(),
+      hardware: LLMConfigManager.getHardwareInfo(),
+      models: modelCatalog.getScoredEntries()
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:setCatalogUrl', async (event, catalogUrl: string | null) => {
+  try {
+    await modelCatalog.setCatalogUrl(catalogUrl)
+    return { success: true, ...modelCatalog.getInfo() }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:getDownloads', async () => {
+  try {
+    return { success: true, downloads: downloadManager.getQueue() }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:pauseDownload', async (event, id: string) => {
+  return { success: downloadManager.pause(id) }
+})
+
+ipcMain.handle('model:resumeDownload', async (event, id: string) => {
+  return { success: downloadManager.resume(id) }
+})
+
+ipcMain.handle('model:cancelDownload', async (event, id: string) => {
+  return { success: downloadManager.cancel(id) }
+})
+
+ipcMain.handle('model:getLibrary', async () => {
+  try {
+    return { success: true, usage: modelLibrary.getDiskUsage() }
+  } catch (error) {
+    console.error('Error reading model library:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:import', async (event, mode: 'copy' | 'symlink' = 'copy') => {
+  try {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: [
+        { name: 'GGUF Models', extensions: ['gguf'] }
+      ]
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, error: 'No file selected' }
+    }
+
+    const model = await modelLibrary.importModel(result.filePaths[0], mode)
+    return { success: true, model }
+  } catch (error) {
+    console.error('Error importing model:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:delete', async (event, filename: string) => {
+  try {
+    await modelLibrary.deleteModel(filename)
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting model:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:rename', async (event, filename: string, newFilename: string) => {
+  try {
+    const model = await modelLibrary.renameModel(filename, newFilename)
+    return { success: true, model }
+  } catch (error) {
+    console.error('Error renaming model:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:getAdapters', async () => {
+  try {
+    return { success: true, adapters: modelLibrary.listAdapters() }
+  } catch (error) {
+    console.error('Error listing adapters:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:importAdapter', async () => {
+  try {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: [
+        { name: 'GGUF LoRA Adapters', extensions: ['gguf'] }
+      ]
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, error: 'No file selected' }
+    }
+
+    const adapter = await modelLibrary.importAdapter(result.filePaths[0])
+    return { success: true, adapter }
+  } catch (error) {
+    console.error('Error importing adapter:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('model:deleteAdapter', async (event, filename: string) => {
+  try {
+    await modelLibrary.deleteAdapter(filename)
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting adapter:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('model:openDirectory', async () => {
   try {
     const { shell } = await import('electron')
@@ -707,20 +862,19 @@ ipcMain.handle('model:openDirectory', async () => {
 })
 
 // IPC handlers for LLM communication
-ipcMain.handle('llm:chat', async (event, message: string) => {
+ipcMain.handle('llm:chat', async (event, message: string, options: { requestId?: string; conversationId?: string; generation?: GenerationOptions } = {}) => {
   try {
     if (!llmService) {
       throw new Error('LLM service not available')
     }
-    
-    // Try to initialize if not already done
-    const modelInfo = await llmService.getModelInfo()
-    if (!modelInfo.isLoaded) {
-      console.log('Model not loaded, attempting to initialize...')
-      await llmService.initialize()
-    }
-    
-    const response = await llmService.chat(message)
+
+    // Same routing and failover as streaming chat, just without the token events; the local
+    // model loads on demand if the request ends up on this device
+    const response = await distributedService.chat(message, {
+      requestId: options.requestId,
+      conversationId: options.conversationId,
+      generation: options.generation
+    })
     return { success: true, response }
   } catch (error) {
     console.error('Chat error:', error)
@@ -728,6 +882,76 @@ ipcMain.handle('llm:chat', async (event, message: string) => {
   }
 })
 
+// Streaming chat: tokens are pushed back to the sender as they are generated.
+// Every event carries the renderer-chosen requestId so concurrent streams don't mix.
+ipcMain.on('llm:chat-stream', async (event, requestId: string, message: string, options: { conversationId?: string; generation?: GenerationOptions } = {}) => {
+  const sender = event.sender
+  try {
+    // Goes to LocalAI or a peer when distributed inference is active; all backends stream the same
+    // events. Nothing is loaded up front: the local model loads on demand if the request ends up here.
+    const response = await distributedService.chat(message, {
+      requestId,
+      conversationId: options.conversationId,
+      generation: options.generation,
+      onToken: (token) => {
+        if (!sender.isDestroyed()) {
+          sender.send('llm:chat-stream-chunk', { requestId, token })
+        }
+      },
+      onQueuePosition: (position) => {
+        if (!sender.isDestroyed()) {
+          sender.send('llm:chat-stream-queued', { requestId, position })
+        }
+      }
+    })
+
+    if (!sender.isDestroyed()) {
+      sender.send('llm:chat-stream-done', { requestId, response })
+    }
+  } catch (error) {
+    console.error('Streaming chat error:', error)
+    if (!sender.isDestroyed()) {
+      sender.send('llm:chat-stream-error', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+})
+
+ipcMain.handle('llm:chatStructured', async (event, message: string, schema: object, options: { requestId?: string; conversationId?: string; generation?: GenerationOptions } = {}) => {
+  try {
+    const result = await llmService.chatStructured(message, schema, options)
+    return { success: true, data: result.data, raw: result.raw }
+  } catch (error) {
+    console.error('Structured chat error:', error)
+    if (error instanceof StructuredOutputError) {
+      return { success: false, error: error.message, errorCode: error.code, raw: error.raw }
+    }
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:embed', async (event, input: string | string[], options: { model?: string } = {}) => {
+  try {
+    const result = await embeddingService.embed(input, options)
+    return { success: true, embeddings: result.embeddings, model: result.model, dimensions: result.dimensions }
+  } catch (error) {
+    console.error('Embedding error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:cancel', async (event, requestId: string) => {
+  try {
+    const cancelled = distributedService.cancel(requestId)
+    return { success: true, cancelled }
+  } catch (error) {
+    console.error('Cancel error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('llm:getModelInfo', async () => {
   try {
     return await llmService.getModelInfo()
@@ -757,28 +981,291 @@ ipcMain.handle('llm:getAvailableModels', async () => {
   }
 })
 
+ipcMain.handle('llm:getModelMetadata', async (event, filename: string) => {
+  try {
+    const metadata = await llmService.getModelMetadata(filename)
+    return { success: true, metadata }
+  } catch (error) {
+    console.error('Error reading model metadata:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:loadModel', async (event, filename: string) => {
+  try {
+    const modelName = await llmService.loadModel(filename)
+    return { success: true, modelName }
+  } catch (error) {
+    console.error('Error loading model:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('llm:getPerformanceProfiles', async () => {
   try {
     const profiles = llmService.getAvailableProfiles()
     const current = llmService.getPerformanceProfile()
     const config = llmService.getCurrentConfig()
-    return { success: true, profiles, current, config }
+    const customProfiles = llmService.getCustomProfiles()
+    const modelProfiles = llmService.getModelProfiles()
+    return { success: true, profiles, current, config, customProfiles, modelProfiles }
   } catch (error) {
     console.error('Error getting performance profiles:', error)
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
   }
 })
 
+ipcMain.handle('llm:saveCustomProfile', async (event, profile: CustomProfile) => {
+  try {
+    const result = llmService.saveCustomProfile(profile)
+    return { success: true, profile: result.profile, warnings: result.warnings }
+  } catch (error) {
+    console.error('Error saving custom profile:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:deleteCustomProfile', async (event, name: string) => {
+  try {
+    llmService.deleteCustomProfile(name)
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting custom profile:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:setModelProfile', async (event, filename: string, profile: string | null) => {
+  try {
+    llmService.setModelProfile(filename, profile)
+    return { success: true }
+  } catch (error) {
+    console.error('Error assigning model profile:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:getChatTemplate', async (event, filename: string) => {
+  try {
+    const info = await llmService.getChatTemplateInfo(filename)
+    return { success: true, info, templates: CHAT_TEMPLATES }
+  } catch (error) {
+    console.error('Error reading chat template:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:setChatTemplate', async (event, filename: string, setting: ChatTemplateSetting | null) => {
+  try {
+    const info = await llmService.setChatTemplate(filename, setting)
+    return { success: true, info }
+  } catch (error) {
+    console.error('Error setting chat template:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:previewPrompt', async (event, messages: PromptPreviewMessage[], setting?: ChatTemplateSetting) => {
+  try {
+    const preview = await llmService.previewPrompt(messages, setting)
+    return { success: true, preview }
+  } catch (error) {
+    console.error('Error previewing prompt:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:getContextUsage', async (event, conversationId?: string) => {
+  try {
+    return { success: true, usage: llmService.getContextUsage(conversationId) }
+  } catch (error) {
+    console.error('Error measuring context usage:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:getContextSettings', async () => {
+  return { success: true, settings: llmService.getContextSettings() }
+})
+
+ipcMain.handle('llm:setContextSettings', async (event, changes: Partial<ContextSettings>) => {
+  try {
+    return { success: true, settings: llmService.setContextSettings(changes) }
+  } catch (error) {
+    console.error('Error saving context settings:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:getKVCacheInfo', async () => {
+  return { success: true, info: llmService.getKVCacheInfo() }
+})
+
+ipcMain.handle('llm:setKVCacheSettings', async (event, changes: Partial<KVCacheSettings>) => {
+  try {
+    llmService.setKVCacheSettings(changes)
+    return { success: true, info: llmService.getKVCacheInfo() }
+  } catch (error) {
+    console.error('Error saving KV cache settings:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:clearKVCache', async () => {
+  try {
+    llmService.clearKVCache()
+    return { success: true, info: llmService.getKVCacheInfo() }
+  } catch (error) {
+    console.error('Error clearing KV cache:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+// Called when the chat switches agents; applies or removes the agent's LoRA adapter
+ipcMain.handle('llm:setActiveAgent', async (event, agentId: string | null) => {
+  try {
+    const agent = agentId ? agentService.getAgentById(agentId) : null
+    if (agentId && !agent) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    const adapter = await llmService.setActiveAgent(agent)
+    return { success: true, adapter }
+  } catch (error) {
+    console.error('Error activating agent:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:getSpeculativeStats', async () => {
+  return { success: true, stats: llmService.getSpeculativeStats() }
+})
+
+ipcMain.handle('llm:getSchedulerInfo', async () => {
+  return { success: true, info: llmService.getSchedulerInfo() }
+})
+
+ipcMain.handle('llm:setSchedulerSettings', async (event, changes: Partial<SchedulerSettings>) => {
+  try {
+    llmService.setSchedulerSettings(changes)
+    return { success: true, info: llmService.getSchedulerInfo() }
+  } catch (error) {
+    console.error('Error saving scheduler settings:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:runBenchmark', async (event, overrides?: { threads?: number; batchSize?: number }) => {
+  try {
+    const result = await llmService.runBenchmark(overrides)
+    return { success: true, result }
+  } catch (error) {
+    console.error('Error running benchmark:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:autoTune', async () => {
+  try {
+    const { best, results, profile, warnings } = await llmService.autoTune()
+    return { success: true, best, results, profile, warnings }
+  } catch (error) {
+    console.error('Error auto-tuning:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:cancelBenchmark', async () => {
+  return { success: llmService.cancelBenchmark() }
+})
+
+ipcMain.handle('llm:getBenchmarkResults', async () => {
+  try {
+    return { success: true, results: llmService.getBenchmarkResults() }
+  } catch (error) {
+    console.error('Error reading benchmark results:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:clearBenchmarkResults', async () => {
+  try {
+    llmService.clearBenchmarkResults()
+    return { success: true }
+  } catch (error) {
+    console.error('Error clearing benchmark results:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('llm:getLoadPlans', async (event, filename?: string) => {
+  try {
+    const { modelName, plans } = await llmService.getLoadPlans(filename)
+    return { success: true, modelName, plans, active: llmService.getActiveLoadPlan() }
+  } catch (error) {
+    console.error('Error planning model load:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('llm:setPerformanceProfile', async (event, profile: string) => {
   try {
-    llmService.setPerformanceProfile(profile as any)
-    return { success: true, message: 'Profile updated. Restart required for changes to take effect.' }
+    llmService.setPerformanceProfile(profile)
+    return { success: true, message: 'Profile updated. It applies the next time a model is loaded.' }
   } catch (error) {
     console.error('Error setting performance profile:', error)
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
   }
 })
 
+// IPC handlers for conversation history
+ipcMain.handle('conversation:create', async (event, options?: { title?: string; systemPrompt?: string; agentId?: string }) => {
+  try {
+    const conversation = conversationService.createConversation(options)
+    return { success: true, data: conversation }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('conversation:getAll', async (event, query?: string) => {
+  try {
+    const conversations = query
+      ? conversationService.searchConversations(query)
+      : conversationService.getAllConversations()
+    return { success: true, data: conversations }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('conversation:getMessages', async (event, conversationId: string) => {
+  try {
+    const messages = conversationService.getMessages(conversationId)
+    return { success: true, data: messages }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('conversation:rename', async (event, conversationId: string, title: string) => {
+  try {
+    const conversation = conversationService.renameConversation(conversationId, title)
+    return { success: !!conversation, data: conversation }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('conversation:delete', async (event, conversationId: string) => {
+  try {
+    const success = conversationService.deleteConversation(conversationId)
+    llmService.forgetConversation(conversationId)
+    return { success, data: success }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 // IPC handlers for distributed inference
 ipcMain.handle('distributed:getStatus', async () => {
   try {
@@ -807,8 +1294,8 @@ ipcMain.handle('distributed:updateConfig', async (event, config) => {
 
 ipcMain.handle('distributed:updateUserProfile', async (event, profile) => {
   try {
-    await distributedService.updateUserProfile(profile)
-    return { success: true }
+    const updated = await distributedService.updateUserProfile(profile)
+    return { success: true, profile: updated }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
   }
@@ -838,6 +1325,15 @@ ipcMain.handle('distributed:getMetrics', async () => {
   }
 })
 
+ipcMain.handle('distributed:getRequestMetrics', async () => {
+  try {
+    const { requests, circuits } = distributedService.getRequestMetrics()
+    return { success: true, requests, circuits }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('distributed:getComputeDistribution', async () => {
   try {
     return { success: true, distribution: distributedService.getComputeDistribution() }
@@ -1040,15 +1536,37 @@ function getMimeType(filename: string): string {
   return mimeTypes[ext] || 'application/octet-stream'
 }
 
-// Cleanup on app quit
-app.on('before-quit', () => {
+// Cleanup on app quit. The first attempt waits (briefly) for the conversation KV cache to be saved.
+let sessionStateSaved = false
+app.on('before-quit', (event) => {
+  if (llmService && !sessionStateSaved) {
+    sessionStateSaved = true
+    event.preventDefault()
+    Promise.race([
+      llmService.saveSessionState(),
+      new Promise(resolve => setTimeout(resolve, 5000))
+    ])
+      .catch(error => console.error('Failed to save session state:', error))
+      .finally(() => app.quit())
+    return
+  }
+
   if (llmService) {
     llmService.dispose()
   }
+  if (embeddingService) {
+    embeddingService.dispose()
+  }
+  if (downloadManager) {
+    downloadManager.dispose()
+  }
   if (distributedService) {
     distributedService.dispose()
   }
   if (agentService) {
     agentService.close()
   }
+  if (conversationService) {
+    conversationService.close()
+  }
 })
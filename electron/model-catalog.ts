@@ -0,0 +1,224 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { app } from 'electron'
+import { LLMConfigManager, type PerformanceProfile, type HardwareInfo } from './llm-config.js'
+import type { LLMSettingsStore } from './llm-settings.js'
+
+// Bump when the entry format changes incompatibly; newer catalogs are rejected rather than misread
+export const SUPPORTED_CATALOG_VERSION = 1
+
+export interface ModelCatalogEntry {
+  id: string
+  name: string
+  author: string
+  description: string
+  url: string
+  filename: string
+  sha256?: string
+  sizeGB: number // download size
+  parameterCount?: number
+  quantization: string
+  ramRequiredGB: number // weights plus a typical context
+  contextLength: number
+  recommendedProfile: PerformanceProfile
+}
+
+export interface ModelCatalog {
+  version: number
+  updatedAt?: string
+  models: ModelCatalogEntry[]
+}
+
+export type ModelCompatibility = 'great' | 'good' | 'tight' | 'incompatible'
+
+export interface ScoredCatalogEntry extends ModelCatalogEntry {
+  score: number // 0-100, higher is a better pick for this machine
+  compatibility: ModelCompatibility
+  reasons: string[]
+}
+
+const PROFILE_RANK: Record<PerformanceProfile, number> = {
+  'auto': 0,
+  'cpu-only': 1,
+  'balanced': 2,
+  'performance': 3,
+  'maximum': 4,
+  'extreme': 5
+}
+
+// Validates a catalog document; malformed entries are dropped with a warning
+export function parseModelCatalog(data: any): ModelCatalog {
+  if (!data || typeof data !== 'object' || typeof data.version !== 'number' || !Array.isArray(data.models)) {
+    throw new Error('Invalid model catalog: expected { version, models[] }')
+  }
+  if (data.version > SUPPORTED_CATALOG_VERSION) {
+    throw new Error(`Unsupported model catalog version ${data.version} (supported: ${SUPPORTED_CATALOG_VERSION})`)
+  }
+
+  const models: ModelCatalogEntry[] = []
+  for (const entry of data.models) {
+    const isValid = entry &&
+      typeof entry.id === 'string' &&
+      typeof entry.name === 'string' &&
+      typeof entry.url === 'string' && /^https?:\/\//i.test(entry.url) &&
+      typeof entry.filename === 'string' && entry.filename.endsWith('.gguf') && path.basename(entry.filename) === entry.filename &&
+      typeof entry.ramRequiredGB === 'number' && entry.ramRequiredGB > 0 &&
+      (entry.sha256 === undefined || /^[a-f0-9]{64}$/i.test(entry.sha256)) &&
+      (entry.recommendedProfile === undefined || entry.recommendedProfile in PROFILE_RANK)
+
+    if (!isValid) {
+      console.warn('Skipping invalid model catalog entry:', entry?.id ?? entry)
+      continue
+    }
+
+    models.push({
+      id: entry.id,
+      name: entry.name,
+      author: entry.author || 'unknown',
+      description: entry.description || '',
+      url: entry.url,
+      filename: entry.filename,
+      sha256: entry.sha256?.toLowerCase(),
+      sizeGB: Number(entry.sizeGB) || 0,
+      parameterCount: typeof entry.parameterCount === 'number' ? entry.parameterCount : undefined,
+      quantization: entry.quantization || 'unknown',
+      ramRequiredGB: entry.ramRequiredGB,
+      contextLength: Number(entry.contextLength) || 2048,
+      recommendedProfile: entry.recommendedProfile || 'balanced'
+    })
+  }
+
+  return { version: data.version, updatedAt: data.updatedAt, models }
+}
+
+// Prefers the largest model that leaves comfortable headroom, penalizing ones that need a stronger profile
+export function scoreCatalogEntry(entry: ModelCatalogEntry, hardware: HardwareInfo): ScoredCatalogEntry {
+  const reasons: string[] = []
+  const ratio = entry.ramRequiredGB / Math.max(hardware.memoryGB, 1)
+  let compatibility: ModelCompatibility
+  let score: number
+
+  if (ratio > 0.9) {
+    compatibility = 'incompatible'
+    score = 0
+    reasons.push(`needs ${entry.ramRequiredGB}gb ram, system has ${hardware.memoryGB}gb`)
+  } else {
+    if (ratio <= 0.5) {
+      compatibility = 'great'
+      score = 60 + 40 * (ratio / 0.5)
+    } else if (ratio <= 0.75) {
+      compatibility = 'good'
+      score = 100 - (ratio - 0.5) * 160
+    } else {
+      compatibility = 'tight'
+      score = 40 - (ratio - 0.75) * 200
+    }
+    reasons.push(`uses ~${Math.round(ratio * 100)}% of ${hardware.memoryGB}gb ram`)
+
+    const profileGap = PROFILE_RANK[entry.recommendedProfile] - PROFILE_RANK[hardware.autoProfile]
+    if (profileGap > 0) {
+      score -= 15 * profileGap
+      reasons.push(`recommended profile "${entry.recommendedProfile}" is above this machine's "${hardware.autoProfile}"`)
+    }
+  }
+
+  return {
+    ...entry,
+    score: Math.max(0, Math.min(100, Math.round(score))),
+    compatibility,
+    reasons
+  }
+}
+
+export class ModelCatalogService {
+  private settings: LLMSettingsStore
+  private catalog: ModelCatalog
+  private source = 'bundled'
+
+  constructor(settings: LLMSettingsStore) {
+    this.settings = settings
+    this.catalog = this.loadBundled()
+  }
+
+  private getBundledPath(): string {
+    return path.join(app.getAppPath(), 'resources', 'model-catalog.json')
+  }
+
+  private getCachePath(): string {
+    return path.join(app.getPath('userData'), 'model-catalog.cache.json')
+  }
+
+  private loadBundled(): ModelCatalog {
+    try {
+      return parseModelCatalog(JSON.parse(fs.readFileSync(this.getBundledPath(), 'utf-8')))
+    } catch (error) {
+      console.error('Failed to load bundled model catalog:', error)
+      return { version: SUPPORTED_CATALOG_VERSION, models: [] }
+    }
+  }
+
+  // Reads the catalog from an http(s) URL, a file:// URL or a local path
+  private async fetchCatalog(location: string): Promise<any> {
+    if (/^https?:\/\//i.test(location)) {
+      const response = await fetch(location, { signal: AbortSignal.timeout(10000) })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      return response.json()
+    }
+    const filePath = location.startsWith('file://') ? fileURLToPath(location) : location
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf-8'))
+  }
+
+  // Loads the configured catalog URL, falling back to the last good copy and then the bundled file
+  async refresh(): Promise<void> {
+    const catalogUrl = this.settings.get().catalogUrl
+    if (!catalogUrl) {
+      this.catalog = this.loadBundled()
+      this.source = 'bundled'
+      return
+    }
+
+    try {
+      this.catalog = parseModelCatalog(await this.fetchCatalog(catalogUrl))
+      this.source = catalogUrl
+      fs.writeFileSync(this.getCachePath(), JSON.stringify({ url: catalogUrl, catalog: this.catalog }, null, 2))
+      console.log(`Loaded model catalog v${this.catalog.version} from ${catalogUrl} (${this.catalog.models.length} models)`)
+    } catch (error) {
+      console.error(`Failed to load model catalog from ${catalogUrl}:`, error)
+      try {
+        const cached = JSON.parse(fs.readFileSync(this.getCachePath(), 'utf-8'))
+        if (cached.url !== catalogUrl) {
+          throw new Error('cached catalog is for a different URL')
+        }
+        this.catalog = parseModelCatalog(cached.catalog)
+        this.source = `${catalogUrl} (cached)`
+      } catch {
+        this.catalog = this.loadBundled()
+        this.source = 'bundled'
+      }
+    }
+  }
+
+  async setCatalogUrl(catalogUrl: string | null): Promise<void> {
+    this.settings.update({ catalogUrl: catalogUrl?.trim() || undefined })
+    await this.refresh()
+  }
+
+  getInfo(): { version: number; updatedAt?: string; source: string } {
+    return { version: this.catalog.version, updatedAt: this.catalog.updatedAt, source: this.source }
+  }
+
+  // Entries scored against this machine, best match first
+  getScoredEntries(): ScoredCatalogEntry[] {
+    const hardware = LLMConfigManager.getHardwareInfo()
+    return this.catalog.models
+      .map(entry => scoreCatalogEntry(entry, hardware))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  findByFilename(filename: string): ModelCatalogEntry | undefined {
+    return this.catalog.models.find(entry => entry.filename === filename)
+  }
+}
@@ -0,0 +1,286 @@
+import fs from 'fs'
+import path from 'path'
+import { app } from 'electron'
+import type { LLMService } from './llm-service.js'
+import { readGGUFMetadata, checkAdapterFit, type GGUFModelMetadata } from './gguf-metadata.js'
+import { ensureFreeSpace, getFreeSpace } from './disk-space.js'
+
+export interface InstalledModelFile {
+  filename: string
+  sizeBytes: number
+  isSymlink: boolean
+  targetPath?: string // where a symlinked model actually lives
+  modifiedAt: string
+}
+
+export interface DiskUsage {
+  modelsDir: string
+  modelsBytes: number // bytes stored in the models directory (symlinks count as 0)
+  freeBytes: number
+  totalBytes: number
+  models: InstalledModelFile[]
+}
+
+export interface InstalledAdapter {
+  filename: string
+  sizeBytes: number
+  architecture?: string
+  baseModelName?: string // the model it was trained on, if recorded
+  alpha?: number
+  compatibleModels: { filename: string; reason: string }[] // installed base models it can be applied to
+  active: boolean // attached to the loaded context right now
+  error?: string // the header couldn't be read
+}
+
+function getModelsDir(): string {
+  return path.join(app.getPath('userData'), 'models')
+}
+
+// LoRA adapters live in their own folder so they're never picked up as base models
+function getAdaptersDir(): string {
+  return path.join(getModelsDir(), 'adapters')
+}
+
+export class ModelLibraryService {
+  private llmService: LLMService
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService
+  }
+
+  private resolveInstalled(filename: string): string {
+    const name = path.basename(filename)
+    if (name !== filename || !name.endsWith('.gguf')) {
+      throw new Error(`Invalid model filename: ${filename}`)
+    }
+    const modelPath = path.join(getModelsDir(), name)
+    if (!fs.existsSync(modelPath) && !this.isSymlink(modelPath)) {
+      throw new Error(`Model not found: ${filename}`)
+    }
+    return modelPath
+  }
+
+  private isSymlink(filePath: string): boolean {
+    try {
+      return fs.lstatSync(filePath).isSymbolicLink()
+    } catch {
+      return false
+    }
+  }
+
+  listModels(): InstalledModelFile[] {
+    const modelsDir = getModelsDir()
+    if (!fs.existsSync(modelsDir)) {
+      return []
+    }
+
+    const models: InstalledModelFile[] = []
+    for (const filename of fs.readdirSync(modelsDir).filter(file => file.endsWith('.gguf'))) {
+      const filePath = path.join(modelsDir, filename)
+      try {
+        const linkStats = fs.lstatSync(filePath)
+        const isSymlink = linkStats.isSymbolicLink()
+        // A dangling symlink still shows up so it can be deleted
+        const stats = isSymlink && fs.existsSync(filePath) ? fs.statSync(filePath) : linkStats
+        models.push({
+          filename,
+          sizeBytes: isSymlink && !fs.existsSync(filePath) ? 0 : stats.size,
+          isSymlink,
+          targetPath: isSymlink ? fs.readlinkSync(filePath) : undefined,
+          modifiedAt: stats.mtime.toISOString()
+        })
+      } catch (error) {
+        console.error(`Error reading model file ${filename}:`, error)
+      }
+    }
+    return models.sort((a, b) => a.filename.localeCompare(b.filename))
+  }
+
+  getDiskUsage(): DiskUsage {
+    const modelsDir = getModelsDir()
+    const models = this.listModels()
+    const { freeBytes, totalBytes } = getFreeSpace(modelsDir)
+    return {
+      modelsDir,
+      modelsBytes: models.filter(model => !model.isSymlink).reduce((sum, model) => sum + model.sizeBytes, 0),
+      freeBytes,
+      totalBytes,
+      models
+    }
+  }
+
+  // Copies (or links) a GGUF from anywhere on disk into the models directory
+  async importModel(sourcePath: string, mode: 'copy' | 'symlink' = 'copy'): Promise<InstalledModelFile> {
+    if (!sourcePath.endsWith('.gguf')) {
+      throw new Error('Only .gguf model files can be imported')
+    }
+    // Validates the header up front so a broken file never lands in the library
+    const metadata = readGGUFMetadata(sourcePath)
+
+    const modelsDir = getModelsDir()
+    const destination = path.join(modelsDir, path.basename(sourcePath))
+    if (fs.existsSync(destination) || this.isSymlink(destination)) {
+      throw new Error(`A model named ${path.basename(sourcePath)} is already installed`)
+    }
+    if (path.resolve(sourcePath) === path.resolve(destination)) {
+      throw new Error('This model is already in the models folder')
+    }
+
+    if (mode === 'symlink') {
+      console.log(`Linking model ${sourcePath} -> ${destination}`)
+      await fs.promises.symlink(path.resolve(sourcePath), destination, 'file')
+    } else {
+      ensureFreeSpace(modelsDir, metadata.fileSizeBytes)
+      console.log(`Copying model ${sourcePath} -> ${destination}`)
+      await this.copyFile(sourcePath, destination)
+    }
+
+    return this.listModels().find(model => model.filename === path.basename(destination))!
+  }
+
+  // Copies through a temporary file so an interrupted copy never looks installed
+  private async copyFile(sourcePath: string, destination: string): Promise<void> {
+    const tempPath = `${destination}.tmp`
+    try {
+      await fs.promises.copyFile(sourcePath, tempPath, fs.constants.COPYFILE_EXCL)
+      await fs.promises.rename(tempPath, destination)
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true })
+      throw error
+    }
+  }
+
+  async deleteModel(filename: string): Promise<void> {
+    const modelPath = this.resolveInstalled(filename)
+
+    await this.llmService.releaseModelFile(filename, async () => {
+      this.llmService.updateSelectedModelFile(filename, null)
+      // For symlinks this removes only the link, never the user's original file
+      await fs.promises.unlink(modelPath)
+    })
+    console.log(`Deleted model: ${filename}`)
+  }
+
+  async renameModel(filename: string, newFilename: string): Promise<InstalledModelFile> {
+    const modelPath = this.resolveInstalled(filename)
+    const newName = newFilename.trim().endsWith('.gguf') ? newFilename.trim() : `${newFilename.trim()}.gguf`
+    if (!newName || path.basename(newName) !== newName || newName === '.gguf') {
+      throw new Error(`Invalid model filename: ${newFilename}`)
+    }
+    if (newName === filename) {
+      return this.listModels().find(model => model.filename === filename)!
+    }
+
+    const newPath = path.join(getModelsDir(), newName)
+    if (fs.existsSync(newPath) || this.isSymlink(newPath)) {
+      throw new Error(`A model named ${newName} already exists`)
+    }
+
+    // The loaded file is unloaded first and reloaded under its new name
+    const wasLoaded = await this.llmService.releaseModelFile(filename, async () => {
+      await fs.promises.rename(modelPath, newPath)
+      this.llmService.updateSelectedModelFile(filename, newName)
+    })
+    console.log(`Renamed model: ${filename} -> ${newName}`)
+
+    if (wasLoaded) {
+      // The rename itself stands; the caller still has to learn that no model is loaded now
+      try {
+        await this.llmService.loadModel(newName)
+      } catch (error) {
+        console.error('Failed to reload renamed model:', error)
+        throw new Error(`Renamed to ${newName}, but loading it again failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return this.listModels().find(model => model.filename === newName)!
+  }
+
+  // LoRA adapters with the installed base models each one fits
+  listAdapters(): InstalledAdapter[] {
+    const adaptersDir = getAdaptersDir()
+    if (!fs.existsSync(adaptersDir)) {
+      return []
+    }
+
+    const baseModels: GGUFModelMetadata[] = []
+    for (const model of this.listModels()) {
+      try {
+        const metadata = readGGUFMetadata(path.join(getModelsDir(), model.filename))
+        if (!metadata.adapter && !metadata.isEmbeddingModel) {
+          baseModels.push(metadata)
+        }
+      } catch {
+        // Broken or dangling files can't host an adapter
+      }
+    }
+    const active = this.llmService.getActiveAdapter()?.filename
+
+    return fs.readdirSync(adaptersDir)
+      .filter(file => file.endsWith('.gguf'))
+      .sort((a, b) => a.localeCompare(b))
+      .map(filename => {
+        const filePath = path.join(adaptersDir, filename)
+        try {
+          const metadata = readGGUFMetadata(filePath)
+          return {
+            filename,
+            sizeBytes: metadata.fileSizeBytes,
+            architecture: metadata.architecture,
+            baseModelName: metadata.adapter?.baseModelName,
+            alpha: metadata.adapter?.alpha,
+            compatibleModels: baseModels
+              .map(base => ({ filename: base.filename, ...checkAdapterFit(metadata, base) }))
+              .filter(result => result.fits)
+              .map(({ filename, reason }) => ({ filename, reason })),
+            active: filename === active,
+            error: metadata.adapter ? undefined : 'Not a LoRA adapter'
+          }
+        } catch (error) {
+          return {
+            filename,
+            sizeBytes: fs.statSync(filePath).size,
+            compatibleModels: [],
+            active: false,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        }
+      })
+  }
+
+  async importAdapter(sourcePath: string): Promise<InstalledAdapter> {
+    if (!sourcePath.endsWith('.gguf')) {
+      throw new Error('Only .gguf adapter files can be imported')
+    }
+    const metadata = readGGUFMetadata(sourcePath)
+    if (!metadata.adapter) {
+      throw new Error(`${path.basename(sourcePath)} is not a LoRA adapter`)
+    }
+
+    const adaptersDir = getAdaptersDir()
+    const destination = path.join(adaptersDir, path.basename(sourcePath))
+    if (fs.existsSync(destination)) {
+      throw new Error(`An adapter named ${path.basename(sourcePath)} is already installed`)
+    }
+    fs.mkdirSync(adaptersDir, { recursive: true })
+    ensureFreeSpace(adaptersDir, metadata.fileSizeBytes)
+    console.log(`Copying adapter ${sourcePath} -> ${destination}`)
+    await this.copyFile(sourcePath, destination)
+
+    return this.listAdapters().find(adapter => adapter.filename === path.basename(destination))!
+  }
+
+  async deleteAdapter(filename: string): Promise<void> {
+    const name = path.basename(filename)
+    const adapterPath = path.join(getAdaptersDir(), name)
+    if (name !== filename || !name.endsWith('.gguf') || !fs.existsSync(adapterPath)) {
+      throw new Error(`Adapter not found: ${filename}`)
+    }
+
+    if (this.llmService.getActiveAdapter()?.filename === name) {
+      await this.llmService.setAdapter(null)
+    }
+    await fs.promises.unlink(adapterPath)
+    console.log(`Deleted adapter: ${name}`)
+  }
+}
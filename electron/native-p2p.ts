@@ -18,6 +18,7 @@ export interface Peer {
   userAgent: string
   lastSeen: number
   specs?: SystemSpecs
+  relayPort?: number // where the peer's relay server takes inference requests
 }
 
 export class NativeP2PDiscovery extends EventEmitter {
@@ -27,17 +28,19 @@ export class NativeP2PDiscovery extends EventEmitter {
   private deviceId: string
   private deviceName: string
   private apiPort: number
+  private relayPort?: number
   private isRunning = false
   private cleanupInterval?: NodeJS.Timeout
   private announceInterval?: NodeJS.Timeout
   private queryInterval?: NodeJS.Timeout
   private systemSpecs: SystemSpecs
 
-  constructor(deviceId: string, deviceName: string, apiPort: number = 3000) {
+  constructor(deviceId: string, deviceName: string, apiPort: number = 3000, relayPort?: number) {
     super()
     this.deviceId = deviceId
     this.deviceName = deviceName
     this.apiPort = apiPort
+    this.relayPort = relayPort
     this.systemSpecs = this.collectSystemSpecs()
   }
 
@@ -113,6 +116,20 @@ export class NativeP2PDiscovery extends EventEmitter {
     console.log('✓ Native P2P discovery stopped')
   }
 
+  // Re-publishes the service under the new name; the old name is withdrawn so peers drop it right away
+  setDeviceName(deviceName: string): void {
+    if (deviceName === this.deviceName) return
+
+    if (this.mdns) {
+      this.mdns.respond({
+        answers: [{ name: this.serviceType, type: 'PTR', ttl: 0, data: `${this.deviceName}.${this.serviceType}` }]
+      })
+    }
+    console.log(`Announcing as ${deviceName} (was ${this.deviceName})`)
+    this.deviceName = deviceName
+    this.announceService()
+  }
+
   private announceService(): void {
     if (!this.mdns) return
 
@@ -149,7 +166,8 @@ export class NativeP2PDiscovery extends EventEmitter {
             `arch=${this.systemSpecs.arch}`,
             `cpu=${this.systemSpecs.cpu}`,
             `memory=${this.systemSpecs.memory}`,
-            `vram=${this.systemSpecs.vram}`
+            `vram=${this.systemSpecs.vram}`,
+            ...(this.relayPort ? [`relay=${this.relayPort}`] : [])
           ]
         },
         ...addresses.map((addr: string) => ({
@@ -221,7 +239,8 @@ export class NativeP2PDiscovery extends EventEmitter {
             vram: parseInt(txtData.vram || '0'),
             platform: txtData.platform || 'unknown',
             arch: txtData.arch || 'unknown'
-          }
+          },
+          relayPort: txtData.relay ? parseInt(txtData.relay) : undefined
         }
 
         const isNewPeer = !this.peers.has(peer.id)
@@ -4,17 +4,132 @@ contextBridge.exposeInMainWorld('electronAPI', {
   platform: process.platform,
   getEnv: (key: string) => ipcRenderer.invoke('app:getEnv', key),
   llm: {
-    chat: (message: string) => ipcRenderer.invoke('llm:chat', message),
+    chat: (message: string, options?: { requestId?: string; conversationId?: string; generation?: any }) => ipcRenderer.invoke('llm:chat', message, options),
+    chatStructured: (message: string, schema: object, options?: { requestId?: string; conversationId?: string; generation?: any }) => ipcRenderer.invoke('llm:chatStructured', message, schema, options),
+    embed: (input: string | string[], options?: { model?: string }) => ipcRenderer.invoke('llm:embed', input, options),
+    cancel: (requestId: string) => ipcRenderer.invoke('llm:cancel', requestId),
+    chatStream: (message: string, handlers: {
+      onToken?: (token: string) => void
+      onQueued?: (position: number) => void
+      onDone?: (response: string) => void
+      onError?: (error: string) => void
+    }, options?: { conversationId?: string; generation?: any }) => {
+      const requestId = `stream-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+      const onChunk = (_: any, data: any) => {
+        if (data.requestId === requestId) handlers.onToken?.(data.token)
+      }
+      const onQueued = (_: any, data: any) => {
+        if (data.requestId === requestId) handlers.onQueued?.(data.position)
+      }
+      const onDone = (_: any, data: any) => {
+        if (data.requestId !== requestId) return
+        removeListeners()
+        handlers.onDone?.(data.response)
+      }
+      const onError = (_: any, data: any) => {
+        if (data.requestId !== requestId) return
+        removeListeners()
+        handlers.onError?.(data.error)
+      }
+      const removeListeners = () => {
+        ipcRenderer.removeListener('llm:chat-stream-chunk', onChunk)
+        ipcRenderer.removeListener('llm:chat-stream-queued', onQueued)
+        ipcRenderer.removeListener('llm:chat-stream-done', onDone)
+        ipcRenderer.removeListener('llm:chat-stream-error', onError)
+      }
+
+      ipcRenderer.on('llm:chat-stream-chunk', onChunk)
+      ipcRenderer.on('llm:chat-stream-queued', onQueued)
+      ipcRenderer.on('llm:chat-stream-done', onDone)
+      ipcRenderer.on('llm:chat-stream-error', onError)
+      ipcRenderer.send('llm:chat-stream', requestId, message, options)
+
+      return requestId
+    },
     getModelInfo: () => ipcRenderer.invoke('llm:getModelInfo'),
     reinitialize: () => ipcRenderer.invoke('llm:reinitialize'),
     getAvailableModels: () => ipcRenderer.invoke('llm:getAvailableModels'),
+    getModelMetadata: (filename: string) => ipcRenderer.invoke('llm:getModelMetadata', filename),
+    loadModel: (filename: string) => ipcRenderer.invoke('llm:loadModel', filename),
+    onModelLoadProgress: (callback: (data: { status: 'loading' | 'loaded' | 'error'; modelName: string; progress?: number; error?: string }) => void) => {
+      const listener = (_: any, data: any) => callback(data)
+      ipcRenderer.on('llm:model-load-progress', listener)
+      return () => {
+        ipcRenderer.removeListener('llm:model-load-progress', listener)
+      }
+    },
     getPerformanceProfiles: () => ipcRenderer.invoke('llm:getPerformanceProfiles'),
     setPerformanceProfile: (profile: string) => ipcRenderer.invoke('llm:setPerformanceProfile', profile),
+    getLoadPlans: (filename?: string) => ipcRenderer.invoke('llm:getLoadPlans', filename),
+    getContextUsage: (conversationId?: string) => ipcRenderer.invoke('llm:getContextUsage', conversationId),
+    getContextSettings: () => ipcRenderer.invoke('llm:getContextSettings'),
+    setContextSettings: (changes: any) => ipcRenderer.invoke('llm:setContextSettings', changes),
+    onContextUsage: (callback: (data: any) => void) => {
+      const listener = (_: any, data: any) => callback(data)
+      ipcRenderer.on('llm:context-usage', listener)
+      return () => {
+        ipcRenderer.removeListener('llm:context-usage', listener)
+      }
+    },
+    getKVCacheInfo: () => ipcRenderer.invoke('llm:getKVCacheInfo'),
+    setKVCacheSettings: (changes: any) => ipcRenderer.invoke('llm:setKVCacheSettings', changes),
+    clearKVCache: () => ipcRenderer.invoke('llm:clearKVCache'),
+    setActiveAgent: (agentId: string | null) => ipcRenderer.invoke('llm:setActiveAgent', agentId),
+    getSpeculativeStats: () => ipcRenderer.invoke('llm:getSpeculativeStats'),
+    onSpeculativeStats: (callback: (data: any) => void) => {
+      const listener = (_: any, data: any) => callback(data)
+      ipcRenderer.on('llm:speculative-stats', listener)
+      return () => {
+        ipcRenderer.removeListener('llm:speculative-stats', listener)
+      }
+    },
+    getSchedulerInfo: () => ipcRenderer.invoke('llm:getSchedulerInfo'),
+    setSchedulerSettings: (changes: any) => ipcRenderer.invoke('llm:setSchedulerSettings', changes),
+    runBenchmark: (overrides?: { threads?: number; batchSize?: number }) => ipcRenderer.invoke('llm:runBenchmark', overrides),
+    autoTune: () => ipcRenderer.invoke('llm:autoTune'),
+    cancelBenchmark: () => ipcRenderer.invoke('llm:cancelBenchmark'),
+    getBenchmarkResults: () => ipcRenderer.invoke('llm:getBenchmarkResults'),
+    clearBenchmarkResults: () => ipcRenderer.invoke('llm:clearBenchmarkResults'),
+    onBenchmarkProgress: (callback: (data: any) => void) => {
+      const listener = (_: any, data: any) => callback(data)
+      ipcRenderer.on('llm:benchmark-progress', listener)
+      return () => {
+        ipcRenderer.removeListener('llm:benchmark-progress', listener)
+      }
+    },
+    saveCustomProfile: (profile: any) => ipcRenderer.invoke('llm:saveCustomProfile', profile),
+    deleteCustomProfile: (name: string) => ipcRenderer.invoke('llm:deleteCustomProfile', name),
+    setModelProfile: (filename: string, profile: string | null) => ipcRenderer.invoke('llm:setModelProfile', filename, profile),
+    getChatTemplate: (filename: string) => ipcRenderer.invoke('llm:getChatTemplate', filename),
+    setChatTemplate: (filename: string, setting: any) => ipcRenderer.invoke('llm:setChatTemplate', filename, setting),
+    previewPrompt: (messages: any[], setting?: any) => ipcRenderer.invoke('llm:previewPrompt', messages, setting),
+  },
+  conversation: {
+    create: (options?: { title?: string; systemPrompt?: string; agentId?: string }) => ipcRenderer.invoke('conversation:create', options),
+    getAll: (query?: string) => ipcRenderer.invoke('conversation:getAll', query),
+    getMessages: (conversationId: string) => ipcRenderer.invoke('conversation:getMessages', conversationId),
+    rename: (conversationId: string, title: string) => ipcRenderer.invoke('conversation:rename', conversationId, title),
+    delete: (conversationId: string) => ipcRenderer.invoke('conversation:delete', conversationId),
   },
   model: {
-    download: (modelUrl: string, filename: string) => ipcRenderer.invoke('model:download', modelUrl, filename),
+    download: (modelUrl: string, filename: string, options?: { sha256?: string }) => ipcRenderer.invoke('model:download', modelUrl, filename, options),
+    enqueueDownload: (modelUrl: string, filename: string, options?: { sha256?: string }) => ipcRenderer.invoke('model:enqueueDownload', modelUrl, filename, options),
+    getCatalog: (refresh?: boolean) => ipcRenderer.invoke('model:getCatalog', refresh),
+    setCatalogUrl: (catalogUrl: string | null) => ipcRenderer.invoke('model:setCatalogUrl', catalogUrl),
+    getDownloads: () => ipcRenderer.invoke('model:getDownloads'),
+    pauseDownload: (id: string) => ipcRenderer.invoke('model:pauseDownload', id),
+    resumeDownload: (id: string) => ipcRenderer.invoke('model:resumeDownload', id),
+    cancelDownload: (id: string) => ipcRenderer.invoke('model:cancelDownload', id),
+    getLibrary: () => ipcRenderer.invoke('model:getLibrary'),
+    import: (mode?: 'copy' | 'symlink') => ipcRenderer.invoke('model:import', mode),
+    delete: (filename: string) => ipcRenderer.invoke('model:delete', filename),
+    rename: (filename: string, newFilename: string) => ipcRenderer.invoke('model:rename', filename, newFilename),
+    getAdapters: () => ipcRenderer.invoke('model:getAdapters'),
+    importAdapter: () => ipcRenderer.invoke('model:importAdapter'),
+    deleteAdapter: (filename: string) => ipcRenderer.invoke('model:deleteAdapter', filename),
     openDirectory: () => ipcRenderer.invoke('model:openDirectory'),
-    onDownloadProgress: (callback: (data: { filename: string; progress: number; downloadedSize?: number; totalSize?: number }) => void) => {
+    onDownloadProgress: (callback: (data: { id: string; filename: string; status: string; progress: number; downloadedSize?: number; totalSize?: number; speed?: number; eta?: number; error?: string }) => void) => {
       ipcRenderer.on('model:download-progress', (_: any, data: any) => callback(data))
     },
     removeDownloadProgressListener: () => {
@@ -29,6 +144,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     testLocalAI: () => ipcRenderer.invoke('distributed:testLocalAI'),
     getPeers: () => ipcRenderer.invoke('distributed:getPeers'),
     getMetrics: () => ipcRenderer.invoke('distributed:getMetrics'),
+    getRequestMetrics: () => ipcRenderer.invoke('distributed:getRequestMetrics'),
     getComputeDistribution: () => ipcRenderer.invoke('distributed:getComputeDistribution'),
     getCurrentRequest: () => ipcRenderer.invoke('distributed:getCurrentRequest'),
     getLocalAIStatus: () => ipcRenderer.invoke('distributed:getLocalAIStatus'),
@@ -0,0 +1,157 @@
+// How hybrid mode picks a backend: keep everything on this device, go for the quickest
+// answer, or hand work to peers that have nothing else to do
+export type RoutingRule = 'never-offload' | 'prefer-fastest' | 'prefer-idle-peers'
+
+export const ROUTING_RULES: RoutingRule[] = ['never-offload', 'prefer-fastest', 'prefer-idle-peers']
+
+export const DEFAULT_ROUTING_RULE: RoutingRule = 'prefer-fastest'
+
+export type RouteKind = 'local' | 'localai' | 'peer'
+
+export interface RouteCandidate {
+  id: string // 'local', 'localai' or the peer id
+  kind: RouteKind
+  name: string
+  available: boolean
+  unavailableReason?: string
+  specs?: { memory: number; vram: number } // GB, as advertised
+  load?: { slots: number; running: number; queued: number }
+  models: string[] // loaded model files or names; empty when unknown
+  pingMs?: number // round trip of the last status check
+}
+
+export interface RouteDecision {
+  candidate: RouteCandidate
+  score: number
+  reasons: string[]
+  ranked: RouteCandidate[] // available candidates, best first
+  // Every candidate with its score, best first; unavailable ones have no score
+  considered: { id: string; name: string; score?: number; reasons: string[] }[]
+}
+
+interface RouteStats {
+  firstTokenMs?: number
+  tokensPerSecond?: number
+}
+
+// Weight of the newest observation in the running averages
+const SMOOTHING = 0.3
+
+// Scores candidates from their specs, current load, recent speed and loaded models. Speed is
+// learned from finished requests, so a backend that has never answered is judged on specs alone.
+export class RequestRouter {
+  private stats = new Map<string, RouteStats>()
+
+  route(candidates: RouteCandidate[], rule: RoutingRule, model?: string): RouteDecision {
+    const scored = candidates.map(candidate => {
+      if (!candidate.available) {
+        return { candidate, score: undefined, reasons: [candidate.unavailableReason || 'unavailable'] }
+      }
+      if (rule === 'never-offload' && candidate.kind !== 'local') {
+        return { candidate, score: undefined, reasons: ['offloading is turned off'] }
+      }
+      return { candidate, ...this.score(candidate, rule, model) }
+    })
+
+    const ranked = scored
+      .filter((entry): entry is typeof entry & { score: number } => entry.score !== undefined)
+      .sort((a, b) => b.score - a.score)
+    const considered = [...ranked, ...scored.filter(entry => entry.score === undefined)].map(entry => ({
+      id: entry.candidate.id,
+      name: entry.candidate.name,
+      score: entry.score,
+      reasons: entry.reasons
+    }))
+
+    // This device can always try, even with no model loaded yet
+    const best = ranked[0] || {
+      candidate: candidates.find(candidate => candidate.kind === 'local')!,
+      score: 0,
+      reasons: ['no other backend is available']
+    }
+    return {
+      candidate: best.candidate,
+      score: best.score,
+      reasons: best.reasons,
+      ranked: ranked.map(entry => entry.candidate),
+      considered
+    }
+  }
+
+  // Folds one finished request into the backend's running averages
+  recordResult(id: string, result: { firstTokenMs?: number; tokens?: number; durationMs?: number }): void {
+    const stats = this.stats.get(id) || {}
+    if (result.firstTokenMs !== undefined) {
+      stats.firstTokenMs = this.smooth(stats.firstTokenMs, result.firstTokenMs)
+    }
+    if (result.tokens && result.durationMs && result.durationMs > 0) {
+      stats.tokensPerSecond = this.smooth(stats.tokensPerSecond, result.tokens / (result.durationMs / 1000))
+    }
+    this.stats.set(id, stats)
+  }
+
+  private smooth(previous: number | undefined, value: number): number {
+    return previous === undefined ? value : previous * (1 - SMOOTHING) + value * SMOOTHING
+  }
+
+  private score(candidate: RouteCandidate, rule: RoutingRule, model?: string): { score: number; reasons: string[] } {
+    const reasons: string[] = []
+    let score = 0
+
+    // Capacity: memory decides which models a node can hold at all
+    if (candidate.specs) {
+      const capacity = Math.min(candidate.specs.vram, 24) + Math.min(candidate.specs.memory, 64) / 4
+      score += capacity
+      reasons.push(`${candidate.specs.memory}GB RAM, ${candidate.specs.vram}GB VRAM (+${capacity.toFixed(0)})`)
+    }
+
+    // Same model means the same answers and no load on the other side
+    if (model && candidate.models.length > 0) {
+      // LocalAI lists model names, which are often the file name without the extension
+      if (candidate.models.some(name => name === model || name === model.replace(/\.gguf$/i, ''))) {
+        score += 30
+        reasons.push(`has ${model} loaded (+30)`)
+      } else {
+        score -= 20
+        reasons.push(`runs ${candidate.models[0]} instead (-20)`)
+      }
+    }
+
+    const idle = !!candidate.load && candidate.load.running === 0 && candidate.load.queued === 0
+    if (candidate.load) {
+      const busy = (candidate.load.running / Math.max(1, candidate.load.slots)) * 20 + candidate.load.queued * 15
+      if (busy > 0) {
+        score -= busy
+        reasons.push(`${candidate.load.running} running, ${candidate.load.queued} queued (-${busy.toFixed(0)})`)
+      } else {
+        reasons.push('idle')
+      }
+    }
+
+    const stats = this.stats.get(candidate.id)
+    const speedWeight = rule === 'prefer-fastest' ? 2 : 1
+    if (stats?.tokensPerSecond) {
+      const bonus = Math.min(stats.tokensPerSecond, 60) / 2 * speedWeight
+      score += bonus
+      reasons.push(`${stats.tokensPerSecond.toFixed(1)} tok/s recently (+${bonus.toFixed(0)})`)
+    }
+    const waitMs = stats?.firstTokenMs ?? candidate.pingMs
+    if (waitMs !== undefined) {
+      const penalty = Math.min(waitMs / 100, 30) * speedWeight
+      score -= penalty
+      reasons.push(`${Math.round(waitMs)}ms ${stats?.firstTokenMs !== undefined ? 'to first token' : 'ping'} (-${penalty.toFixed(0)})`)
+    }
+
+    if (rule === 'prefer-idle-peers') {
+      if (candidate.kind === 'peer' && idle) {
+        score += 40
+        reasons.push('idle peer preferred (+40)')
+      } else if (candidate.kind === 'local') {
+        score -= 10
+        reasons.push('keeping this device free (-10)')
+      }
+    }
+
+    return { score, reasons }
+  }
+}
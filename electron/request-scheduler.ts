@@ -0,0 +1,259 @@
+// Who a request is for; the local UI is always served before requests relayed from peers
+export type RequestPriority = 'interactive' | 'relay'
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, relay: 1 }
+
+export interface SchedulerSettings {
+  sequences: number // context sequences that generate in parallel; applied on the next model load
+  maxQueueDepth: number // requests waiting across all sources before new ones are turned away
+  maxQueuedPerSource: number // requests one source may have waiting, so a single peer can't fill the queue
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  sequences: 2,
+  maxQueueDepth: 32,
+  maxQueuedPerSource: 8
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority
+  source?: string // fairness is round-robin between sources, e.g. one per peer address
+  key?: string // requests sharing a key never run at the same time, e.g. one conversation
+  // Picks among the free slots, e.g. the one whose sequence already holds the conversation
+  preferSlot?: (freeSlots: number[]) => number | undefined
+  signal?: AbortSignal // aborting while queued rejects right away
+  // 1 means next to start; 0 is reported once the request is running
+  onQueuePosition?: (position: number) => void
+}
+
+export interface SchedulerStats {
+  slots: number
+  running: number
+  queued: number
+  queuedByPriority: Record<RequestPriority, number>
+}
+
+// Thrown when a request is refused because too many are already waiting
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QueueFullError'
+  }
+}
+
+interface QueuedTask {
+  seq: number
+  priority: RequestPriority
+  source: string
+  key?: string
+  exclusive: boolean
+  preferSlot?: (freeSlots: number[]) => number | undefined
+  onQueuePosition?: (position: number) => void
+  lastPosition?: number
+  start: (slot: number) => void
+  reject: (error: Error) => void
+}
+
+// Runs requests on a fixed number of slots (context sequences) by priority, then round-robin
+// between sources. Exclusive jobs such as model swaps wait for every slot to be idle and hold
+// back new requests until they finish.
+export class RequestScheduler {
+  private slots = 1
+  private limits: Pick<SchedulerSettings, 'maxQueueDepth' | 'maxQueuedPerSource'>
+  private queue: QueuedTask[] = []
+  private busySlots = new Set<number>()
+  private runningKeys = new Set<string>()
+  private exclusiveRunning = false
+  private lastServed = new Map<string, number>() // source -> serve counter when it last got a slot
+  private taskCounter = 0
+  private serveCounter = 0
+
+  constructor(settings: SchedulerSettings) {
+    this.limits = { maxQueueDepth: settings.maxQueueDepth, maxQueuedPerSource: settings.maxQueuedPerSource }
+  }
+
+  configure(settings: Pick<SchedulerSettings, 'maxQueueDepth' | 'maxQueuedPerSource'>): void {
+    this.limits = { maxQueueDepth: settings.maxQueueDepth, maxQueuedPerSource: settings.maxQueuedPerSource }
+  }
+
+  // Only changed while no request is running (model load or unload)
+  setSlotCount(slots: number): void {
+    this.slots = Math.max(1, slots)
+    this.dispatch()
+  }
+
+  schedule<T>(run: (slot: number) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const priority = options.priority || 'interactive'
+    const source = options.source || 'local'
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error('Request cancelled while queued'))
+    }
+    try {
+      this.makeRoom(priority, source)
+    } catch (error) {
+      return Promise.reject(error)
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.remove(task)) {
+          reject(new Error('Request cancelled while queued'))
+          this.dispatch()
+        }
+      }
+      const task: QueuedTask = {
+        seq: this.taskCounter++,
+        priority,
+        source,
+        key: options.key,
+        exclusive: false,
+        preferSlot: options.preferSlot,
+        onQueuePosition: options.onQueuePosition,
+        start: (slot) => {
+          options.signal?.removeEventListener('abort', onAbort)
+          this.report(task, 0)
+          run(slot).then(resolve, reject).finally(() => {
+            this.busySlots.delete(slot)
+            if (task.key) this.runningKeys.delete(task.key)
+            this.dispatch()
+          })
+        },
+        reject: (error) => {
+          options.signal?.removeEventListener('abort', onAbort)
+          reject(error)
+        }
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(task)
+      this.dispatch()
+    })
+  }
+
+  // Runs `run` with no request in flight
+  runExclusive<T>(run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        seq: this.taskCounter++,
+        priority: 'interactive',
+        source: 'exclusive',
+        exclusive: true,
+        start: () => {
+          run().then(resolve, reject).finally(() => {
+            this.exclusiveRunning = false
+            this.dispatch()
+          })
+        },
+        reject
+      })
+      this.dispatch()
+    })
+  }
+
+  getStats(): SchedulerStats {
+    const waiting = this.queue.filter(task => !task.exclusive)
+    return {
+      slots: this.slots,
+      running: this.busySlots.size,
+      queued: waiting.length,
+      queuedByPriority: {
+        interactive: waiting.filter(task => task.priority === 'interactive').length,
+        relay: waiting.filter(task => task.priority === 'relay').length
+      }
+    }
+  }
+
+  // Enforces the queue limits. A full queue turns away its newest lower-priority request
+  // to make room rather than refusing the local user.
+  private makeRoom(priority: RequestPriority, source: string): void {
+    const waiting = this.queue.filter(task => !task.exclusive)
+    if (waiting.filter(task => task.source === source).length >= this.limits.maxQueuedPerSource) {
+      throw new QueueFullError(`Too many queued requests from ${source} (limit ${this.limits.maxQueuedPerSource})`)
+    }
+    if (waiting.length < this.limits.maxQueueDepth) {
+      return
+    }
+    const victim = waiting
+      .filter(task => PRIORITY_RANK[task.priority] > PRIORITY_RANK[priority])
+      .sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || b.seq - a.seq)[0]
+    if (!victim) {
+      throw new QueueFullError(`Request queue is full (${waiting.length} waiting)`)
+    }
+    this.remove(victim)
+    victim.reject(new QueueFullError('Request was dropped from the full queue for a higher-priority request'))
+  }
+
+  private remove(task: QueuedTask): boolean {
+    const index = this.queue.indexOf(task)
+    if (index === -1) return false
+    this.queue.splice(index, 1)
+    return true
+  }
+
+  // Highest priority first; within it the source served longest ago, then arrival order
+  private pickNext(tasks: QueuedTask[], lastServed: Map<string, number>, runningKeys: Set<string>): QueuedTask | undefined {
+    const ready = tasks.filter(task => !task.exclusive && !(task.key && runningKeys.has(task.key)))
+    if (ready.length === 0) return undefined
+    const best = Math.min(...ready.map(task => PRIORITY_RANK[task.priority]))
+    return ready
+      .filter(task => PRIORITY_RANK[task.priority] === best)
+      .reduce((a, b) => {
+        const servedA = lastServed.get(a.source) ?? -1
+        const servedB = lastServed.get(b.source) ?? -1
+        if (servedA !== servedB) return servedA < servedB ? a : b
+        return a.seq < b.seq ? a : b
+      })
+  }
+
+  private dispatch(): void {
+    if (this.exclusiveRunning) return
+
+    const exclusive = this.queue.find(task => task.exclusive)
+    if (exclusive) {
+      if (this.busySlots.size === 0) {
+        this.remove(exclusive)
+        this.exclusiveRunning = true
+        exclusive.start(-1)
+      }
+    } else {
+      while (this.busySlots.size < this.slots) {
+        const task = this.pickNext(this.queue, this.lastServed, this.runningKeys)
+        if (!task) break
+        const free = Array.from({ length: this.slots }, (_, slot) => slot).filter(slot => !this.busySlots.has(slot))
+        const preferred = task.preferSlot?.(free)
+        const slot = preferred !== undefined && free.includes(preferred) ? preferred : free[0]
+
+        this.remove(task)
+        this.busySlots.add(slot)
+        if (task.key) this.runningKeys.add(task.key)
+        this.lastServed.set(task.source, this.serveCounter++)
+        task.start(slot)
+      }
+    }
+    this.reportPositions()
+  }
+
+  // Positions follow the order requests would start in if nothing else arrived
+  private reportPositions(): void {
+    if (!this.queue.some(task => task.onQueuePosition)) return
+    const remaining = this.queue.filter(task => !task.exclusive)
+    const lastServed = new Map(this.lastServed)
+    let counter = this.serveCounter
+    let position = 1
+    while (remaining.length > 0) {
+      const task = this.pickNext(remaining, lastServed, new Set())!
+      remaining.splice(remaining.indexOf(task), 1)
+      lastServed.set(task.source, counter++)
+      this.report(task, position++)
+    }
+  }
+
+  private report(task: QueuedTask, position: number): void {
+    if (!task.onQueuePosition || task.lastPosition === position) return
+    task.lastPosition = position
+    try {
+      task.onQueuePosition(position)
+    } catch (error) {
+      console.warn('Queue position callback failed:', error)
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import fs from 'fs'
+import path from 'path'
+import { app } from 'electron'
+
+// Settings kept as one JSON object in the user data folder. `validate` gets whatever was parsed
+// from the file and returns the settings, or throws to start over from empty settings.
+export class JsonSettingsStore<T extends object> {
+  private filePath: string
+  private validate: (value: unknown) => T
+  private settings: T
+
+  constructor(filename: string, validate: (value: unknown) => T, filePath?: string) {
+    this.filePath = filePath || path.join(app.getPath('userData'), filename)
+    this.validate = validate
+    this.settings = this.read()
+  }
+
+  private read(): T {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return {} as T
+      }
+      return this.validate(JSON.parse(fs.readFileSync(this.filePath, 'utf-8')))
+    } catch (error) {
+      console.error(`Failed to read ${path.basename(this.filePath)}, using defaults:`, error)
+      return {} as T
+    }
+  }
+
+  get(): T {
+    return { ...this.settings }
+  }
+
+  update(changes: Partial<T>): T {
+    this.settings = { ...this.settings, ...changes }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      // Write then rename so a crash mid-write can't leave a truncated file
+      const tempPath = `${this.filePath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(this.settings, null, 2))
+      fs.renameSync(tempPath, this.filePath)
+    } catch (error) {
+      console.error(`Failed to save ${path.basename(this.filePath)}:`, error)
+    }
+    return this.get()
+  }
+}
+
+// The least a settings file must be: a JSON object
+export function requireSettingsObject(value: unknown): Record<string, any> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Settings file does not contain a JSON object')
+  }
+  return value as Record<string, any>
+}
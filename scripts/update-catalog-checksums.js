@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+/**
+ * Fill in the SHA-256 of every bundled catalog model that doesn't have one yet.
+ * Hugging Face reports the digest of LFS files in the X-Linked-Etag header of the
+ * resolve URL, so nothing has to be downloaded. Run again with --all to refresh every entry.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const CATALOG_PATH = path.join(__dirname, '..', 'resources', 'model-catalog.json')
+const refreshAll = process.argv.includes('--all')
+
+async function fetchChecksum(url) {
+  const response = await fetch(url, { method: 'HEAD', redirect: 'manual' })
+  const etag = (response.headers.get('x-linked-etag') || '').replace(/"/g, '')
+  if (!/^[a-f0-9]{64}$/i.test(etag)) {
+    throw new Error(`no SHA-256 in the response (HTTP ${response.status})`)
+  }
+  return etag.toLowerCase()
+}
+
+const catalog = JSON.parse(fs.readFileSync(CATALOG_PATH, 'utf-8'))
+let updated = 0
+let failed = 0
+
+for (const model of catalog.models) {
+  if (model.sha256 && !refreshAll) continue
+  try {
+    const sha256 = await fetchChecksum(model.url)
+    if (model.sha256 !== sha256) {
+      model.sha256 = sha256
+      updated++
+    }
+    console.log(`${model.filename}: ${sha256}`)
+  } catch (error) {
+    failed++
+    console.error(`${model.filename}: ${error.message}`)
+  }
+}
+
+if (updated > 0) {
+  fs.writeFileSync(CATALOG_PATH, `${JSON.stringify(catalog, null, 2)}\n`)
+}
+console.log(`Updated ${updated} checksum(s)${failed > 0 ? `, ${failed} failed` : ''}`)
+process.exit(failed > 0 ? 1 : 0)
@@ -10,17 +10,20 @@ import { SimpleP2PPage } from '@/components/chat/SimpleP2PPage'
 import { P2PSettings } from '@/components/chat/P2PSettings'
 import { AgentBuilder } from '@/components/chat/AgentBuilder'
 import { ComposioSettings } from '@/components/chat/ComposioSettings'
+import { ConversationList } from '@/components/chat/ConversationList'
 import { Settings, HardDrive, Brain, Search, MessageSquare, Network, Bot, Link as LinkIcon } from 'lucide-react'
 import { TooltipProvider } from '@/components/ui/tooltip'
 
 function App() {
   const [activeTab, setActiveTab] = useState('chat')
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [conversationsVersion, setConversationsVersion] = useState(0)
 
   return (
     <div className="min-h-screen bg-background">
       <div className="flex">
         {/* Sidebar */}
-        <div className="w-64 bg-card border-r border-border h-screen">
+        <div className="w-64 bg-card border-r border-border h-screen flex flex-col">
           <div className="p-6">
             <div className="mb-2 animate-fade-in">
               <h1 className="text-2xl font-semibold text-foreground lowercase tracking-tight">latentra</h1>
@@ -77,6 +80,14 @@ function App() {
               <span className="lowercase">settings</span>
             </Button>
           </nav>
+
+          {activeTab === 'chat' && (
+            <ConversationList
+              activeConversationId={activeConversationId}
+              onSelect={setActiveConversationId}
+              refreshKey={conversationsVersion}
+            />
+          )}
         </div>
 
         {/* Main Content */}
@@ -111,7 +122,11 @@ function App() {
           {activeTab === 'chat' && (
             <div className="h-[calc(100vh-12rem)]">
               <TooltipProvider>
-                <ModernChatInterface />
+                <ModernChatInterface
+                  conversationId={activeConversationId}
+                  onConversationChange={setActiveConversationId}
+                  onConversationUpdated={() => setConversationsVersion(v => v + 1)}
+                />
               </TooltipProvider>
             </div>
           )}
@@ -1,40 +1,91 @@
 "use client";
 
-import { AssistantRuntimeProvider, useLocalRuntime } from "@assistant-ui/react";
+import {
+  AssistantRuntimeProvider,
+  useLocalRuntime,
+  type ChatModelAdapter,
+} from "@assistant-ui/react";
 import { type ReactNode } from "react";
 
 interface MyRuntimeProviderProps {
   children: ReactNode;
 }
 
-export function MyRuntimeProvider({ children }: MyRuntimeProviderProps) {
-  const runtime = useLocalRuntime(async (messages: any) => {
-    try {
-      // Get the latest message
-      const lastMessage = messages[messages.length - 1];
-      if (!lastMessage || lastMessage.role !== "user") {
-        throw new Error("Expected user message");
-      }
+// Bridges the callback-based IPC stream into the async iterator assistant-ui expects
+const ElectronModelAdapter: ChatModelAdapter = {
+  async *run({ messages, abortSignal }) {
+    // Get the latest message
+    const lastMessage = messages[messages.length - 1];
+    if (!lastMessage || lastMessage.role !== "user") {
+      throw new Error("Expected user message");
+    }
+
+    const prompt = lastMessage.content
+      .map((part) => (part.type === "text" ? part.text : ""))
+      .join("");
+
+    let text = "";
+    let finished = false;
+    let streamError: string | null = null;
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    // Send to our Electron LLM service
+    const requestId = window.electronAPI.llm.chatStream(prompt, {
+      onToken: (token) => {
+        text += token;
+        notify();
+      },
+      onDone: (response) => {
+        text = response;
+        finished = true;
+        notify();
+      },
+      onError: (error) => {
+        streamError = error || "Chat failed";
+        finished = true;
+        notify();
+      },
+    });
 
-      // Send to our Electron LLM service
-      const response = await window.electronAPI.llm.chat(lastMessage.content);
-      
-      if (!response.success) {
-        throw new Error(response.error || "Chat failed");
+    // The stop button aborts the run; the backend then finishes with the partial text
+    const onAbort = () => {
+      window.electronAPI.llm.cancel(requestId).catch((error) => {
+        console.error("Failed to cancel generation:", error);
+      });
+    };
+    abortSignal.addEventListener("abort", onAbort, { once: true });
+
+    let emitted = "";
+    try {
+      while (true) {
+        if (text !== emitted) {
+          emitted = text;
+          yield { content: [{ type: "text", text }] };
+        }
+        if (finished) break;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
       }
+    } finally {
+      abortSignal.removeEventListener("abort", onAbort);
+    }
 
-      return {
-        role: "assistant",
-        content: [{ type: "text", text: response.response || "" }],
-      };
-    } catch (error) {
-      console.error("Chat error:", error);
-      return {
-        role: "assistant",
-        content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+    if (streamError) {
+      console.error("Chat error:", streamError);
+      yield {
+        content: [{ type: "text", text: text ? `${text}\n\nError: ${streamError}` : `Error: ${streamError}` }],
       };
     }
-  });
+  },
+};
+
+export function MyRuntimeProvider({ children }: MyRuntimeProviderProps) {
+  const runtime = useLocalRuntime(ElectronModelAdapter);
 
   return (
     <AssistantRuntimeProvider runtime={runtime}>
@@ -7,7 +7,7 @@ import { Badge } from '../ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs'
 import { Bot, Plus, Save, Trash2, Edit2, Mail, MessageSquare, Calendar, FileText, Database, Clock, Users, DollarSign, BarChart, CheckSquare, Upload, X } from 'lucide-react'
 import { ToolRouterManager } from './ToolRouterManager'
-import { Agent, AgentFile } from '../types/electron'
+import { Agent, AgentFile, InstalledAdapter } from '../types/electron'
 
 const AVAILABLE_TOOLS = [
   { 
@@ -97,12 +97,27 @@ export function AgentBuilder() {
   const [goal, setGoal] = useState('')
   const [backstory, setBackstory] = useState('')
   const [selectedTools, setSelectedTools] = useState<string[]>([])
+  const [loraAdapter, setLoraAdapter] = useState('')
+  const [loraScale, setLoraScale] = useState(1)
+  const [adapters, setAdapters] = useState<InstalledAdapter[]>([])
 
   useEffect(() => {
     loadAgents()
+    loadAdapters()
     checkComposioApiKey()
   }, [])
 
+  const loadAdapters = async () => {
+    try {
+      const result = await window.electronAPI?.model?.getAdapters()
+      if (result?.success && result.adapters) {
+        setAdapters(result.adapters.filter(adapter => !adapter.error))
+      }
+    } catch (error) {
+      console.error('Failed to load adapters:', error)
+    }
+  }
+
   const checkComposioApiKey = async () => {
     try {
       // Try to get API key from Electron environment
@@ -143,6 +158,8 @@ export function AgentBuilder() {
     setGoal('')
     setBackstory('')
     setSelectedTools([])
+    setLoraAdapter('')
+    setLoraScale(1)
     setAgentFiles([])
     setCurrentStep(1)
     setEditingAgent(null)
@@ -154,6 +171,12 @@ export function AgentBuilder() {
       return
     }
 
+    const modelConfig = {
+      ...editingAgent?.modelConfig,
+      loraAdapter: loraAdapter || undefined,
+      loraScale: loraAdapter ? loraScale : undefined
+    }
+
     try {
       if (editingAgent) {
         // Update existing agent
@@ -162,7 +185,8 @@ export function AgentBuilder() {
           role,
           goal,
           backstory,
-          tools: selectedTools
+          tools: selectedTools,
+          modelConfig
         })
         if (result?.success) {
           await loadAgents()
@@ -179,6 +203,7 @@ export function AgentBuilder() {
           goal,
           backstory,
           tools: selectedTools,
+          modelConfig,
           knowledgeBase: agentFiles.length > 0 ? {
             files: agentFiles.map(f => f.filePath)
           } : undefined
@@ -204,6 +229,8 @@ export function AgentBuilder() {
     setGoal(agent.goal)
     setBackstory(agent.backstory)
     setSelectedTools(agent.tools)
+    setLoraAdapter(agent.modelConfig?.loraAdapter || '')
+    setLoraScale(agent.modelConfig?.loraScale ?? 1)
     setShowBuilder(true)
     setCurrentStep(1)
     // Load agent's files
@@ -376,6 +403,40 @@ export function AgentBuilder() {
                   </p>
                 </div>
 
+                <div>
+                  <label className="text-sm font-medium lowercase">lora adapter (optional)</label>
+                  <div className="flex gap-2 mt-1">
+                    <select
+                      value={loraAdapter}
+                      onChange={e => setLoraAdapter(e.target.value)}
+                      className="flex-1 h-10 rounded-md border border-input bg-background px-3 text-sm lowercase"
+                    >
+                      <option value="">none</option>
+                      {adapters.map(adapter => (
+                        <option key={adapter.filename} value={adapter.filename}>
+                          {adapter.filename.replace('.gguf', '')}
+                          {adapter.compatibleModels.length === 0 ? ' (no installed model fits)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    {loraAdapter && (
+                      <Input
+                        type="number"
+                        min={0.1}
+                        max={2}
+                        step={0.1}
+                        value={loraScale}
+                        onChange={e => setLoraScale(Number(e.target.value) || 1)}
+                        className="w-24"
+                        title="Adapter scale"
+                      />
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 lowercase">
+                    fine-tuned weights applied on top of the loaded model while this agent is active. import adapters from the models tab
+                  </p>
+                </div>
+
                 <Button onClick={() => setCurrentStep(2)} className="w-full lowercase">
                   next: configure knowledge base
                 </Button>
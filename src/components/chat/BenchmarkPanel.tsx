@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Gauge, Loader2, Sparkles, X, Trash2 } from 'lucide-react'
+import type { BenchmarkResult, BenchmarkProgress } from '@/types/electron'
+
+const formatGB = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)}gb`
+
+interface BenchmarkPanelProps {
+  // Called after the auto-tuner saves a new custom profile
+  onProfileSaved?: () => void
+}
+
+export function BenchmarkPanel({ onProfileSaved }: BenchmarkPanelProps) {
+  const [results, setResults] = useState<BenchmarkResult[]>([])
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [message, setMessage] = useState<string>('')
+
+  useEffect(() => {
+    loadResults()
+    const unsubscribe = window.electronAPI.llm.onBenchmarkProgress((data) => {
+      setProgress(data)
+      if (data.result) {
+        setResults(prev => [...prev, data.result!])
+      }
+    })
+    return unsubscribe
+  }, [])
+
+  const loadResults = async () => {
+    try {
+      const response = await window.electronAPI.llm.getBenchmarkResults()
+      if (response.success && response.results) {
+        setResults(response.results)
+      }
+    } catch (error) {
+      console.error('Failed to load benchmark results:', error)
+    }
+  }
+
+  const run = async (kind: 'benchmark' | 'tune') => {
+    setIsRunning(true)
+    setMessage('')
+    try {
+      if (kind === 'benchmark') {
+        const response = await window.electronAPI.llm.runBenchmark()
+        if (!response.success) {
+          setMessage(`error: ${response.error}`)
+        }
+      } else {
+        const response = await window.electronAPI.llm.autoTune()
+        if (response.success && response.best && response.profile) {
+          setMessage(`best: ${response.best.threads} threads, batch ${response.best.batchSize}. saved as profile "${response.profile.name}".`)
+          onProfileSaved?.()
+        } else {
+          setMessage(`error: ${response.error}`)
+        }
+      }
+    } finally {
+      setIsRunning(false)
+      setProgress(null)
+      loadResults()
+    }
+  }
+
+  const clearResults = async () => {
+    await window.electronAPI.llm.clearBenchmarkResults()
+    setResults([])
+  }
+
+  // Chart the latest auto-tune sweep if there is one, otherwise the most recent single runs
+  const latest = results[results.length - 1]
+  const charted = latest?.tuningRunId
+    ? results.filter(result => result.tuningRunId === latest.tuningRunId)
+    : results.slice(-8)
+  const maxGeneration = Math.max(...charted.map(result => result.generationTokensPerSecond), 1)
+  const maxPrompt = Math.max(...charted.map(result => result.promptTokensPerSecond), 1)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm lowercase">benchmark:</h4>
+        <div className="flex items-center gap-2">
+          {isRunning ? (
+            <Button variant="outline" size="sm" onClick={() => window.electronAPI.llm.cancelBenchmark()} className="rounded-xl">
+              <X className="mr-1 h-4 w-4" />
+              <span className="lowercase">cancel</span>
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" size="sm" onClick={() => run('benchmark')} className="rounded-xl">
+                <Gauge className="mr-1 h-4 w-4" />
+                <span className="lowercase">run benchmark</span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => run('tune')} className="rounded-xl">
+                <Sparkles className="mr-1 h-4 w-4" />
+                <span className="lowercase">auto-tune</span>
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isRunning && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground lowercase">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            <span>{progress?.message || 'waiting for the model...'}</span>
+          </div>
+          {progress && progress.totalSteps > 1 && (
+            <div className="w-full bg-secondary rounded-full h-2">
+              <div
+                className="bg-primary h-2 rounded-full transition-all duration-300"
+                style={{ width: `${Math.round((progress.step / progress.totalSteps) * 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs lowercase ${message.startsWith('error') ? 'text-red-600' : 'text-muted-foreground'}`}>{message}</p>
+      )}
+
+      {charted.length > 0 && (
+        <div className="p-4 bg-muted rounded-xl space-y-3">
+          <div className="flex items-center justify-between text-xs text-muted-foreground lowercase">
+            <span>{latest.tuningRunId ? 'latest auto-tune sweep' : 'recent runs'} • {latest.modelName}</span>
+            <Button variant="ghost" size="sm" onClick={clearResults} title="Clear results">
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          {charted.map(result => (
+            <div key={result.id} className="space-y-1 text-xs">
+              <div className="flex justify-between lowercase">
+                <span className="font-medium">{result.threads} threads • batch {result.batchSize}</span>
+                <span className="text-muted-foreground">
+                  ttft {result.timeToFirstTokenMs}ms • peak {formatGB(result.peakMemoryBytes)}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-16 text-muted-foreground lowercase">generate</span>
+                <div className="flex-1 bg-secondary rounded-full h-2">
+                  <div className="bg-primary h-2 rounded-full" style={{ width: `${(result.generationTokensPerSecond / maxGeneration) * 100}%` }} />
+                </div>
+                <span className="w-20 text-right">{result.generationTokensPerSecond} tok/s</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-16 text-muted-foreground lowercase">prompt</span>
+                <div className="flex-1 bg-secondary rounded-full h-2">
+                  <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${(result.promptTokensPerSecond / maxPrompt) * 100}%` }} />
+                </div>
+                <span className="w-20 text-right">{result.promptTokensPerSecond} tok/s</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
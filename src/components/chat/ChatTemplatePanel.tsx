@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Eye, Loader2, Save } from 'lucide-react'
+import type { ChatTemplateInfo, ChatTemplateOption, ChatTemplateSetting, PromptPreview, PromptPreviewMessage } from '@/types/electron'
+
+const SAMPLE_HISTORY = `system: You are a helpful assistant.
+user: Hi! What can you do?
+assistant: I can answer questions and help you write things.
+user: Summarize our chat in one sentence.`
+
+// One message per line as "role: text"; lines without a role continue the previous message
+const parseHistory = (text: string): PromptPreviewMessage[] => {
+  const messages: PromptPreviewMessage[] = []
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(system|user|assistant):\s?(.*)$/i)
+    if (match) {
+      messages.push({ role: match[1].toLowerCase() as PromptPreviewMessage['role'], content: match[2] })
+    } else if (messages.length > 0) {
+      messages[messages.length - 1].content += `\n${line}`
+    }
+  }
+  return messages
+}
+
+interface ChatTemplatePanelProps {
+  filename: string
+  isLoaded: boolean // previews need the model's tokenizer
+}
+
+export function ChatTemplatePanel({ filename, isLoaded }: ChatTemplatePanelProps) {
+  const [info, setInfo] = useState<ChatTemplateInfo | null>(null)
+  const [templates, setTemplates] = useState<ChatTemplateOption[]>([])
+  const [setting, setSetting] = useState<ChatTemplateSetting>({ template: 'auto' })
+  const [history, setHistory] = useState(SAMPLE_HISTORY)
+  const [preview, setPreview] = useState<PromptPreview | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    loadTemplate()
+  }, [filename])
+
+  const loadTemplate = async () => {
+    try {
+      const response = await window.electronAPI.llm.getChatTemplate(filename)
+      if (response.success && response.info) {
+        setInfo(response.info)
+        setSetting(response.info.setting)
+        setTemplates(response.templates || [])
+      } else {
+        setMessage(`error: ${response.error}`)
+      }
+    } catch (error) {
+      console.error('Failed to load chat template:', error)
+    }
+  }
+
+  const saveTemplate = async () => {
+    setIsBusy(true)
+    setMessage('')
+    try {
+      const response = await window.electronAPI.llm.setChatTemplate(filename, setting.template === 'auto' ? null : setting)
+      if (response.success && response.info) {
+        setInfo(response.info)
+        setSetting(response.info.setting)
+        setMessage(isLoaded ? 'saved and applied to the loaded model' : 'saved; applies the next time this model loads')
+      } else {
+        setMessage(`error: ${response.error}`)
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const previewPrompt = async () => {
+    setIsBusy(true)
+    setMessage('')
+    try {
+      const response = await window.electronAPI.llm.previewPrompt(parseHistory(history), setting)
+      if (response.success && response.preview) {
+        setPreview(response.preview)
+      } else {
+        setPreview(null)
+        setMessage(`error: ${response.error}`)
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const detectedName = templates.find(option => option.id === info?.detected)?.name
+  const isDirty = !!info && (info.setting.template !== setting.template || (info.setting.jinja || '') !== (setting.jinja || ''))
+
+  return (
+    <div className="mt-2 space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={setting.template}
+          onChange={(e) => setSetting({ template: e.target.value as ChatTemplateSetting['template'], jinja: setting.jinja })}
+          className="h-8 rounded-md border border-input bg-background px-2 lowercase"
+        >
+          {templates.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.id === 'auto' && detectedName ? `auto (${detectedName})` : option.name}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={saveTemplate} disabled={isBusy || !isDirty} className="rounded-xl">
+          <Save className="mr-1 h-3 w-3" />
+          <span className="lowercase">save</span>
+        </Button>
+        <span className="text-muted-foreground lowercase">
+          {templates.find(option => option.id === setting.template)?.description}
+          {info?.activeWrapper && ` • in use: ${info.activeWrapper}`}
+        </span>
+      </div>
+
+      {setting.template === 'jinja' && (
+        <textarea
+          value={setting.jinja ?? info?.ggufTemplate ?? ''}
+          onChange={(e) => setSetting({ template: 'jinja', jinja: e.target.value })}
+          placeholder="{% for message in messages %}..."
+          className="w-full min-h-[120px] rounded-md border border-input bg-background p-2 font-mono"
+        />
+      )}
+
+      {info?.ggufTemplate && setting.template !== 'jinja' && (
+        <details>
+          <summary className="cursor-pointer text-muted-foreground lowercase">template in the model file</summary>
+          <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded bg-background p-2 font-mono">{info.ggufTemplate}</pre>
+        </details>
+      )}
+
+      <div className="space-y-1">
+        <label className="text-muted-foreground lowercase">history to render (one "role: text" per line)</label>
+        <textarea
+          value={history}
+          onChange={(e) => setHistory(e.target.value)}
+          className="w-full min-h-[80px] rounded-md border border-input bg-background p-2 font-mono"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={previewPrompt}
+          disabled={isBusy || !isLoaded}
+          className="rounded-xl"
+          title={isLoaded ? undefined : 'Load this model to preview its prompt'}
+        >
+          {isBusy ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Eye className="mr-1 h-3 w-3" />}
+          <span className="lowercase">preview rendered prompt</span>
+        </Button>
+      </div>
+
+      {message && (
+        <p className={`lowercase ${message.startsWith('error') ? 'text-red-600' : 'text-muted-foreground'}`}>{message}</p>
+      )}
+
+      {preview && (
+        <div className="space-y-1">
+          <p className="text-muted-foreground lowercase">{preview.wrapperName} • {preview.tokenCount} tokens</p>
+          <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-background p-2 font-mono">{preview.text}</pre>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Plus, Search, Pencil, Trash2, Check, X, MessageSquare } from 'lucide-react'
+import type { Conversation } from '@/types/electron'
+
+interface ConversationListProps {
+  activeConversationId: string | null
+  onSelect: (conversationId: string | null) => void
+  refreshKey?: number
+}
+
+export function ConversationList({ activeConversationId, onSelect, refreshKey }: ConversationListProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [searchQuery, setSearchQuery] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+
+  useEffect(() => {
+    // Debounce so typing in the search box doesn't hit SQLite on every keystroke
+    const timer = setTimeout(() => {
+      loadConversations()
+    }, 200)
+    return () => clearTimeout(timer)
+  }, [searchQuery, refreshKey])
+
+  const loadConversations = async () => {
+    try {
+      const result = await window.electronAPI.conversation.getAll(searchQuery.trim() || undefined)
+      if (result.success && result.data) {
+        setConversations(result.data)
+      }
+    } catch (error) {
+      console.error('Failed to load conversations:', error)
+    }
+  }
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setEditingTitle(conversation.title)
+  }
+
+  const saveRename = async () => {
+    if (!editingId || !editingTitle.trim()) {
+      setEditingId(null)
+      return
+    }
+    try {
+      await window.electronAPI.conversation.rename(editingId, editingTitle)
+      await loadConversations()
+    } catch (error) {
+      console.error('Failed to rename conversation:', error)
+    } finally {
+      setEditingId(null)
+    }
+  }
+
+  const deleteConversation = async (conversation: Conversation) => {
+    if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return
+    try {
+      await window.electronAPI.conversation.delete(conversation.id)
+      if (conversation.id === activeConversationId) {
+        onSelect(null)
+      }
+      await loadConversations()
+    } catch (error) {
+      console.error('Failed to delete conversation:', error)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2 px-4 pt-4 min-h-0">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted-foreground lowercase">conversations</span>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onSelect(null)} title="New conversation">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="search chats..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="h-8 pl-8 text-xs lowercase"
+        />
+      </div>
+
+      <div className="space-y-1 overflow-y-auto max-h-[calc(100vh-26rem)]">
+        {conversations.length === 0 && (
+          <p className="text-xs text-muted-foreground lowercase px-2 py-1">
+            {searchQuery ? 'no matching chats' : 'no saved chats yet'}
+          </p>
+        )}
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeConversationId
+
+          if (editingId === conversation.id) {
+            return (
+              <div key={conversation.id} className="flex items-center gap-1">
+                <Input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="h-7 text-xs"
+                />
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={saveRename}>
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingId(null)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )
+          }
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 rounded-lg px-2 py-1.5 text-xs cursor-pointer transition-colors ${
+                isActive ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              }`}
+              onClick={() => onSelect(conversation.id)}
+            >
+              <MessageSquare className="h-3 w-3 shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate" title={conversation.title}>{conversation.title}</span>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  startRename(conversation)
+                }}
+                title="Rename"
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-600"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  deleteConversation(conversation)
+                }}
+                title="Delete"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ import { UserProfileDialog } from './UserProfileDialog'
 import { ComputeVisualization } from './ComputeVisualization'
 import { PeerMonitor } from './PeerMonitor'
 import { SocialNetworkInference } from './SocialNetworkInference'
+import type { RoutingRule } from '@/types/electron'
 
 interface UserProfile {
   id: string
@@ -22,6 +23,7 @@ export function DistributedSettings() {
   const [localAIEndpoint, setLocalAIEndpoint] = useState('http://localhost:8080')
   const [p2pEnabled, setP2pEnabled] = useState(false)
   const [mode, setMode] = useState<'local' | 'distributed' | 'hybrid'>('local')
+  const [routing, setRouting] = useState<RoutingRule>('prefer-fastest')
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle')
   const [testError, setTestError] = useState<string>()
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
@@ -38,6 +40,7 @@ export function DistributedSettings() {
         setLocalAIEndpoint(result.config.localAIEndpoint || 'http://localhost:8080')
         setP2pEnabled(result.config.enableP2P)
         setMode(result.config.mode)
+        setRouting(result.config.routing || 'prefer-fastest')
         setUserProfile(result.config.userProfile)
       }
     } catch (error) {
@@ -69,6 +72,7 @@ export function DistributedSettings() {
     try {
       const result = await window.electronAPI.distributed.updateConfig({
         mode,
+        routing,
         localAIEndpoint,
         enableP2P: p2pEnabled,
       })
@@ -86,10 +90,13 @@ export function DistributedSettings() {
 
   const handleProfileUpdate = async (profile?: UserProfile) => {
     if (profile) {
-      setUserProfile(profile)
       try {
-        await window.electronAPI.distributed.updateUserProfile(profile)
-        console.log('Profile updated successfully')
+        const result = await window.electronAPI.distributed.updateUserProfile(profile)
+        if (result.success && result.profile) {
+          setUserProfile(result.profile)
+        } else {
+          console.error('Failed to update profile:', result.error)
+        }
       } catch (error) {
         console.error('Failed to update profile:', error)
       }
@@ -193,6 +200,30 @@ export function DistributedSettings() {
               </div>
             </motion.button>
           ))}
+
+          {mode === 'hybrid' && (
+            <div className="space-y-2 pt-2">
+              <label className="text-sm font-medium">routing</label>
+              <div className="grid grid-cols-3 gap-2">
+                {([
+                  ['never-offload', 'never offload', 'keep every request on this device'],
+                  ['prefer-fastest', 'prefer fastest', 'pick whatever answered quickest lately'],
+                  ['prefer-idle-peers', 'prefer idle peers', 'hand work to peers with nothing to do']
+                ] as const).map(([rule, label, description]) => (
+                  <button
+                    key={rule}
+                    onClick={() => setRouting(rule)}
+                    className={`p-3 rounded-xl border text-left transition-all ${
+                      routing === rule ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    <p className="text-xs font-medium">{label}</p>
+                    <p className="text-xs text-muted-foreground mt-0.5">{description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -2,149 +2,205 @@ import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
-import { Download, CheckCircle, Loader2, HardDrive, Search } from 'lucide-react'
-
-interface Model {
-  id: string
-  name: string
-  author: string
-  size: string
-  description: string
-  url: string
-  filename: string
-  recommended?: boolean
+import { Download, CheckCircle, Loader2, HardDrive, Search, AlertCircle, Pause, Play, X, Trash2, Pencil, Upload, Link, Layers } from 'lucide-react'
+import { ChatTemplatePanel } from './ChatTemplatePanel'
+import type { ModelMetadata, DownloadProgress, CatalogModel, ModelDiskUsage, InstalledAdapter } from '@/types/electron'
+
+const COMPATIBILITY_LABELS: { [key in CatalogModel['compatibility']]: { label: string; className: string } } = {
+  great: { label: 'great fit', className: 'bg-green-100 text-green-800' },
+  good: { label: 'good fit', className: 'bg-blue-100 text-blue-800' },
+  tight: { label: 'tight fit', className: 'bg-yellow-100 text-yellow-800' },
+  incompatible: { label: "won't fit", className: 'bg-red-100 text-red-800' }
 }
 
-const FEATURED_MODELS: Model[] = [
-  {
-    id: "llama3.2-3b",
-    name: "llama 3.2 3b instruct",
-    author: "meta",
-    size: "~2.0gb",
-    description: "latest llama model from meta. excellent conversational abilities.",
-    url: "https://huggingface.co/bartowski/Llama-3.2-3B-Instruct-GGUF/resolve/main/Llama-3.2-3B-Instruct-Q4_K_M.gguf",
-    filename: "llama-3.2-3b-instruct-q4.gguf",
-    recommended: true,
-  },
-  {
-    id: "tinyllama-1.1b",
-    name: "tinyllama 1.1b chat",
-    author: "tinyllama",
-    size: "~700mb",
-    description: "small, fast model for testing. best for quick responses.",
-    url: "https://huggingface.co/TheBloke/TinyLlama-1.1B-Chat-v1.0-GGUF/resolve/main/tinyllama-1.1b-chat-v1.0.Q4_K_M.gguf",
-    filename: "tinyllama-1.1b-chat-v1.0.Q4_K_M.gguf",
-  },
-  {
-    id: "phi3-mini",
-    name: "phi-3 mini 3.8b",
-    author: "microsoft",
-    size: "~2.4gb", 
-    description: "efficient model with great balance of quality and speed.",
-    url: "https://huggingface.co/microsoft/Phi-3-mini-4k-instruct-gguf/resolve/main/Phi-3-mini-4k-instruct-q4.gguf",
-    filename: "phi-3-mini-4k-instruct-q4.gguf",
-  },
-  {
-    id: "llama3.2-1b",
-    name: "llama 3.2 1b instruct",
-    author: "meta",
-    size: "~1.2gb",
-    description: "compact llama model with good instruction following.",
-    url: "https://huggingface.co/bartowski/Llama-3.2-1B-Instruct-GGUF/resolve/main/Llama-3.2-1B-Instruct-Q4_K_M.gguf",
-    filename: "llama-3.2-1b-instruct-q4.gguf",
-  },
-  {
-    id: "qwen2.5-0.5b",
-    name: "qwen2.5 0.5b instruct",
-    author: "alibaba",
-    size: "~400mb",
-    description: "ultra-small model perfect for quick testing.",
-    url: "https://huggingface.co/Qwen/Qwen2.5-0.5B-Instruct-GGUF/resolve/main/qwen2.5-0.5b-instruct-q4_k_m.gguf",
-    filename: "qwen2.5-0.5b-instruct-q4.gguf",
-  },
-  {
-    id: "codellama-7b",
-    name: "code llama 7b instruct",
-    author: "meta",
-    size: "~4.1gb",
-    description: "specialized for code generation and programming tasks.",
-    url: "https://huggingface.co/TheBloke/CodeLlama-7B-Instruct-GGUF/resolve/main/codellama-7b-instruct.Q4_K_M.gguf",
-    filename: "codellama-7b-instruct.Q4_K_M.gguf",
-  },
-  {
-    id: "mistral-7b",
-    name: "mistral 7b instruct v0.2",
-    author: "mistral ai",
-    size: "~4.1gb",
-    description: "high-quality general purpose model with excellent reasoning.",
-    url: "https://huggingface.co/TheBloke/Mistral-7B-Instruct-v0.2-GGUF/resolve/main/mistral-7b-instruct-v0.2.Q4_K_M.gguf",
-    filename: "mistral-7b-instruct-v0.2.Q4_K_M.gguf",
-  }
-]
+const formatParameters = (count?: number) => {
+  if (!count) return undefined
+  if (count >= 1e9) return `${(count / 1e9).toFixed(1)}b params`
+  return `${Math.round(count / 1e6)}m params`
+}
+
+const formatGB = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)}gb`
+
+const formatSpeed = (bytesPerSecond: number) => `${(bytesPerSecond / 1024 / 1024).toFixed(1)}mb/s`
+
+const formatEta = (seconds?: number) => {
+  if (seconds === undefined) return undefined
+  if (seconds < 60) return `${seconds}s left`
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m left`
+  return `${(seconds / 3600).toFixed(1)}h left`
+}
+
+const ACTIVE_DOWNLOAD_STATUSES = ['queued', 'downloading', 'verifying']
 
 export function ModelManager() {
-  const [downloadingModel, setDownloadingModel] = useState<string | null>(null)
-  const [downloadProgress, setDownloadProgress] = useState<{ 
-    [key: string]: { 
-      progress: number; 
-      downloadedSize?: number; 
-      totalSize?: number 
-    } 
-  }>({})
-  const [installedModels, setInstalledModels] = useState<string[]>([])
+  // Keyed by filename; only unfinished downloads are kept
+  const [downloads, setDownloads] = useState<{ [filename: string]: DownloadProgress }>({})
+  const [catalog, setCatalog] = useState<CatalogModel[]>([])
+  const [catalogSource, setCatalogSource] = useState<string>('')
+  const [installedFiles, setInstalledFiles] = useState<string[]>([])
+  const [modelMetadata, setModelMetadata] = useState<{ [filename: string]: { metadata?: ModelMetadata; error?: string } }>({})
+  const [library, setLibrary] = useState<ModelDiskUsage | null>(null)
+  const [adapters, setAdapters] = useState<InstalledAdapter[]>([])
+  const [loadedModel, setLoadedModel] = useState<string | null>(null)
+  const [openTemplates, setOpenTemplates] = useState<string[]>([])
+  const [renaming, setRenaming] = useState<{ filename: string; value: string } | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
 
   useEffect(() => {
+    loadCatalog()
     loadInstalledModels()
+    loadDownloads()
+
+    window.electronAPI.model.onDownloadProgress((data) => {
+      setDownloads(prev => {
+        const next = { ...prev }
+        if (data.status === 'completed' || data.status === 'cancelled') {
+          delete next[data.filename]
+        } else {
+          next[data.filename] = data
+        }
+        return next
+      })
+      if (data.status === 'completed') {
+        loadInstalledModels()
+      }
+    })
+
+    const unsubscribeModelLoad = window.electronAPI.llm.onModelLoadProgress((event) => {
+      if (event.status !== 'loading') {
+        loadLoadedModel()
+      }
+    })
+
+    return () => {
+      window.electronAPI.model.removeDownloadProgressListener()
+      unsubscribeModelLoad()
+    }
   }, [])
 
+  const loadCatalog = async () => {
+    try {
+      const response = await window.electronAPI.model.getCatalog()
+      if (response.success && response.models) {
+        setCatalog(response.models)
+        setCatalogSource(response.version ? `catalog v${response.version} • ${response.source}` : '')
+      }
+    } catch (error) {
+      console.error('Failed to load model catalog:', error)
+    }
+  }
+
+  const loadDownloads = async () => {
+    try {
+      const response = await window.electronAPI.model.getDownloads()
+      if (response.success && response.downloads) {
+        setDownloads(Object.fromEntries(response.downloads.map(job => [job.filename, {
+          id: job.id,
+          filename: job.filename,
+          status: job.status,
+          progress: job.totalBytes ? Math.round((job.downloadedBytes / job.totalBytes) * 100) : 0,
+          downloadedSize: job.downloadedBytes,
+          totalSize: job.totalBytes,
+          speed: 0,
+          error: job.error
+        }])))
+      }
+    } catch (error) {
+      console.error('Failed to load downloads:', error)
+    }
+  }
+
   const loadInstalledModels = async () => {
     try {
       const response = await window.electronAPI.llm.getAvailableModels()
       if (response.success && response.models) {
-        const installedIds = FEATURED_MODELS
-          .filter(model => response.models!.includes(model.filename))
-          .map(model => model.id)
-        setInstalledModels(installedIds)
+        setInstalledFiles(response.models)
+        loadModelMetadata(response.models)
       }
     } catch (error) {
       console.error('Failed to load installed models:', error)
     }
+    loadLibrary()
+    loadAdapters()
+    loadLoadedModel()
+  }
+
+  const loadLoadedModel = async () => {
+    try {
+      const info = await window.electronAPI.llm.getModelInfo()
+      setLoadedModel(info.isLoaded && info.modelName ? info.modelName : null)
+    } catch (error) {
+      console.error('Failed to get loaded model:', error)
+    }
   }
 
-  const filteredModels = FEATURED_MODELS.filter(model => {
+  const loadAdapters = async () => {
+    try {
+      const response = await window.electronAPI.model.getAdapters()
+      if (response.success && response.adapters) {
+        setAdapters(response.adapters)
+      }
+    } catch (error) {
+      console.error('Failed to load adapters:', error)
+    }
+  }
+
+  const loadLibrary = async () => {
+    try {
+      const response = await window.electronAPI.model.getLibrary()
+      if (response.success && response.usage) {
+        setLibrary(response.usage)
+      }
+    } catch (error) {
+      console.error('Failed to load disk usage:', error)
+    }
+  }
+
+  const loadModelMetadata = async (filenames: string[]) => {
+    const entries = await Promise.all(filenames.map(async (filename) => {
+      try {
+        const result = await window.electronAPI.llm.getModelMetadata(filename)
+        return [filename, result.success ? { metadata: result.metadata } : { error: result.error }] as const
+      } catch (error) {
+        return [filename, { error: error instanceof Error ? error.message : 'Unknown error' }] as const
+      }
+    }))
+    setModelMetadata(Object.fromEntries(entries))
+  }
+
+  // Catalog is already sorted by score; the best compatible entry is the recommendation
+  const recommendedId = catalog.find(model => model.compatibility !== 'incompatible')?.id
+
+  const filteredModels = catalog.filter(model => {
     const matchesSearch = model.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          model.author.toLowerCase().includes(searchQuery.toLowerCase())
     return matchesSearch
   })
 
-  const downloadModel = async (model: Model) => {
-    setDownloadingModel(model.id)
-    setDownloadProgress(prev => ({ ...prev, [model.id]: { progress: 0 } }))
-
-    // Set up progress listener
-    window.electronAPI.model.onDownloadProgress((data) => {
-      if (data.filename === model.filename) {
-        setDownloadProgress(prev => ({ 
-          ...prev, 
-          [model.id]: {
-            progress: data.progress,
-            downloadedSize: data.downloadedSize,
-            totalSize: data.totalSize
-          }
-        }))
-      }
-    })
+  const downloadModel = async (model: CatalogModel) => {
+    if (library && model.sizeGB * 1024 ** 3 > library.freeBytes &&
+        !confirm(`${model.name} needs ~${model.sizeGB}gb but only ${formatGB(library.freeBytes)} is free. download anyway?`)) {
+      return
+    }
 
     try {
       console.log(`Downloading ${model.name} by ${model.author} from ${model.url}`)
       
-      const result = await window.electronAPI.model.download(model.url, model.filename)
+      const result = await window.electronAPI.model.enqueueDownload(model.url, model.filename, { sha256: model.sha256 })
       
-      if (result.success) {
-        setInstalledModels(prev => [...prev, model.id])
-        await loadInstalledModels() // Refresh the installed models list
-        console.log(`${model.name} downloaded successfully!`)
+      if (result.success && result.job) {
+        const job = result.job
+        setDownloads(prev => ({
+          ...prev,
+          [job.filename]: prev[job.filename] || {
+            id: job.id,
+            filename: job.filename,
+            status: job.status,
+            progress: 0,
+            downloadedSize: job.downloadedBytes,
+            speed: 0
+          }
+        }))
       } else {
         console.error('Download failed:', result.error)
         alert(`Download failed: ${result.error}`)
@@ -152,12 +208,79 @@ export function ModelManager() {
     } catch (error) {
       console.error('Download failed:', error)
       alert(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    } finally {
-      setDownloadingModel(null)
-      window.electronAPI.model.removeDownloadProgressListener()
     }
   }
 
+  const pauseDownload = (download: DownloadProgress) => window.electronAPI.model.pauseDownload(download.id)
+  const resumeDownload = (download: DownloadProgress) => window.electronAPI.model.resumeDownload(download.id)
+  const cancelDownload = (download: DownloadProgress) => window.electronAPI.model.cancelDownload(download.id)
+
+  const importModel = async (mode: 'copy' | 'symlink') => {
+    try {
+      const result = await window.electronAPI.model.import(mode)
+      if (result.success) {
+        loadInstalledModels()
+      } else if (result.error !== 'No file selected') {
+        alert(`Import failed: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Import failed:', error)
+    }
+  }
+
+  const deleteModel = async (filename: string) => {
+    const entry = library?.models.find(model => model.filename === filename)
+    const message = entry?.isSymlink
+      ? `Remove the link to ${filename}? The original file is kept.`
+      : `Delete ${filename}? This frees ${entry ? formatGB(entry.sizeBytes) : 'its space'} and cannot be undone.`
+    if (!confirm(message)) return
+
+    const result = await window.electronAPI.model.delete(filename)
+    if (!result.success) {
+      alert(`Delete failed: ${result.error}`)
+    }
+    loadInstalledModels()
+  }
+
+  const renameModel = async () => {
+    if (!renaming) return
+    const { filename, value } = renaming
+    setRenaming(null)
+    if (!value.trim() || value.trim() === filename) return
+
+    const result = await window.electronAPI.model.rename(filename, value.trim())
+    if (!result.success) {
+      alert(`Rename failed: ${result.error}`)
+    }
+    loadInstalledModels()
+  }
+
+  const importAdapter = async () => {
+    try {
+      const result = await window.electronAPI.model.importAdapter()
+      if (result.success) {
+        loadAdapters()
+      } else if (result.error !== 'No file selected') {
+        alert(`Import failed: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Adapter import failed:', error)
+    }
+  }
+
+  const deleteAdapter = async (adapter: InstalledAdapter) => {
+    const message = adapter.active
+      ? `${adapter.filename} is in use. Detach and delete it?`
+      : `Delete ${adapter.filename}? This cannot be undone.`
+    if (!confirm(message)) return
+
+    const result = await window.electronAPI.model.deleteAdapter(adapter.filename)
+    if (!result.success) {
+      alert(`Delete failed: ${result.error}`)
+    }
+    loadAdapters()
+  }
+
   const openModelDirectory = async () => {
     try {
       await window.electronAPI.model.openDirectory()
@@ -179,37 +302,248 @@ export function ModelManager() {
             className="pl-9 lowercase"
           />
         </div>
-        <Button variant="outline" onClick={openModelDirectory} className="rounded-xl">
-          <HardDrive className="mr-2 h-4 w-4" />
-          <span className="lowercase">open folder</span>
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => importModel('copy')} className="rounded-xl" title="Copy a .gguf file into the models folder">
+            <Upload className="mr-2 h-4 w-4" />
+            <span className="lowercase">import</span>
+          </Button>
+          <Button variant="outline" onClick={() => importModel('symlink')} className="rounded-xl" title="Link a .gguf file without copying it">
+            <Link className="mr-2 h-4 w-4" />
+            <span className="lowercase">link</span>
+          </Button>
+          <Button variant="outline" onClick={importAdapter} className="rounded-xl" title="Copy a LoRA adapter .gguf into the adapters folder">
+            <Layers className="mr-2 h-4 w-4" />
+            <span className="lowercase">import adapter</span>
+          </Button>
+          <Button variant="outline" onClick={openModelDirectory} className="rounded-xl">
+            <HardDrive className="mr-2 h-4 w-4" />
+            <span className="lowercase">open folder</span>
+          </Button>
+        </div>
       </div>
 
+      {/* Disk usage */}
+      {library && library.totalBytes > 0 && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground lowercase">
+            <span>models use {formatGB(library.modelsBytes)}</span>
+            <span>{formatGB(library.freeBytes)} free of {formatGB(library.totalBytes)}</span>
+          </div>
+          <div className="w-full bg-secondary rounded-full h-2">
+            <div
+              className={`h-2 rounded-full ${library.freeBytes / library.totalBytes < 0.1 ? 'bg-red-500' : 'bg-primary'}`}
+              style={{ width: `${Math.round((1 - library.freeBytes / library.totalBytes) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Download Queue */}
+      {Object.keys(downloads).length > 0 && (
+        <Card className="animate-fade-in">
+          <CardHeader>
+            <CardTitle className="lowercase flex items-center gap-2">
+              <Download className="h-5 w-5" />
+              downloads ({Object.keys(downloads).length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-3">
+              {Object.values(downloads).map((download) => {
+                const details = [
+                  download.status,
+                  download.totalSize ? `${formatGB(download.downloadedSize)} / ${formatGB(download.totalSize)}` : undefined,
+                  download.status === 'downloading' && download.speed > 0 ? formatSpeed(download.speed) : undefined,
+                  download.status === 'downloading' ? formatEta(download.eta) : undefined
+                ].filter(Boolean)
+
+                return (
+                  <div key={download.id} className="p-4 border rounded-xl bg-muted/50">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <h4 className="font-medium lowercase truncate">{download.filename.replace('.gguf', '')}</h4>
+                        <p className="text-sm text-muted-foreground lowercase">{details.join(' • ')}</p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {ACTIVE_DOWNLOAD_STATUSES.includes(download.status) ? (
+                          <Button variant="ghost" size="sm" onClick={() => pauseDownload(download)} disabled={download.status === 'verifying'} title="Pause">
+                            <Pause className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="sm" onClick={() => resumeDownload(download)} title={download.status === 'failed' ? 'Retry' : 'Resume'}>
+                            <Play className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => cancelDownload(download)} title="Cancel">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="mt-3 w-full bg-secondary rounded-full h-2">
+                      <div 
+                        className={`h-2 rounded-full transition-all duration-300 ${download.status === 'failed' ? 'bg-red-500' : 'bg-primary'}`}
+                        style={{ width: `${download.progress}%` }}
+                      />
+                    </div>
+                    {download.error && <p className="mt-2 text-xs text-red-600">{download.error}</p>}
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Installed Models Section */}
-      {installedModels.length > 0 && (
+      {installedFiles.length > 0 && (
         <Card className="animate-fade-in">
           <CardHeader>
             <CardTitle className="lowercase flex items-center gap-2">
               <CheckCircle className="h-5 w-5 text-green-600" />
-              installed models ({installedModels.length})
+              installed models ({installedFiles.length})
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid gap-3">
-              {installedModels.map((modelId) => {
-                const model = FEATURED_MODELS.find(m => m.id === modelId)
-                if (!model) return null
+              {installedFiles.map((filename) => {
+                const featured = catalog.find(m => m.filename === filename)
+                const file = library?.models.find(m => m.filename === filename)
+                const { metadata, error } = modelMetadata[filename] || {}
+                const details = metadata ? [
+                  metadata.architecture,
+                  formatParameters(metadata.parameterCount),
+                  metadata.quantization,
+                  metadata.contextLength ? `${metadata.contextLength} ctx` : undefined,
+                  formatGB(metadata.fileSizeBytes)
+                ].filter(Boolean) : []
                 
                 return (
-                  <div key={modelId} className="flex items-center justify-between p-4 border rounded-xl bg-muted/50">
-                    <div>
-                      <h4 className="font-medium lowercase">{model.name}</h4>
-                      <p className="text-sm text-muted-foreground lowercase">{model.author} • {model.size}</p>
+                  <div key={filename} className="p-4 border rounded-xl bg-muted/50">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1 min-w-0">
+                        {renaming?.filename === filename ? (
+                          <Input
+                            autoFocus
+                            value={renaming.value}
+                            onChange={(e) => setRenaming({ filename, value: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') renameModel()
+                              if (e.key === 'Escape') setRenaming(null)
+                            }}
+                            onBlur={renameModel}
+                            className="h-8 max-w-sm"
+                          />
+                        ) : (
+                          <h4 className="font-medium lowercase">{featured?.name || metadata?.name || filename.replace('.gguf', '')}</h4>
+                        )}
+                        <p className="text-sm text-muted-foreground lowercase">
+                          {details.length > 0 ? details.join(' • ') : (featured ? `${featured.author} • ~${featured.sizeGB}gb` : filename)}
+                        </p>
+                        {file?.isSymlink && (
+                          <p className="text-xs text-muted-foreground truncate" title={file.targetPath}>linked from {file.targetPath}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 mr-2">
+                        <Button variant="ghost" size="sm" onClick={() => setRenaming({ filename, value: filename })} title="Rename">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteModel(filename)} title={file?.isSymlink ? 'Remove link' : 'Delete'}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {error ? (
+                        <div className="flex items-center gap-2 text-red-600" title={error}>
+                          <AlertCircle className="h-4 w-4" />
+                          <span className="text-sm lowercase">unreadable</span>
+                        </div>
+                      ) : metadata?.isEmbeddingModel ? (
+                        <span className="text-sm text-muted-foreground lowercase">embeddings</span>
+                      ) : (
+                        <div className="flex items-center gap-2 text-green-600">
+                          <CheckCircle className="h-4 w-4" />
+                          <span className="text-sm lowercase">ready</span>
+                        </div>
+                      )}
                     </div>
-                    <div className="flex items-center gap-2 text-green-600">
-                      <CheckCircle className="h-4 w-4" />
-                      <span className="text-sm lowercase">ready</span>
+                    {metadata && (
+                      <div className="mt-2 text-xs text-muted-foreground space-y-1">
+                        <p className="lowercase">
+                          needs ~{formatGB(metadata.estimatedMemoryBytes)} memory at {metadata.contextSize} ctx
+                          {metadata.tokenizer.model && ` • ${metadata.tokenizer.model} tokenizer`}
+                          {metadata.tokenizer.vocabSize && ` (${metadata.tokenizer.vocabSize} tokens)`}
+                          {metadata.license && ` • license: ${metadata.license}`}
+                        </p>
+                        {!metadata.isEmbeddingModel && (
+                          <details
+                            onToggle={(e) => {
+                              const open = (e.currentTarget as HTMLDetailsElement).open
+                              setOpenTemplates(prev => open ? [...prev, filename] : prev.filter(name => name !== filename))
+                            }}
+                          >
+                            <summary className="cursor-pointer lowercase">chat template</summary>
+                            {openTemplates.includes(filename) && (
+                              <ChatTemplatePanel filename={filename} isLoaded={loadedModel === filename} />
+                            )}
+                          </details>
+                        )}
+                      </div>
+                    )}
+                    {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* LoRA adapters, attached to agents */}
+      {adapters.length > 0 && (
+        <Card className="animate-fade-in">
+          <CardHeader>
+            <CardTitle className="lowercase flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              lora adapters ({adapters.length})
+            </CardTitle>
+            <CardDescription className="lowercase">
+              pick an adapter in an agent's settings to apply it while that agent is active
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-3">
+              {adapters.map((adapter) => {
+                const details = [
+                  adapter.architecture,
+                  adapter.baseModelName && `trained on ${adapter.baseModelName}`,
+                  adapter.alpha !== undefined ? `alpha ${adapter.alpha}` : undefined,
+                  formatGB(adapter.sizeBytes)
+                ].filter(Boolean)
+
+                return (
+                  <div key={adapter.filename} className="p-4 border rounded-xl bg-muted/50">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium lowercase flex items-center gap-2">
+                          {adapter.filename.replace('.gguf', '')}
+                          {adapter.active && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">active</span>
+                          )}
+                        </h4>
+                        <p className="text-sm text-muted-foreground lowercase">{details.join(' • ')}</p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => deleteAdapter(adapter)} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
+                    {adapter.error ? (
+                      <p className="mt-2 text-xs text-red-600">{adapter.error}</p>
+                    ) : (
+                      <p className="mt-2 text-xs text-muted-foreground lowercase">
+                        {adapter.compatibleModels.length > 0
+                          ? `fits: ${adapter.compatibleModels.map(model => model.filename.replace('.gguf', '')).join(', ')}`
+                          : 'no installed model fits this adapter'}
+                      </p>
+                    )}
                   </div>
                 )
               })}
@@ -223,7 +557,7 @@ export function ModelManager() {
         <CardHeader>
           <CardTitle className="lowercase">available models</CardTitle>
           <CardDescription className="lowercase">
-            download models from hugging face
+            download models from hugging face{catalogSource && ` • ${catalogSource}`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -236,10 +570,11 @@ export function ModelManager() {
               </div>
             ) : (
               filteredModels.map((model) => {
-                const isDownloading = downloadingModel === model.id
-                const isInstalled = installedModels.includes(model.id)
-                const progressData = downloadProgress[model.id]
-                const progress = progressData?.progress || 0
+                const download = downloads[model.filename]
+                const isDownloading = !!download && ACTIVE_DOWNLOAD_STATUSES.includes(download.status)
+                const isInstalled = installedFiles.includes(model.filename)
+                const compatibility = COMPATIBILITY_LABELS[model.compatibility]
+                const progress = download?.progress || 0
 
                 return (
                   <div
@@ -249,17 +584,26 @@ export function ModelManager() {
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
                         <h4 className="font-semibold text-lg lowercase">{model.name}</h4>
-                        {model.recommended && (
+                        {model.id === recommendedId && (
                           <span className="text-xs bg-primary text-primary-foreground px-2 py-1 rounded-full lowercase">
                             recommended
                           </span>
                         )}
+                        <span className={`text-xs px-2 py-1 rounded-full lowercase ${compatibility.className}`} title={model.reasons.join('\n')}>
+                          {compatibility.label} • {model.score}
+                        </span>
                       </div>
                       
                       <div className="flex items-center gap-3 mb-2 text-sm text-muted-foreground lowercase">
                         <span>{model.author}</span>
                         <span>•</span>
-                        <span>{model.size}</span>
+                        <span>~{model.sizeGB}gb</span>
+                        <span>•</span>
+                        <span>{model.quantization}</span>
+                        <span>•</span>
+                        <span>{model.ramRequiredGB}gb ram</span>
+                        <span>•</span>
+                        <span>{model.contextLength} ctx</span>
                       </div>
                       
                       <p className="text-sm text-muted-foreground mb-3 lowercase">{model.description}</p>
@@ -269,7 +613,7 @@ export function ModelManager() {
                           <div className="flex items-center justify-between text-sm mb-2">
                             <span className="flex items-center gap-2 lowercase">
                               <Loader2 className="h-4 w-4 animate-spin" />
-                              downloading...
+                              {download.status === 'downloading' ? 'downloading...' : `${download.status}...`}
                             </span>
                             <span className="font-mono text-xs">{progress}%</span>
                           </div>
@@ -300,6 +644,11 @@ export function ModelManager() {
                               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                               <span className="lowercase">downloading</span>
                             </>
+                          ) : download ? (
+                            <>
+                              <Play className="mr-2 h-4 w-4" />
+                              <span className="lowercase">{download.status === 'failed' ? 'retry' : 'resume'}</span>
+                            </>
                           ) : (
                             <>
                               <Download className="mr-2 h-4 w-4" />
@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
-import { Send, Bot, User, AlertCircle, Loader2, RefreshCw } from 'lucide-react'
+import { Send, Square, Bot, User, AlertCircle, Loader2, RefreshCw } from 'lucide-react'
 import { motion, AnimatePresence } from 'motion/react'
 import {
   AIInput,
@@ -25,7 +25,7 @@ import {
   SelectValue 
 } from '@/components/ui/select'
 import { NetworkStatus } from './NetworkStatus'
-import { Agent } from '../types/electron'
+import { Agent, ContextUsage } from '../types/electron'
 
 interface Message {
   id: string
@@ -34,16 +34,33 @@ interface Message {
   timestamp: Date
 }
 
-export function ModernChatInterface() {
+interface ModernChatInterfaceProps {
+  conversationId?: string | null
+  onConversationChange?: (conversationId: string | null) => void
+  onConversationUpdated?: () => void
+}
+
+export function ModernChatInterface({ conversationId = null, onConversationChange, onConversationUpdated }: ModernChatInterfaceProps = {}) {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputMessage, setInputMessage] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  const [activeRequestId, setActiveRequestId] = useState<string | null>(null)
+  // Set while the request waits behind other generations (e.g. relayed from peers)
+  const [queuePosition, setQueuePosition] = useState<number | null>(null)
   const [modelStatus, setModelStatus] = useState<{ isLoaded: boolean; error?: string }>({ isLoaded: false })
   const [availableModels, setAvailableModels] = useState<string[]>([])
   const [selectedModel, setSelectedModel] = useState<string>('')
+  const [modelLoad, setModelLoad] = useState<{ modelName: string; progress: number } | null>(null)
+  const [modelLoadError, setModelLoadError] = useState<string | null>(null)
   const [agents, setAgents] = useState<Agent[]>([])
   const [selectedAgent, setSelectedAgent] = useState<Agent | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Set when this component creates the conversation itself, so switching to it doesn't reload over the live messages
+  const createdConversationRef = useRef<string | null>(null)
+  const [contextUsage, setContextUsage] = useState<ContextUsage | null>(null)
+  // Usage events arrive for every conversation; only the one on screen is shown
+  const contextConversationRef = useRef<string>('default')
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -53,12 +70,89 @@ export function ModernChatInterface() {
     scrollToBottom()
   }, [messages])
 
+  useEffect(() => {
+    if (conversationId && conversationId === createdConversationRef.current) {
+      createdConversationRef.current = null
+      return
+    }
+    loadConversation(conversationId)
+  }, [conversationId])
+
+  useEffect(() => {
+    contextConversationRef.current = conversationId || 'default'
+    window.electronAPI.llm.getContextUsage(conversationId || undefined)
+      .then(result => setContextUsage(result.success ? result.usage ?? null : null))
+      .catch(() => setContextUsage(null))
+  }, [conversationId])
+
+  useEffect(() => {
+    return window.electronAPI.llm.onContextUsage((usage) => {
+      if (usage.conversationId === contextConversationRef.current) {
+        setContextUsage(usage)
+      }
+    })
+  }, [])
+
+  const loadConversation = async (id: string | null) => {
+    if (!id) {
+      setMessages([])
+      return
+    }
+    try {
+      const result = await window.electronAPI.conversation.getMessages(id)
+      if (result.success && result.data) {
+        setMessages(result.data.map(message => ({
+          id: message.id,
+          content: message.content,
+          sender: message.role === 'user' ? 'user' : 'bot',
+          timestamp: new Date(message.createdAt)
+        })))
+      }
+    } catch (error) {
+      console.error('Failed to load conversation:', error)
+    }
+  }
+
+  // Direct chats are saved as conversations; the first message starts a new one
+  const ensureConversation = async (): Promise<string | undefined> => {
+    if (conversationId) return conversationId
+    try {
+      const result = await window.electronAPI.conversation.create()
+      if (result.success && result.data) {
+        createdConversationRef.current = result.data.id
+        contextConversationRef.current = result.data.id
+        onConversationChange?.(result.data.id)
+        return result.data.id
+      }
+    } catch (error) {
+      console.error('Failed to create conversation:', error)
+    }
+    return undefined
+  }
+
   useEffect(() => {
     checkModelStatus()
     loadAvailableModels()
     loadAgents()
   }, [])
 
+  useEffect(() => {
+    return window.electronAPI.llm.onModelLoadProgress((event) => {
+      if (event.status === 'loading') {
+        setModelLoad({ modelName: event.modelName, progress: event.progress ?? 0 })
+        setModelLoadError(null)
+      } else {
+        setModelLoad(null)
+        if (event.status === 'loaded') {
+          setSelectedModel(event.modelName)
+        } else {
+          setModelLoadError(`Failed to load ${event.modelName}: ${event.error || 'unknown error'}`)
+        }
+        checkModelStatus()
+      }
+    })
+  }, [])
+
   const loadAgents = async () => {
     try {
       const result = await window.electron?.agent?.getAll()
@@ -88,9 +182,24 @@ export function ModernChatInterface() {
   }
 
   const handleModelChange = async (modelName: string) => {
+    if (modelName === selectedModel && modelStatus.isLoaded) return
+
+    const previousModel = selectedModel
     setSelectedModel(modelName)
-    // Note: Model switching would require backend support to unload/load different models
-    // For now, this just updates the UI
+    setModelLoadError(null)
+    try {
+      const result = await window.electronAPI.llm.loadModel(modelName)
+      if (!result.success) {
+        setSelectedModel(previousModel)
+        setModelLoadError(result.error || `Failed to load ${modelName}`)
+      }
+    } catch (error) {
+      console.error('Failed to load model:', error)
+      setSelectedModel(previousModel)
+      setModelLoadError(`Failed to load ${modelName}`)
+    } finally {
+      await checkModelStatus()
+    }
   }
 
   const checkModelStatus = async () => {
@@ -155,26 +264,43 @@ export function ModernChatInterface() {
           setMessages(prev => [...prev, errorMessage])
         }
       } else {
-        // Use direct LLM chat when no agent is selected
-        response = await window.electronAPI.llm.chat(content.trim())
-        
-        if (response.success && response.response) {
-          const botMessage: Message = {
-            id: (Date.now() + 1).toString(),
-            content: response.response,
-            sender: 'bot',
-            timestamp: new Date()
-          }
-          setMessages(prev => [...prev, botMessage])
-        } else {
-          const errorMessage: Message = {
-            id: (Date.now() + 1).toString(),
-            content: `Error: ${response.error || 'Unknown error occurred'}`,
-            sender: 'bot',
-            timestamp: new Date()
-          }
-          setMessages(prev => [...prev, errorMessage])
+        // Use direct LLM chat when no agent is selected, streaming tokens into the reply
+        const botMessageId = (Date.now() + 1).toString()
+        const upsertBotMessage = (update: (content: string) => string) => {
+          setMessages(prev => {
+            if (prev.some(m => m.id === botMessageId)) {
+              return prev.map(m => m.id === botMessageId ? { ...m, content: update(m.content) } : m)
+            }
+            return [...prev, { id: botMessageId, content: update(''), sender: 'bot', timestamp: new Date() }]
+          })
         }
+
+        const targetConversationId = await ensureConversation()
+
+        await new Promise<void>((resolve) => {
+          const requestId = window.electronAPI.llm.chatStream(content.trim(), {
+            onToken: (token) => {
+              setStreamingMessageId(botMessageId)
+              upsertBotMessage(current => current + token)
+            },
+            onQueued: (position) => {
+              setQueuePosition(position > 0 ? position : null)
+            },
+            onDone: (finalResponse) => {
+              // A stopped generation may finish with only part of the answer, or nothing at all
+              upsertBotMessage(current => finalResponse || current || '(generation stopped)')
+              resolve()
+            },
+            onError: (error) => {
+              upsertBotMessage(current => current
+                ? `${current}\n\nError: ${error}`
+                : `Error: ${error || 'Unknown error occurred'}`)
+              resolve()
+            }
+          }, { conversationId: targetConversationId })
+          setActiveRequestId(requestId)
+        })
+        onConversationUpdated?.()
       }
     } catch (error) {
       const errorMessage: Message = {
@@ -186,6 +312,26 @@ export function ModernChatInterface() {
       setMessages(prev => [...prev, errorMessage])
     } finally {
       setIsLoading(false)
+      setStreamingMessageId(null)
+      setActiveRequestId(null)
+      setQueuePosition(null)
+    }
+  }
+
+  // Swaps the LoRA adapter on the loaded model to match the selected agent
+  const applyAgentAdapter = async (agentId: string | null) => {
+    const result = await window.electronAPI.llm.setActiveAgent(agentId)
+    if (!result.success) {
+      setModelLoadError(`Could not apply the agent's adapter: ${result.error}`)
+    }
+  }
+
+  const stopGeneration = async () => {
+    if (!activeRequestId) return
+    try {
+      await window.electronAPI.llm.cancel(activeRequestId)
+    } catch (error) {
+      console.error('Failed to stop generation:', error)
     }
   }
 
@@ -291,10 +437,12 @@ export function ModernChatInterface() {
                 setSelectedAgent(null)
                 // Clear any active agent
                 await window.electron?.agent?.clearHistory()
+                applyAgentAdapter(null)
               } else {
                 const agent = agents.find(a => a.id === value)
                 if (agent) {
                   setSelectedAgent(agent)
+                  applyAgentAdapter(agent.id)
                   // Set the current agent in the backend
                   const result = await window.electron?.agent?.setCurrentAgent(agent.id)
                   if (result?.success) {
@@ -364,6 +512,26 @@ export function ModernChatInterface() {
         </div>
       )}
 
+      {/* Model Load Progress */}
+      {modelLoad && (
+        <div className="px-4 py-2 bg-blue-50 border-b border-blue-200">
+          <div className="flex items-center justify-between text-xs text-blue-800 lowercase">
+            <span>loading {modelLoad.modelName.replace('.gguf', '')}...</span>
+            <span>{Math.round(modelLoad.progress * 100)}%</span>
+          </div>
+          <div className="mt-1 h-1 rounded bg-blue-100">
+            <div className="h-1 rounded bg-blue-500 transition-all" style={{ width: `${Math.round(modelLoad.progress * 100)}%` }} />
+          </div>
+        </div>
+      )}
+      {modelLoadError && !modelLoad && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-200 flex items-center gap-2 text-xs text-red-700">
+          <AlertCircle className="h-3 w-3" />
+          <span className="flex-1">{modelLoadError}</span>
+          <button className="text-red-500 hover:text-red-700" onClick={() => setModelLoadError(null)}>dismiss</button>
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto px-4 py-6">
         <div className="mx-auto max-w-3xl space-y-6">
@@ -458,7 +626,7 @@ export function ModernChatInterface() {
             </AnimatePresence>
           )}
           
-          {isLoading && (
+          {isLoading && !streamingMessageId && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -472,7 +640,7 @@ export function ModernChatInterface() {
               <div className="bg-muted/50 rounded-lg p-3">
                 <div className="flex items-center gap-2">
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span className="text-sm">Thinking...</span>
+                  <span className="text-sm">{queuePosition ? `Queued (#${queuePosition})...` : 'Thinking...'}</span>
                 </div>
               </div>
             </motion.div>
@@ -494,7 +662,7 @@ export function ModernChatInterface() {
             />
             <AIInputToolbar>
               <AIInputTools>
-                <AIInputModelSelect value={selectedModel} onValueChange={handleModelChange}>
+                <AIInputModelSelect value={selectedModel} onValueChange={handleModelChange} disabled={!!modelLoad}>
                   <AIInputModelSelectTrigger className="w-[180px]">
                     <AIInputModelSelectValue placeholder="Select model" />
                   </AIInputModelSelectTrigger>
@@ -507,11 +675,32 @@ export function ModernChatInterface() {
                   </AIInputModelSelectContent>
                 </AIInputModelSelect>
               </AIInputTools>
-              <AIInputSubmit disabled={!inputMessage.trim() || !modelStatus.isLoaded || isLoading}>
-                <Send className="h-4 w-4" />
-              </AIInputSubmit>
+              {activeRequestId ? (
+                <AIInputSubmit type="button" onClick={stopGeneration} title="Stop generating">
+                  <Square className="h-4 w-4" />
+                </AIInputSubmit>
+              ) : (
+                <AIInputSubmit disabled={!inputMessage.trim() || !modelStatus.isLoaded || isLoading}>
+                  <Send className="h-4 w-4" />
+                </AIInputSubmit>
+              )}
             </AIInputToolbar>
           </AIInput>
+          {contextUsage && (
+            <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+              <div className="h-1 w-24 rounded bg-muted">
+                <div
+                  className={`h-1 rounded ${contextUsage.usedTokens / contextUsage.contextSize > 0.85 ? 'bg-yellow-500' : 'bg-primary'}`}
+                  style={{ width: `${Math.min(100, Math.round((contextUsage.usedTokens / contextUsage.contextSize) * 100))}%` }}
+                />
+              </div>
+              <span>
+                context {contextUsage.usedTokens.toLocaleString()} / {contextUsage.contextSize.toLocaleString()} tokens
+                {contextUsage.summarized && ' • earlier messages summarized'}
+                {!contextUsage.summarized && contextUsage.droppedTurns > 0 && ` • ${contextUsage.droppedTurns} older turns dropped`}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </div>
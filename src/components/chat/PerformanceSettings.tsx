@@ -1,13 +1,55 @@
 import { useState, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Zap, CheckCircle, Cpu, Layers, Clock, RefreshCw } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Zap, CheckCircle, Cpu, Layers, Clock, RefreshCw, Plus, Pencil, Trash2 } from 'lucide-react'
+import type { LoadPlan, MemoryFit, CustomProfile, ContextSettings, ContextOverflowStrategy, KVCacheInfo, SchedulerInfo, SpeculativeStats } from '@/types/electron'
+import { BenchmarkPanel } from './BenchmarkPanel'
+
+const FIT_LABELS: { [key in MemoryFit]: { label: string; className: string } } = {
+  'fits': { label: 'fits', className: 'bg-green-100 text-green-800' },
+  'tight': { label: 'tight', className: 'bg-yellow-100 text-yellow-800' },
+  'wont-fit': { label: "won't fit", className: 'bg-red-100 text-red-800' }
+}
 
 interface Profile {
   name: string
   description: string
+  custom?: boolean
 }
 
+const NEW_PROFILE: CustomProfile = {
+  name: '',
+  gpuLayers: 0,
+  threads: 4,
+  batchSize: 512,
+  contextSize: 4096,
+  flashAttention: false,
+  useMmap: true,
+  useMlock: false
+}
+
+const CONTEXT_STRATEGIES: { value: ContextOverflowStrategy; label: string }[] = [
+  { value: 'summarize', label: 'summarize older messages' },
+  { value: 'drop-oldest', label: 'drop oldest messages' },
+  { value: 'sliding-window', label: 'keep only recent turns' }
+]
+
+const NUMBER_FIELDS: { key: 'threads' | 'batchSize' | 'contextSize' | 'gpuLayers'; label: string }[] = [
+  { key: 'threads', label: 'threads' },
+  { key: 'batchSize', label: 'batch size' },
+  { key: 'contextSize', label: 'context size' },
+  { key: 'gpuLayers', label: 'gpu layers' }
+]
+
+const TOGGLE_FIELDS: { key: 'flashAttention' | 'useMmap' | 'useMlock'; label: string }[] = [
+  { key: 'flashAttention', label: 'flash attention' },
+  { key: 'useMmap', label: 'memory-map model file (mmap)' },
+  { key: 'useMlock', label: 'lock model in ram (mlock)' }
+]
+
 interface Config {
   gpuLayers: number
   threads: number
@@ -22,9 +64,21 @@ export function PerformanceSettings() {
   const [config, setConfig] = useState<Config | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [message, setMessage] = useState<string>('')
+  const [plans, setPlans] = useState<{ [profile: string]: LoadPlan }>({})
+  const [planModel, setPlanModel] = useState<string>('')
+  const [customProfiles, setCustomProfiles] = useState<CustomProfile[]>([])
+  const [modelProfiles, setModelProfiles] = useState<{ [filename: string]: string }>({})
+  const [installedModels, setInstalledModels] = useState<string[]>([])
+  // Profile being created or edited; null when the editor is closed
+  const [draft, setDraft] = useState<CustomProfile | null>(null)
+  const [contextSettings, setContextSettings] = useState<ContextSettings | null>(null)
+  const [kvCache, setKVCache] = useState<KVCacheInfo | null>(null)
+  const [scheduler, setScheduler] = useState<SchedulerInfo | null>(null)
+  const [speculative, setSpeculative] = useState<SpeculativeStats | null>(null)
 
   useEffect(() => {
     loadPerformanceSettings()
+    return window.electronAPI.llm.onSpeculativeStats(setSpeculative)
   }, [])
 
   const loadPerformanceSettings = async () => {
@@ -34,10 +88,42 @@ export function PerformanceSettings() {
         setProfiles(response.profiles || [])
         setCurrentProfile(response.current || 'auto')
         setConfig(response.config || null)
+        setCustomProfiles(response.customProfiles || [])
+        setModelProfiles(response.modelProfiles || {})
+      }
+      const context = await window.electronAPI.llm.getContextSettings()
+      if (context.success && context.settings) {
+        setContextSettings(context.settings)
+      }
+      const cache = await window.electronAPI.llm.getKVCacheInfo()
+      if (cache.success && cache.info) {
+        setKVCache(cache.info)
+      }
+      const queue = await window.electronAPI.llm.getSchedulerInfo()
+      if (queue.success && queue.info) {
+        setScheduler(queue.info)
+      }
+      const drafting = await window.electronAPI.llm.getSpeculativeStats()
+      if (drafting.success && drafting.stats) {
+        setSpeculative(drafting.stats)
+      }
+      const models = await window.electronAPI.llm.getAvailableModels()
+      if (models.success && models.models) {
+        setInstalledModels(models.models)
       }
     } catch (error) {
       console.error('Failed to load performance settings:', error)
     }
+
+    try {
+      const response = await window.electronAPI.llm.getLoadPlans()
+      if (response.success && response.plans) {
+        setPlans(Object.fromEntries(response.plans.map(plan => [plan.profile, plan])))
+        setPlanModel(response.modelName || '')
+      }
+    } catch (error) {
+      console.error('Failed to estimate memory use:', error)
+    }
   }
 
   const handleProfileChange = async (profile: string) => {
@@ -48,7 +134,7 @@ export function PerformanceSettings() {
       const response = await window.electronAPI.llm.setPerformanceProfile(profile)
       if (response.success) {
         setCurrentProfile(profile)
-        setMessage('settings updated! restart app to apply changes.')
+        setMessage('profile updated. it applies the next time a model is loaded.')
         // Reload to get new config
         await loadPerformanceSettings()
       } else {
@@ -61,6 +147,74 @@ export function PerformanceSettings() {
     }
   }
 
+  const saveDraft = async () => {
+    if (!draft) return
+    const response = await window.electronAPI.llm.saveCustomProfile(draft)
+    if (response.success) {
+      setDraft(null)
+      setMessage(response.warnings?.length
+        ? `profile saved with adjustments: ${response.warnings.join('; ')}`
+        : `profile "${response.profile?.name}" saved.`)
+      await loadPerformanceSettings()
+    } else {
+      setMessage(`error: ${response.error}`)
+    }
+  }
+
+  const deleteCustomProfile = async (name: string) => {
+    if (!confirm(`Delete the "${name}" profile? Models using it go back to the default profile.`)) return
+    const response = await window.electronAPI.llm.deleteCustomProfile(name)
+    if (!response.success) {
+      setMessage(`error: ${response.error}`)
+    }
+    await loadPerformanceSettings()
+  }
+
+  const assignModelProfile = async (filename: string, profile: string) => {
+    const response = await window.electronAPI.llm.setModelProfile(filename, profile === 'default' ? null : profile)
+    if (response.success) {
+      setModelProfiles(prev => {
+        const next = { ...prev }
+        if (profile === 'default') {
+          delete next[filename]
+        } else {
+          next[filename] = profile
+        }
+        return next
+      })
+      setMessage('model profile updated. applies the next time the model loads.')
+    } else {
+      setMessage(`error: ${response.error}`)
+    }
+  }
+
+  const updateContextSettings = async (changes: Partial<ContextSettings>) => {
+    const response = await window.electronAPI.llm.setContextSettings(changes)
+    if (response.success && response.settings) {
+      setContextSettings(response.settings)
+    } else {
+      setMessage(`error: ${response.error}`)
+    }
+  }
+
+  const updateKVCache = async (action: () => ReturnType<typeof window.electronAPI.llm.clearKVCache>) => {
+    const response = await action()
+    if (response.success && response.info) {
+      setKVCache(response.info)
+    } else {
+      setMessage(`error: ${response.error}`)
+    }
+  }
+
+  const updateScheduler = async (changes: { sequences?: number; maxQueueDepth?: number; maxQueuedPerSource?: number }) => {
+    const response = await window.electronAPI.llm.setSchedulerSettings(changes)
+    if (response.success && response.info) {
+      setScheduler(response.info)
+    } else {
+      setMessage(`error: ${response.error}`)
+    }
+  }
+
   const getProfileBadgeColor = (profileName: string) => {
     switch (profileName) {
       case 'maximum':
@@ -125,9 +279,13 @@ export function PerformanceSettings() {
         {/* Profile Selection */}
         <div className="space-y-3">
           <h4 className="font-medium text-sm lowercase">select performance profile:</h4>
+          {planModel && (
+            <p className="text-xs text-muted-foreground lowercase">memory estimates for {planModel}</p>
+          )}
           <div className="grid gap-3">
             {profiles.map((profile) => {
               const isSelected = currentProfile === profile.name
+              const plan = plans[profile.name]
               
               return (
                 <button
@@ -151,7 +309,19 @@ export function PerformanceSettings() {
                       <p className="text-sm text-muted-foreground">
                         {profile.description}
                       </p>
+                      {plan && (
+                        <div className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                          {plan.reasons.map((reason, index) => (
+                            <p key={index}>{reason}</p>
+                          ))}
+                        </div>
+                      )}
                     </div>
+                    {plan && (
+                      <div className={`mr-2 px-2 py-1 rounded-full text-xs ${FIT_LABELS[plan.fit].className}`}>
+                        {FIT_LABELS[plan.fit].label}
+                      </div>
+                    )}
                     <div className={`px-2 py-1 rounded-full text-xs border ${getProfileBadgeColor(profile.name)}`}>
                       {profile.name}
                     </div>
@@ -162,6 +332,283 @@ export function PerformanceSettings() {
           </div>
         </div>
 
+        {/* Custom Profiles */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-sm lowercase">custom profiles:</h4>
+            {!draft && (
+              <Button variant="outline" size="sm" onClick={() => setDraft({ ...NEW_PROFILE })} className="rounded-xl">
+                <Plus className="mr-1 h-4 w-4" />
+                <span className="lowercase">new profile</span>
+              </Button>
+            )}
+          </div>
+          {customProfiles.map(profile => (
+            <div key={profile.name} className="flex items-center justify-between p-3 border rounded-xl text-sm">
+              <div className="lowercase">
+                <span className="font-medium">{profile.name}</span>
+                <span className="ml-2 text-muted-foreground">
+                  {profile.threads} threads • {profile.contextSize} ctx • batch {profile.batchSize} • {profile.gpuLayers} gpu layers
+                  {profile.flashAttention && ' • flash attention'}
+                  {profile.useMlock && ' • mlock'}
+                  {!profile.useMmap && ' • no mmap'}
+                  {profile.draftModel && ` • draft ${profile.draftModel.replace('.gguf', '')}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setDraft({ ...profile })} title="Edit">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => deleteCustomProfile(profile.name)} title="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {draft && (
+            <div className="p-4 border rounded-xl space-y-3">
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="profile name"
+                className="rounded-xl"
+              />
+              <div className="grid grid-cols-2 gap-3">
+                {NUMBER_FIELDS.map(field => (
+                  <label key={field.key} className="space-y-1 text-sm">
+                    <span className="text-muted-foreground lowercase">{field.label}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={draft[field.key]}
+                      onChange={(e) => setDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                      className="rounded-xl"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-muted-foreground lowercase">draft model (speculative decoding)</span>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={draft.draftModel || 'none'}
+                    onValueChange={(value) => setDraft({ ...draft, draftModel: value === 'none' ? undefined : value })}
+                  >
+                    <SelectTrigger className="w-[200px] h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">none</SelectItem>
+                      {installedModels.map(filename => (
+                        <SelectItem key={filename} value={filename}>{filename.replace('.gguf', '')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {draft.draftModel && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={32}
+                      value={draft.draftTokens ?? 8}
+                      onChange={(e) => setDraft({ ...draft, draftTokens: Number(e.target.value) })}
+                      className="h-8 w-20 rounded-xl"
+                      title="Tokens drafted ahead per step"
+                    />
+                  )}
+                </div>
+              </div>
+              {TOGGLE_FIELDS.map(field => (
+                <div key={field.key} className="flex items-center justify-between text-sm">
+                  <span className="lowercase">{field.label}</span>
+                  <Switch
+                    checked={draft[field.key]}
+                    onCheckedChange={(checked) => setDraft({ ...draft, [field.key]: checked })}
+                  />
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                  <span className="lowercase">cancel</span>
+                </Button>
+                <Button size="sm" onClick={saveDraft} disabled={!draft.name.trim()}>
+                  <span className="lowercase">save profile</span>
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Per-model Profiles */}
+        {installedModels.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-sm lowercase">profile per model:</h4>
+            {installedModels.map(filename => (
+              <div key={filename} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate lowercase" title={filename}>{filename.replace('.gguf', '')}</span>
+                <Select
+                  value={modelProfiles[filename] || 'default'}
+                  onValueChange={(value) => assignModelProfile(filename, value)}
+                >
+                  <SelectTrigger className="w-[180px] h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">default ({currentProfile})</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Context Window */}
+        {contextSettings && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-sm lowercase">when a conversation outgrows the context:</h4>
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <Select
+                value={contextSettings.strategy}
+                onValueChange={(value) => updateContextSettings({ strategy: value as ContextOverflowStrategy })}
+              >
+                <SelectTrigger className="w-[240px] h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTEXT_STRATEGIES.map(strategy => (
+                    <SelectItem key={strategy.value} value={strategy.value}>{strategy.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {contextSettings.strategy === 'sliding-window' && (
+                <label className="flex items-center gap-2 text-muted-foreground lowercase">
+                  turns
+                  <Input
+                    type="number"
+                    min={1}
+                    value={contextSettings.windowTurns}
+                    onChange={(e) => updateContextSettings({ windowTurns: Number(e.target.value) })}
+                    className="h-8 w-20 rounded-xl"
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Conversation cache */}
+        {kvCache && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-medium text-sm lowercase">conversation cache</h4>
+                <p className="text-xs text-muted-foreground lowercase">
+                  saves evaluated context to disk so long conversations and agents resume instantly •{' '}
+                  {(kvCache.usedBytes / 1024 ** 2).toFixed(0)}mb of {(kvCache.maxBytes / 1024 ** 3).toFixed(1)}gb in {kvCache.entries} files
+                </p>
+              </div>
+              <Switch
+                checked={kvCache.enabled}
+                onCheckedChange={(enabled) => updateKVCache(() => window.electronAPI.llm.setKVCacheSettings({ enabled }))}
+              />
+            </div>
+            {kvCache.entries > 0 && (
+              <Button variant="outline" size="sm" onClick={() => updateKVCache(() => window.electronAPI.llm.clearKVCache())} className="rounded-xl">
+                <Trash2 className="mr-1 h-4 w-4" />
+                <span className="lowercase">clear cache</span>
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Parallel requests */}
+        {scheduler && (
+          <div className="space-y-2">
+            <div>
+              <h4 className="font-medium text-sm lowercase">parallel requests</h4>
+              <p className="text-xs text-muted-foreground lowercase">
+                each sequence serves one chat at a time and needs its own kv cache; your chats go ahead of relayed ones •{' '}
+                {scheduler.stats.running} running, {scheduler.stats.queued} waiting
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-2 text-muted-foreground lowercase">
+                sequences
+                <Input
+                  type="number"
+                  min={1}
+                  max={16}
+                  value={scheduler.sequences}
+                  onChange={(e) => updateScheduler({ sequences: Number(e.target.value) })}
+                  className="h-8 w-20 rounded-xl"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-muted-foreground lowercase">
+                max queued
+                <Input
+                  type="number"
+                  min={1}
+                  value={scheduler.maxQueueDepth}
+                  onChange={(e) => updateScheduler({ maxQueueDepth: Number(e.target.value) })}
+                  className="h-8 w-20 rounded-xl"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-muted-foreground lowercase">
+                per peer
+                <Input
+                  type="number"
+                  min={1}
+                  value={scheduler.maxQueuedPerSource}
+                  onChange={(e) => updateScheduler({ maxQueuedPerSource: Number(e.target.value) })}
+                  className="h-8 w-20 rounded-xl"
+                />
+              </label>
+            </div>
+            {scheduler.sequences !== scheduler.stats.slots && (
+              <p className="text-xs text-muted-foreground lowercase">sequence changes take effect on the next model load</p>
+            )}
+          </div>
+        )}
+
+        {/* Speculative decoding */}
+        {speculative && (speculative.draftModel || speculative.lastTokensPerSecond !== undefined) && (
+          <div className="space-y-1">
+            <h4 className="font-medium text-sm lowercase">speculative decoding</h4>
+            <p className="text-xs text-muted-foreground lowercase">
+              {speculative.enabled
+                ? `drafting with ${speculative.draftModel?.replace('.gguf', '')}, up to ${speculative.draftTokens} tokens ahead`
+                : speculative.disabledReason
+                  ? `off: ${speculative.disabledReason}`
+                  : 'off • pick a draft model from the same family in a custom profile'}
+            </p>
+            <div className="flex flex-wrap gap-4 text-sm">
+              {speculative.enabled && (
+                <span>
+                  <span className="text-muted-foreground lowercase">acceptance: </span>
+                  <span className="font-medium">
+                    {speculative.acceptanceRate !== undefined ? `${Math.round(speculative.acceptanceRate * 100)}%` : '—'}
+                  </span>
+                  <span className="text-xs text-muted-foreground lowercase">
+                    {' '}({speculative.validated} of {speculative.validated + speculative.refuted} drafted tokens)
+                  </span>
+                </span>
+              )}
+              {speculative.lastTokensPerSecond !== undefined && (
+                <span>
+                  <span className="text-muted-foreground lowercase">last reply: </span>
+                  <span className="font-medium">{speculative.lastTokensPerSecond} tok/s</span>
+                  <span className="text-xs text-muted-foreground lowercase"> ({speculative.lastGeneratedTokens} tokens)</span>
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Benchmark and auto-tuner */}
+        <BenchmarkPanel onProfileSaved={loadPerformanceSettings} />
+
         {/* Status Message */}
         {message && (
           <div className={`p-3 rounded-xl text-sm lowercase ${
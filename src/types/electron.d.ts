@@ -1,8 +1,334 @@
+export interface ChatStreamHandlers {
+  onToken?: (token: string) => void
+  // Position in the request queue while waiting for a free sequence; 0 once generation starts
+  onQueued?: (position: number) => void
+  onDone?: (response: string) => void
+  onError?: (error: string) => void
+}
+
+export interface ModelLoadEvent {
+  status: 'loading' | 'loaded' | 'error'
+  modelName: string
+  progress?: number
+  error?: string
+}
+
+export interface PerformanceConfig {
+  gpuLayers: number
+  threads: number
+  batchSize: number
+  contextSize: number
+  flashAttention?: boolean
+  useMmap?: boolean
+  useMlock?: boolean
+  profile: string
+}
+
+export interface CustomProfile {
+  name: string
+  description?: string
+  gpuLayers: number
+  threads: number
+  batchSize: number
+  contextSize: number
+  flashAttention: boolean
+  useMmap: boolean
+  useMlock: boolean
+  draftModel?: string // small model of the same family for speculative decoding
+  draftTokens?: number
+}
+
+export interface SpeculativeStats {
+  enabled: boolean
+  draftModel?: string
+  draftTokens?: number
+  disabledReason?: string
+  validated: number
+  refuted: number
+  acceptanceRate?: number
+  lastTokensPerSecond?: number
+  lastGeneratedTokens?: number
+}
+
+export type ContextOverflowStrategy = 'sliding-window' | 'drop-oldest' | 'summarize'
+
+export interface ContextSettings {
+  strategy: ContextOverflowStrategy
+  windowTurns: number
+  reserveTokens: number
+}
+
+export interface ContextUsage {
+  conversationId: string
+  usedTokens: number
+  contextSize: number
+  strategy: ContextOverflowStrategy
+  messageCount: number
+  summarized: boolean
+  droppedTurns: number
+}
+
+export interface KVCacheInfo {
+  enabled: boolean
+  maxBytes: number
+  usedBytes: number
+  entries: number
+}
+
+export type ChatTemplateId = 'auto' | 'chatml' | 'llama3' | 'mistral' | 'phi' | 'gemma' | 'jinja'
+
+export interface ChatTemplateOption {
+  id: ChatTemplateId
+  name: string
+  description: string
+}
+
+export interface ChatTemplateSetting {
+  template: ChatTemplateId
+  jinja?: string
+}
+
+export interface ChatTemplateInfo {
+  filename: string
+  setting: ChatTemplateSetting
+  detected?: ChatTemplateId
+  ggufTemplate?: string
+  activeWrapper?: string // set when this model is loaded
+}
+
+export interface PromptPreviewMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface PromptPreview {
+  text: string
+  tokenCount: number
+  wrapperName: string
+}
+
+export interface SchedulerInfo {
+  sequences: number
+  maxQueueDepth: number
+  maxQueuedPerSource: number
+  stats: {
+    slots: number
+    running: number
+    queued: number
+    queuedByPriority: { interactive: number; relay: number }
+  }
+}
+
+export interface BenchmarkResult {
+  id: string
+  createdAt: string
+  modelName: string
+  profile: string
+  tuningRunId?: string
+  threads: number
+  batchSize: number
+  contextSize: number
+  gpuLayers: number
+  promptTokens: number
+  generatedTokens: number
+  promptTokensPerSecond: number
+  generationTokensPerSecond: number
+  timeToFirstTokenMs: number
+  peakMemoryBytes: number
+  durationMs: number
+}
+
+export interface BenchmarkProgress {
+  phase: 'benchmark' | 'tuning'
+  step: number
+  totalSteps: number
+  message: string
+  result?: BenchmarkResult
+}
+
+export type MemoryFit = 'fits' | 'tight' | 'wont-fit'
+
+export interface LoadPlan {
+  profile: string
+  requested: PerformanceConfig
+  config: PerformanceConfig
+  estimate: { weightsBytes: number; kvCacheBytes: number; ramBytes: number; vramBytes: number }
+  budget: { ramBytes: number; vramBytes?: number }
+  fit: MemoryFit
+  canLoad: boolean
+  reasons: string[]
+}
+
+export interface ModelMetadata {
+  filename: string
+  fileSizeBytes: number
+  ggufVersion: number
+  architecture?: string
+  name?: string
+  sizeLabel?: string
+  parameterCount?: number
+  quantization?: string
+  contextLength?: number
+  embeddingLength?: number
+  blockCount?: number
+  headCount?: number
+  headCountKv?: number
+  isEmbeddingModel: boolean
+  chatTemplate?: string
+  tokenizer: {
+    model?: string
+    vocabSize?: number
+    bosTokenId?: number
+    eosTokenId?: number
+  }
+  license?: string
+  tensorCount: number
+  contextSize: number // context size of the active performance profile
+  estimatedMemoryBytes: number // at contextSize
+}
+
+export interface HardwareInfo {
+  platform: string
+  arch: string
+  cpuCount: number
+  memoryGB: number
+  isAppleSilicon: boolean
+  isARM: boolean
+  autoProfile: string
+}
+
+// Model catalog entry scored against this machine's hardware
+export interface CatalogModel {
+  id: string
+  name: string
+  author: string
+  description: string
+  url: string
+  filename: string
+  sha256?: string
+  sizeGB: number
+  parameterCount?: number
+  quantization: string
+  ramRequiredGB: number
+  contextLength: number
+  recommendedProfile: string
+  score: number
+  compatibility: 'great' | 'good' | 'tight' | 'incompatible'
+  reasons: string[]
+}
+
+export interface InstalledModelFile {
+  filename: string
+  sizeBytes: number
+  isSymlink: boolean
+  targetPath?: string
+  modifiedAt: string
+}
+
+export interface ModelDiskUsage {
+  modelsDir: string
+  modelsBytes: number
+  freeBytes: number
+  totalBytes: number
+  models: InstalledModelFile[]
+}
+
+export interface InstalledAdapter {
+  filename: string
+  sizeBytes: number
+  architecture?: string
+  baseModelName?: string
+  alpha?: number
+  compatibleModels: { filename: string; reason: string }[]
+  active: boolean
+  error?: string
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'cancelled'
+
+export interface DownloadJob {
+  id: string
+  url: string
+  filename: string
+  sha256?: string
+  status: DownloadStatus
+  downloadedBytes: number
+  totalBytes?: number
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DownloadProgress {
+  id: string
+  filename: string
+  status: DownloadStatus
+  progress: number
+  downloadedSize: number
+  totalSize?: number
+  speed: number // bytes per second
+  eta?: number // seconds
+  error?: string
+}
+
+export interface GenerationOptions {
+  temperature?: number
+  topP?: number
+  topK?: number
+  repeatPenalty?: number
+  maxTokens?: number
+  seed?: number
+}
+
+// How hybrid mode chooses between this device, LocalAI and peers
+export type RoutingRule = 'never-offload' | 'prefer-fastest' | 'prefer-idle-peers'
+
+export interface FailoverPolicy {
+  timeoutMs: { localai: number; peer: number }
+  retries: number
+  backoffMs: number
+  maxBackends: number
+  breakerThreshold: number
+  breakerCooldownMs: number
+}
+
+export interface RequestMetrics {
+  requestId: string
+  route: string
+  attempts: { backend: string; name: string; kind: 'local' | 'localai' | 'peer'; ok: boolean; error?: string; durationMs: number }[]
+  failovers: number
+  latency: number
+  timestamp: string
+}
+
+export interface CircuitState {
+  id: string
+  failures: number
+  openUntil?: number
+  probing?: boolean
+}
+
 export interface IElectronAPI {
   platform: string
   getEnv?: (key: string) => Promise<string | undefined>
   llm: {
-    chat: (message: string) => Promise<{ success: boolean; response?: string; error?: string }>
+    chat: (message: string, options?: { requestId?: string; conversationId?: string; generation?: GenerationOptions }) => Promise<{ success: boolean; response?: string; error?: string }>
+    chatStructured: <T = any>(message: string, schema: object, options?: { requestId?: string; conversationId?: string; generation?: GenerationOptions }) => Promise<{
+      success: boolean
+      data?: T
+      raw?: string
+      error?: string
+      errorCode?: 'invalid_schema' | 'invalid_output' | 'cancelled'
+    }>
+    embed: (input: string | string[], options?: { model?: string }) => Promise<{
+      success: boolean
+      embeddings?: number[][]
+      model?: string
+      dimensions?: number
+      error?: string
+    }>
+    cancel: (requestId: string) => Promise<{ success: boolean; cancelled?: boolean; error?: string }>
+    chatStream: (message: string, handlers: ChatStreamHandlers, options?: { conversationId?: string; generation?: GenerationOptions }) => string
     getModelInfo: () => Promise<{ 
       isLoaded: boolean; 
       modelName?: string; 
@@ -12,13 +338,75 @@ export interface IElectronAPI {
     }>
     reinitialize: () => Promise<{ success: boolean; error?: string }>
     getAvailableModels: () => Promise<{ success: boolean; models?: string[]; error?: string }>
-    getPerformanceProfiles: () => Promise<{ success: boolean; profiles?: any; current?: string; config?: any; error?: string }>
+    getModelMetadata: (filename: string) => Promise<{ success: boolean; metadata?: ModelMetadata; error?: string }>
+    loadModel: (filename: string) => Promise<{ success: boolean; modelName?: string; error?: string }>
+    // Returns a function that removes the listener
+    onModelLoadProgress: (callback: (data: ModelLoadEvent) => void) => () => void
+    getPerformanceProfiles: () => Promise<{ success: boolean; profiles?: any; current?: string; config?: any; customProfiles?: CustomProfile[]; modelProfiles?: { [filename: string]: string }; error?: string }>
     setPerformanceProfile: (profile: string) => Promise<{ success: boolean; message?: string; error?: string }>
+    saveCustomProfile: (profile: CustomProfile) => Promise<{ success: boolean; profile?: CustomProfile; warnings?: string[]; error?: string }>
+    deleteCustomProfile: (name: string) => Promise<{ success: boolean; error?: string }>
+    setModelProfile: (filename: string, profile: string | null) => Promise<{ success: boolean; error?: string }>
+    getChatTemplate: (filename: string) => Promise<{ success: boolean; info?: ChatTemplateInfo; templates?: ChatTemplateOption[]; error?: string }>
+    // null goes back to the template detected from the model file
+    setChatTemplate: (filename: string, setting: ChatTemplateSetting | null) => Promise<{ success: boolean; info?: ChatTemplateInfo; error?: string }>
+    // Renders with the loaded model; `setting` tries a template without saving it
+    previewPrompt: (messages: PromptPreviewMessage[], setting?: ChatTemplateSetting) => Promise<{ success: boolean; preview?: PromptPreview; error?: string }>
+    getContextUsage: (conversationId?: string) => Promise<{ success: boolean; usage?: ContextUsage | null; error?: string }>
+    getContextSettings: () => Promise<{ success: boolean; settings?: ContextSettings; error?: string }>
+    setContextSettings: (changes: Partial<ContextSettings>) => Promise<{ success: boolean; settings?: ContextSettings; error?: string }>
+    onContextUsage: (callback: (data: ContextUsage) => void) => () => void
+    getKVCacheInfo: () => Promise<{ success: boolean; info?: KVCacheInfo; error?: string }>
+    setKVCacheSettings: (changes: { enabled?: boolean; maxBytes?: number }) => Promise<{ success: boolean; info?: KVCacheInfo; error?: string }>
+    clearKVCache: () => Promise<{ success: boolean; info?: KVCacheInfo; error?: string }>
+    // Applies the agent's LoRA adapter (or removes the current one); null when no agent is selected
+    setActiveAgent: (agentId: string | null) => Promise<{ success: boolean; adapter?: { filename: string; scale: number } | null; error?: string }>
+    getSpeculativeStats: () => Promise<{ success: boolean; stats?: SpeculativeStats; error?: string }>
+    // Sent after every reply; returns a function that removes the listener
+    onSpeculativeStats: (callback: (data: SpeculativeStats) => void) => () => void
+    getSchedulerInfo: () => Promise<{ success: boolean; info?: SchedulerInfo; error?: string }>
+    setSchedulerSettings: (changes: { sequences?: number; maxQueueDepth?: number; maxQueuedPerSource?: number }) => Promise<{ success: boolean; info?: SchedulerInfo; error?: string }>
+    runBenchmark: (overrides?: { threads?: number; batchSize?: number }) => Promise<{ success: boolean; result?: BenchmarkResult; error?: string }>
+    autoTune: () => Promise<{ success: boolean; best?: BenchmarkResult; results?: BenchmarkResult[]; profile?: CustomProfile; warnings?: string[]; error?: string }>
+    cancelBenchmark: () => Promise<{ success: boolean }>
+    getBenchmarkResults: () => Promise<{ success: boolean; results?: BenchmarkResult[]; error?: string }>
+    clearBenchmarkResults: () => Promise<{ success: boolean; error?: string }>
+    onBenchmarkProgress: (callback: (data: BenchmarkProgress) => void) => () => void
+    getLoadPlans: (filename?: string) => Promise<{ success: boolean; modelName?: string; plans?: LoadPlan[]; active?: LoadPlan | null; error?: string }>
+  }
+  conversation: {
+    create: (options?: { title?: string; systemPrompt?: string; agentId?: string }) => Promise<{ success: boolean; data?: Conversation; error?: string }>
+    getAll: (query?: string) => Promise<{ success: boolean; data?: Conversation[]; error?: string }>
+    getMessages: (conversationId: string) => Promise<{ success: boolean; data?: ConversationMessage[]; error?: string }>
+    rename: (conversationId: string, title: string) => Promise<{ success: boolean; data?: Conversation | null; error?: string }>
+    delete: (conversationId: string) => Promise<{ success: boolean; data?: boolean; error?: string }>
   }
   model: {
-    download: (modelUrl: string, filename: string) => Promise<{ success: boolean; path?: string; size?: number; error?: string }>
+    download: (modelUrl: string, filename: string, options?: { sha256?: string }) => Promise<{ success: boolean; path?: string; size?: number; error?: string }>
+    enqueueDownload: (modelUrl: string, filename: string, options?: { sha256?: string }) => Promise<{ success: boolean; job?: DownloadJob; error?: string }>
+    getCatalog: (refresh?: boolean) => Promise<{
+      success: boolean
+      version?: number
+      updatedAt?: string
+      source?: string
+      hardware?: HardwareInfo
+      models?: CatalogModel[]
+      error?: string
+    }>
+    setCatalogUrl: (catalogUrl: string | null) => Promise<{ success: boolean; version?: number; source?: string; error?: string }>
+    getDownloads: () => Promise<{ success: boolean; downloads?: DownloadJob[]; error?: string }>
+    pauseDownload: (id: string) => Promise<{ success: boolean }>
+    resumeDownload: (id: string) => Promise<{ success: boolean }>
+    cancelDownload: (id: string) => Promise<{ success: boolean }>
+    getLibrary: () => Promise<{ success: boolean; usage?: ModelDiskUsage; error?: string }>
+    import: (mode?: 'copy' | 'symlink') => Promise<{ success: boolean; model?: InstalledModelFile; error?: string }>
+    delete: (filename: string) => Promise<{ success: boolean; error?: string }>
+    rename: (filename: string, newFilename: string) => Promise<{ success: boolean; model?: InstalledModelFile; error?: string }>
+    getAdapters: () => Promise<{ success: boolean; adapters?: InstalledAdapter[]; error?: string }>
+    importAdapter: () => Promise<{ success: boolean; adapter?: InstalledAdapter; error?: string }>
+    deleteAdapter: (filename: string) => Promise<{ success: boolean; error?: string }>
     openDirectory: () => Promise<{ success: boolean; error?: string }>
-    onDownloadProgress: (callback: (data: { filename: string; progress: number; downloadedSize?: number; totalSize?: number }) => void) => void
+    onDownloadProgress: (callback: (data: DownloadProgress) => void) => void
     removeDownloadProgressListener: () => void
   }
   distributed: {
@@ -26,6 +414,8 @@ export interface IElectronAPI {
       success: boolean
       status?: {
         mode: 'local' | 'distributed' | 'hybrid'
+        // Backend serving the latest request; follows it when it fails over
+        route?: { id: string; kind: 'local' | 'localai' | 'peer'; name: string; reasons: string[]; active: boolean; timestamp: string }
         localAIAvailable: boolean
         peersConnected: number
         userProfile: {
@@ -45,6 +435,8 @@ export interface IElectronAPI {
         p2pPort?: number
         coordinatorAddress?: string
         enableP2P: boolean
+        routing: RoutingRule
+        failover: FailoverPolicy
         userProfile: {
           id: string
           displayName: string
@@ -55,7 +447,11 @@ export interface IElectronAPI {
       error?: string
     }>
     updateConfig: (config: any) => Promise<{ success: boolean; error?: string }>
-    updateUserProfile: (profile: any) => Promise<{ success: boolean; error?: string }>
+    updateUserProfile: (profile: any) => Promise<{
+      success: boolean
+      profile?: { id: string; displayName: string; deviceName: string; color: string }
+      error?: string
+    }>
     testLocalAI: () => Promise<{ success: boolean; error?: string; latency?: number }>
     getPeers: () => Promise<{ 
       success: boolean
@@ -66,10 +462,15 @@ export interface IElectronAPI {
         port: number
         status: 'connected' | 'disconnected' | 'busy'
         contribution: number
+        relayPort?: number
+        load?: { slots: number; running: number; queued: number }
+        model?: string
+        pingMs?: number
       }>
       error?: string
     }>
     getMetrics: () => Promise<{ success: boolean; metrics?: any; error?: string }>
+    getRequestMetrics: () => Promise<{ success: boolean; requests?: RequestMetrics[]; circuits?: CircuitState[]; error?: string }>
     getComputeDistribution: () => Promise<{ success: boolean; distribution?: any; error?: string }>
     getCurrentRequest: () => Promise<{ success: boolean; request?: any; error?: string }>
     getLocalAIStatus: () => Promise<{
@@ -107,14 +508,37 @@ export interface Agent {
     chromaCollectionId?: string
   }
   modelConfig?: {
-    model: string
-    temperature: number
-    maxTokens: number
+    model?: string
+    temperature?: number
+    maxTokens?: number
+    topP?: number
+    topK?: number
+    repeatPenalty?: number
+    seed?: number
+    loraAdapter?: string // filename in the models/adapters directory, applied while the agent is active
+    loraScale?: number // adapter strength, defaults to 1
   }
   createdAt: string
   updatedAt: string
 }
 
+export interface Conversation {
+  id: string
+  title: string
+  systemPrompt?: string
+  agentId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ConversationMessage {
+  id: string
+  conversationId: string
+  role: 'user' | 'assistant'
+  content: string
+  createdAt: string
+}
+
 export interface AgentFile {
   id: string
   agentId: string
@@ -1,14 +1,26 @@
 #!/usr/bin/env node
 
 const multicastDns = require('multicast-dns')
+const http = require('http')
 const os = require('os')
 
 // Configuration
 const deviceId = 'test-peer-' + Math.random().toString(36).substr(2, 9)
-const deviceName = 'Lenovo'
+const deviceName = process.env.TEST_PEER_NAME || 'Lenovo'
 const serviceType = '_latentra._tcp.local'
 const apiPort = 3001
 
+// Fake relay server so routing and failover can be tried without a second machine.
+// Run several peers with different names and ports to test failing over between them.
+//   TEST_PEER_MODE=ok     answer every chat
+//   TEST_PEER_MODE=fail   answer every chat with a 500
+//   TEST_PEER_MODE=slow   wait TEST_PEER_DELAY_MS (default 120000) before answering, to hit the timeout
+//   TEST_PEER_MODE=flaky  fail every other chat
+const relayPort = Number(process.env.TEST_PEER_RELAY_PORT || 5124)
+const mode = process.env.TEST_PEER_MODE || 'ok'
+const delayMs = Number(process.env.TEST_PEER_DELAY_MS || 120000)
+const model = process.env.TEST_PEER_MODEL || 'test-model.gguf'
+
 // System specs for testing
 const systemSpecs = {
   cpu: 'Intel Core i7-9750H',
@@ -79,7 +91,8 @@ function announceService() {
           `arch=${systemSpecs.arch}`,
           `cpu=${systemSpecs.cpu}`,
           `memory=${systemSpecs.memory}`,
-          `vram=${systemSpecs.vram}`
+          `vram=${systemSpecs.vram}`,
+          `relay=${relayPort}`
         ]
       },
       ...addresses.map((addr) => ({
@@ -128,6 +141,53 @@ function queryPeers() {
   })
 }
 
+let running = 0
+let chats = 0
+
+const relay = http.createServer((req, res) => {
+  const reply = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  if (req.method === 'GET' && req.url === '/api/relay/queue') {
+    reply(200, { success: true, stats: { slots: 1, running, queued: 0 }, model })
+    return
+  }
+
+  if (req.method === 'POST' && req.url === '/api/relay/chat') {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      const { message } = JSON.parse(body || '{}')
+      chats++
+      console.log(`Relay chat #${chats} (${mode}): ${message}`)
+      if (mode === 'fail' || (mode === 'flaky' && chats % 2 === 1)) {
+        reply(500, { success: false, error: `${deviceName} is set up to fail` })
+        return
+      }
+      running++
+      const timer = setTimeout(() => {
+        running--
+        reply(200, { success: true, response: `${deviceName} received: ${message}`, queuePosition: 0 })
+      }, mode === 'slow' ? delayMs : 200)
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          clearTimeout(timer)
+          running--
+        }
+      })
+    })
+    return
+  }
+
+  reply(404, { success: false, error: 'Not Found' })
+})
+
+relay.listen(relayPort, () => {
+  console.log(`Fake relay (${mode}) listening on http://0.0.0.0:${relayPort}`)
+})
+
 // Start announcing and querying
 announceService()
 setInterval(() => announceService(), 20000)
@@ -142,5 +202,6 @@ console.log('Press Ctrl+C to stop')
 process.on('SIGINT', () => {
   console.log('\nStopping test peer...')
   mdns.destroy()
+  relay.close()
   process.exit(0)
 })
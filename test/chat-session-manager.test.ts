@@ -0,0 +1,44 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ChatSessionManager, DEFAULT_CONVERSATION_ID } from '../electron/chat-session-manager.js'
+
+test('caps relayed conversations and keeps the default one', () => {
+  const sessions = new ChatSessionManager('You are helpful.')
+  sessions.appendExchange(DEFAULT_CONVERSATION_ID, 'hi', 'hello')
+
+  for (let i = 0; i < 100; i++) {
+    sessions.get(`relay:10.0.0.2:${i}`)
+  }
+
+  const cached: Map<string, unknown> = (sessions as any).conversations
+  assert.equal(cached.size, 33)
+  assert.equal(sessions.get(DEFAULT_CONVERSATION_ID).history.length, 3)
+  assert.equal(cached.has('relay:10.0.0.2:0'), false)
+  assert.equal(cached.has('relay:10.0.0.2:99'), true)
+})
+
+test('replaces a relayed conversation with the history its sender kept', () => {
+  const sessions = new ChatSessionManager('You are helpful.')
+  sessions.appendExchange('relay:10.0.0.2:a', 'old question', 'old answer')
+
+  const conversation = sessions.replace('relay:10.0.0.2:a', [
+    { type: 'user', text: 'my name is Sam' },
+    { type: 'model', response: ['Hi Sam'] }
+  ], 'Be brief.')
+
+  assert.deepEqual(conversation.history, [
+    { type: 'system', text: 'Be brief.' },
+    { type: 'user', text: 'my name is Sam' },
+    { type: 'model', response: ['Hi Sam'] }
+  ])
+})
+
+test('refuses to replace a stored conversation', () => {
+  const store: any = {
+    getConversationById: (id: string) => ({ id, title: 'stored', droppedTurns: 0 }),
+    getMessages: () => []
+  }
+  const sessions = new ChatSessionManager('You are helpful.', store)
+
+  assert.throws(() => sessions.replace('stored-id', []), /can't be replaced/)
+})
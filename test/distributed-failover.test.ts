@@ -0,0 +1,200 @@
+import { test, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawn, type ChildProcess } from 'child_process'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { DistributedInferenceService, type PeerDevice } from '../electron/distributed-service.js'
+import type { FailoverPolicy } from '../electron/failover.js'
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..')
+
+interface FakePeer {
+  name: string
+  relayPort: number
+  vram: number // decides the routing order: more VRAM ranks higher
+  process?: ChildProcess
+}
+
+// Ranked fail > slow > ok by specs, so the router tries them in that order
+const peers: Record<'fail' | 'slow' | 'ok', FakePeer> = {
+  fail: { name: 'failing-peer', relayPort: 5311, vram: 24 },
+  slow: { name: 'slow-peer', relayPort: 5312, vram: 16 },
+  ok: { name: 'working-peer', relayPort: 5313, vram: 8 }
+}
+
+// Starts test-peer.cjs as a fake relay and waits until it listens
+function startPeer(mode: keyof typeof peers): Promise<void> {
+  const peer = peers[mode]
+  const child = spawn(process.execPath, [path.join(root, 'test-peer.cjs')], {
+    env: {
+      ...process.env,
+      TEST_PEER_NAME: peer.name,
+      TEST_PEER_RELAY_PORT: String(peer.relayPort),
+      TEST_PEER_MODE: mode,
+      TEST_PEER_DELAY_MS: '5000'
+    },
+    stdio: ['ignore', 'pipe', 'inherit']
+  })
+  peer.process = child
+  return new Promise((resolve, reject) => {
+    child.once('exit', code => reject(new Error(`${peer.name} exited with code ${code}`)))
+    child.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('Fake relay')) resolve()
+    })
+  })
+}
+
+let localReplies = 0
+
+function createService(mode: 'hybrid' | 'distributed', use: (keyof typeof peers)[]) {
+  const llmService = {
+    getLoadedModelFile: () => null,
+    getSchedulerInfo: () => ({ stats: { slots: 1, running: 0, queued: 0 } }),
+    chat: async () => {
+      localReplies++
+      return 'local reply'
+    },
+    getConversationMessages: () => [{ role: 'system', content: 'You are helpful.' }],
+    recordRemoteExchange: () => {},
+    cancel: () => false
+  }
+  const service = new DistributedInferenceService(llmService as any)
+
+  // Peers normally come from mDNS; these point straight at the fake relays
+  const known: Map<string, PeerDevice> = (service as any).peers
+  for (const key of use) {
+    const peer = peers[key]
+    known.set(peer.name, {
+      id: peer.name,
+      name: peer.name,
+      address: '127.0.0.1',
+      port: 3001,
+      status: 'connected',
+      specs: { cpu: 'test', memory: 64, vram: peer.vram, gpuLayers: 0 },
+      lastSeen: new Date(),
+      contribution: 0,
+      relayPort: peer.relayPort
+    })
+  }
+  return {
+    service,
+    setUp: async (failover: Partial<FailoverPolicy> = {}) => {
+      await service.updateConfig({
+        mode,
+        routing: 'prefer-fastest',
+        failover: {
+          timeoutMs: { localai: 1000, peer: 1000 },
+          retries: 1,
+          backoffMs: 100,
+          maxBackends: 3,
+          breakerThreshold: 2,
+          breakerCooldownMs: 60000,
+          ...failover
+        }
+      })
+      await (service as any).refreshPeerStatus()
+    }
+  }
+}
+
+before(async () => {
+  await Promise.all([startPeer('fail'), startPeer('slow'), startPeer('ok')])
+})
+
+after(() => {
+  for (const peer of Object.values(peers)) {
+    peer.process?.removeAllListeners('exit')
+    peer.process?.kill()
+  }
+})
+
+test('retries each failing peer, opens its circuit and fails over to the next one', async () => {
+  const { service, setUp } = createService('hybrid', ['fail', 'slow', 'ok'])
+  await setUp()
+  localReplies = 0
+
+  const startTime = Date.now()
+  const response = await service.chat('hello', { requestId: 'first' })
+
+  assert.equal(response, 'working-peer received: hello')
+  const [metrics] = service.getRequestMetrics().requests
+  assert.equal(metrics.route, 'working-peer')
+  assert.deepEqual(metrics.attempts.map(attempt => [attempt.name, attempt.ok]), [
+    ['failing-peer', false],
+    ['failing-peer', false],
+    ['slow-peer', false],
+    ['slow-peer', false],
+    ['working-peer', true]
+  ])
+  assert.equal(metrics.failovers, 2)
+  // Two peer timeouts plus one backoff before each retry
+  assert.ok(Date.now() - startTime >= 2 * 1000 + 2 * 100)
+  assert.match(metrics.attempts[2].error || '', /did not answer within 1s/)
+  assert.equal(localReplies, 0)
+  const route = service.getStatus().route
+  assert.equal(route?.name, 'working-peer')
+  assert.match(route?.reasons[0] || '', /slow-peer failed/)
+  assert.equal(route?.active, false)
+
+  const circuits = service.getRequestMetrics().circuits
+  assert.deepEqual(circuits.map(circuit => circuit.id).sort(), ['failing-peer', 'slow-peer'])
+  assert.ok(circuits.every(circuit => circuit.openUntil! > Date.now()))
+
+  // With both circuits open the next request goes straight to the working peer
+  await service.chat('again', { requestId: 'second' })
+  const second = service.getRequestMetrics().requests[1]
+  assert.deepEqual(second.attempts.map(attempt => attempt.name), ['working-peer'])
+  assert.equal(second.failovers, 0)
+  service.dispose()
+})
+
+test('hybrid mode falls back to this device when every peer fails', async () => {
+  const { service, setUp } = createService('hybrid', ['fail'])
+  await setUp()
+  localReplies = 0
+
+  const response = await service.chat('hello', { requestId: 'fallback' })
+
+  assert.equal(response, 'local reply')
+  const [metrics] = service.getRequestMetrics().requests
+  assert.equal(metrics.route, 'this device')
+  assert.deepEqual(metrics.attempts.map(attempt => attempt.backend), ['failing-peer', 'failing-peer', 'local'])
+  assert.equal(metrics.failovers, 1)
+  service.dispose()
+})
+
+test('distributed mode reports that all backends failed instead of running locally', async () => {
+  const { service, setUp } = createService('distributed', ['fail'])
+  await setUp()
+  localReplies = 0
+
+  await assert.rejects(service.chat('hello', { requestId: 'distributed' }), /All backends failed/)
+
+  const [metrics] = service.getRequestMetrics().requests
+  assert.equal(metrics.route, '')
+  assert.equal(metrics.attempts.length, 2)
+  assert.equal(localReplies, 0)
+  service.dispose()
+})
+
+test('a cancelled trial request leaves the circuit to the next request', async () => {
+  const { service, setUp } = createService('distributed', ['slow'])
+  await setUp({ retries: 0, breakerThreshold: 1, breakerCooldownMs: 1000 })
+
+  await assert.rejects(service.chat('hello', { requestId: 'opens' }), /All backends failed/)
+  assert.ok(service.getRequestMetrics().circuits[0].openUntil! > Date.now())
+
+  // Once the cooldown is over the next request is the trial; the user stops it straight away
+  await new Promise(resolve => setTimeout(resolve, 1100))
+  const trial = service.chat('hello', { requestId: 'trial' })
+  await new Promise(resolve => setTimeout(resolve, 200))
+  assert.ok(service.cancel('trial'))
+  assert.equal(await trial, '')
+
+  const [circuit] = service.getRequestMetrics().circuits
+  assert.equal(circuit.id, 'slow-peer')
+  assert.equal(circuit.probing, false)
+  // Neither closed by the cancelled trial nor reopened: the next request is the trial again
+  assert.equal((service as any).breakers.allowRequest('slow-peer'), true)
+  service.dispose()
+})
@@ -0,0 +1,183 @@
+import { test, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import http from 'http'
+import { createHash } from 'crypto'
+import type { AddressInfo } from 'net'
+import { DownloadManager } from '../electron/download-manager.js'
+
+const payload = Buffer.alloc(256 * 1024, 'latentra')
+const payloadSha = createHash('sha256').update(payload).digest('hex')
+
+interface Fixture {
+  url: string
+  requests: { range?: string }[]
+  // Returns true when it handled the request itself
+  handle?: (req: http.IncomingMessage, res: http.ServerResponse, index: number) => boolean
+  close: () => Promise<void>
+}
+
+// Serves `payload` with Range support, like a model host does
+async function startServer(fixture: Partial<Fixture> = {}): Promise<Fixture> {
+  const requests: { range?: string }[] = []
+  const server = http.createServer((req, res) => {
+    requests.push({ range: req.headers.range })
+    if (fixture.handle?.(req, res, requests.length - 1)) return
+
+    const match = /^bytes=(\d+)-$/.exec(req.headers.range || '')
+    const start = match ? Number(match[1]) : 0
+    if (start >= payload.length) {
+      res.writeHead(416, { 'Content-Range': `bytes */${payload.length}` })
+      res.end()
+      return
+    }
+    res.writeHead(match ? 206 : 200, {
+      'Content-Length': payload.length - start,
+      ...(match ? { 'Content-Range': `bytes ${start}-${payload.length - 1}/${payload.length}` } : {})
+    })
+    res.end(payload.subarray(start))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return {
+    ...fixture,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/model.gguf`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections()
+      server.close(() => resolve())
+    })
+  }
+}
+
+let dir: string
+let manager: DownloadManager
+let server: Fixture
+
+function createManager(): DownloadManager {
+  manager = new DownloadManager({
+    modelsDir: path.join(dir, 'models'),
+    queueFile: path.join(dir, 'download-queue.json'),
+    stallTimeoutMs: 2000,
+    progressIntervalMs: 0
+  })
+  return manager
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latentra-downloads-'))
+})
+
+afterEach(async () => {
+  manager?.dispose()
+  await server?.close()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+test('resumes an interrupted download from the partial file', async () => {
+  server = await startServer({
+    // The first response drops the connection halfway through
+    handle: (req, res, index) => {
+      if (index > 0) return false
+      res.writeHead(200, { 'Content-Length': payload.length })
+      res.write(payload.subarray(0, payload.length / 2), () => res.destroy())
+      return true
+    }
+  })
+  const downloads = createManager()
+
+  const job = downloads.enqueue({ url: server.url, filename: 'model.gguf', sha256: payloadSha })
+  const failed = await downloads.waitFor(job.id)
+  assert.equal(failed.status, 'failed')
+  const partialSize = fs.statSync(path.join(dir, 'models', 'model.gguf.tmp')).size
+  assert.ok(partialSize > 0 && partialSize < payload.length)
+
+  assert.ok(downloads.resume(job.id))
+  const completed = await downloads.waitFor(job.id)
+
+  assert.equal(completed.status, 'completed')
+  assert.deepEqual(server.requests.map(request => request.range), [undefined, `bytes=${partialSize}-`])
+  assert.ok(fs.readFileSync(path.join(dir, 'models', 'model.gguf')).equals(payload))
+  assert.equal(fs.existsSync(path.join(dir, 'models', 'model.gguf.tmp')), false)
+})
+
+test('rejects a download whose checksum does not match', async () => {
+  server = await startServer()
+  const downloads = createManager()
+
+  const job = downloads.enqueue({ url: server.url, filename: 'model.gguf', sha256: '0'.repeat(64) })
+  const result = await downloads.waitFor(job.id)
+
+  assert.equal(result.status, 'failed')
+  assert.match(result.error || '', /Checksum mismatch/)
+  assert.equal(fs.existsSync(path.join(dir, 'models', 'model.gguf')), false)
+  assert.equal(fs.existsSync(path.join(dir, 'models', 'model.gguf.tmp')), false)
+})
+
+test('restarts instead of trusting a partial file the server cannot size', async () => {
+  server = await startServer({
+    // 416 without Content-Range, so the remote size stays unknown
+    handle: (req, res) => {
+      if (!req.headers.range) return false
+      res.writeHead(416)
+      res.end()
+      return true
+    }
+  })
+  fs.mkdirSync(path.join(dir, 'models'))
+  fs.writeFileSync(path.join(dir, 'models', 'model.gguf.tmp'), payload.subarray(0, 1000))
+  fs.writeFileSync(path.join(dir, 'download-queue.json'), JSON.stringify([{
+    id: 'restored',
+    url: server.url,
+    filename: 'model.gguf',
+    status: 'queued',
+    downloadedBytes: 1000,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  }]))
+  const downloads = createManager()
+
+  downloads.start()
+  const result = await downloads.waitFor('restored')
+
+  assert.equal(result.status, 'completed')
+  assert.deepEqual(server.requests.map(request => request.range), ['bytes=1000-', undefined])
+  assert.ok(fs.readFileSync(path.join(dir, 'models', 'model.gguf')).equals(payload))
+})
+
+test('refuses to pause while verifying', async () => {
+  server = await startServer()
+  const downloads = createManager()
+  const pauseResults: boolean[] = []
+  downloads.on('progress', update => {
+    if (update.status === 'verifying') {
+      pauseResults.push(downloads.pause(update.id))
+    }
+  })
+
+  const job = downloads.enqueue({ url: server.url, filename: 'model.gguf', sha256: payloadSha })
+  const result = await downloads.waitFor(job.id)
+
+  assert.deepEqual(pauseResults, [false])
+  assert.equal(result.status, 'completed')
+})
+
+test('verifies against the checksum a Hugging Face redirect names', async () => {
+  server = await startServer({
+    // Like huggingface.co/.../resolve/main/<file>: a redirect carrying the LFS digest
+    handle: (req, res) => {
+      if (req.url !== '/resolve/model.gguf') return false
+      res.writeHead(302, { Location: '/model.gguf', 'X-Linked-Etag': `"${'0'.repeat(64)}"` })
+      res.end()
+      return true
+    }
+  })
+  const downloads = createManager()
+
+  const job = downloads.enqueue({ url: server.url.replace('/model.gguf', '/resolve/model.gguf'), filename: 'model.gguf' })
+  const result = await downloads.waitFor(job.id)
+
+  assert.equal(result.status, 'failed')
+  assert.match(result.error || '', /Checksum mismatch/)
+})
@@ -0,0 +1,23 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// The parts of Electron's main-process API the services touch, backed by a throwaway user data folder
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'latentra-test-'))
+process.on('exit', () => fs.rmSync(userData, { recursive: true, force: true }))
+process.resourcesPath = process.resourcesPath || path.join(userData, 'resources')
+
+export const app = {
+  isPackaged: false,
+  getPath: () => userData,
+  getVersion: () => '0.0.0',
+  on: () => app
+}
+export const ipcMain = { handle: () => {}, on: () => {} }
+export class BrowserWindow {
+  static getAllWindows() {
+    return []
+  }
+}
+
+export default { app, ipcMain, BrowserWindow }
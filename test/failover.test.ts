@@ -0,0 +1,48 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { CircuitBreakers } from '../electron/failover.js'
+
+test('a circuit opens after the threshold and admits one trial request after the cooldown', async () => {
+  const breakers = new CircuitBreakers({ breakerThreshold: 2, breakerCooldownMs: 50 })
+
+  breakers.recordFailure('peer')
+  assert.equal(breakers.allowRequest('peer'), true)
+  breakers.recordFailure('peer')
+  assert.equal(breakers.isOpen('peer'), true)
+  assert.equal(breakers.allowRequest('peer'), false)
+
+  await new Promise(resolve => setTimeout(resolve, 60))
+  assert.equal(breakers.isOpen('peer'), false)
+  assert.equal(breakers.allowRequest('peer'), true)
+  // Half-open: everything else waits for the trial request
+  assert.equal(breakers.isOpen('peer'), true)
+  assert.equal(breakers.allowRequest('peer'), false)
+
+  breakers.recordSuccess('peer')
+  assert.equal(breakers.allowRequest('peer'), true)
+  assert.deepEqual(breakers.getStates(), [])
+})
+
+test('a failed trial request opens the circuit for another cooldown', async () => {
+  const breakers = new CircuitBreakers({ breakerThreshold: 3, breakerCooldownMs: 50 })
+  for (let i = 0; i < 3; i++) breakers.recordFailure('localai')
+
+  await new Promise(resolve => setTimeout(resolve, 60))
+  assert.equal(breakers.allowRequest('localai'), true)
+  breakers.recordFailure('localai')
+
+  assert.equal(breakers.allowRequest('localai'), false)
+  assert.ok(breakers.getRetryIn('localai') > 0)
+  assert.equal(breakers.getStates()[0].probing, false)
+})
+
+test('a released trial request lets the next one through', async () => {
+  const breakers = new CircuitBreakers({ breakerThreshold: 1, breakerCooldownMs: 50 })
+  breakers.recordFailure('peer')
+
+  await new Promise(resolve => setTimeout(resolve, 60))
+  assert.equal(breakers.allowRequest('peer'), true)
+  breakers.releaseProbe('peer')
+
+  assert.equal(breakers.allowRequest('peer'), true)
+})
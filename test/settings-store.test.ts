@@ -0,0 +1,37 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { JsonSettingsStore, requireSettingsObject } from '../electron/settings-store.js'
+
+function tempFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'latentra-settings-')), 'settings.json')
+}
+
+test('saves updates and reads them back', () => {
+  const filePath = tempFile()
+  const store = new JsonSettingsStore<{ a?: number; b?: string }>('settings.json', value => requireSettingsObject(value), filePath)
+
+  store.update({ a: 1 })
+  store.update({ b: 'two' })
+
+  assert.deepEqual(new JsonSettingsStore('settings.json', requireSettingsObject, filePath).get(), { a: 1, b: 'two' })
+  assert.equal(fs.existsSync(`${filePath}.tmp`), false)
+})
+
+test('starts from empty settings when the validator rejects the file', () => {
+  const filePath = tempFile()
+  fs.writeFileSync(filePath, '[1, 2, 3]')
+
+  assert.deepEqual(new JsonSettingsStore('settings.json', requireSettingsObject, filePath).get(), {})
+})
+
+test('keeps what the validator returns', () => {
+  const filePath = tempFile()
+  fs.writeFileSync(filePath, JSON.stringify({ keep: 'yes', drop: 'no' }))
+
+  const store = new JsonSettingsStore('settings.json', value => ({ keep: requireSettingsObject(value).keep }), filePath)
+
+  assert.deepEqual(store.get(), { keep: 'yes' })
+})
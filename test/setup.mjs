@@ -0,0 +1,4 @@
+import { register } from 'node:module'
+
+// Services import 'electron'; outside the app it resolves to ./electron-stub.mjs
+register('./electron-loader.mjs', import.meta.url)